@@ -1,16 +1,67 @@
-import { mkdirSync, writeFileSync, existsSync, readdirSync, statSync } from "node:fs";
-import { join, dirname, resolve, relative } from "node:path";
+import { mkdirSync, writeFileSync, existsSync, readdirSync, statSync, rmSync, createWriteStream } from "node:fs";
+import { join, dirname, resolve, relative, isAbsolute, sep } from "node:path";
 import { Readable } from "node:stream";
 import { pipeline } from "node:stream/promises";
 import { createGunzip } from "node:zlib";
 import tar from "tar-stream";
-import { parseGitHubUrl, downloadTarball } from "./github.js";
-import { saveConfig } from "./config.js";
-import type { RefdocsConfig, Source, GitHubSource, FileSource } from "./types.js";
+import { parseGitHubUrl, downloadTarball, resolveCommitSha } from "./github.js";
+import { parseGitLabUrl, downloadGitLabArchive, resolveGitLabCommit } from "./gitlab.js";
+import { parseBitbucketUrl, downloadBitbucketArchive, resolveBitbucketCommit } from "./bitbucket.js";
+import { isGitUrl, parseGitUrl, fetchGitArchive, resolveGitCommit } from "./git.js";
+import { saveConfig, CONFIG_DIR_NAME } from "./config.js";
+import { loadLock, saveLock, loadSynced, saveSynced, hashContent, LOCK_FILENAME } from "./lock.js";
+import { splitMarkdownBundle } from "./llms.js";
+import { resolveCredential } from "./credentials.js";
+import { readBody, request, configureHttp, conditionalHeaders, cacheValidators, DEFAULT_MAX_ARCHIVE_MB } from "./http.js";
+import type { DownloadOptions } from "./http.js";
+import { matchesFilters, isUnder } from "./glob.js";
+import { stageDirectory, stageFile, ownedFiles, readOwnedFiles, OWNED_FILES, STAGING_PREFIX } from "./staging.js";
+import { convertToMarkdown, converterFormat, isGeneratedCopy, markdownPath } from "./convert.js";
+import type { FileChanges, StageOptions } from "./staging.js";
+import { crawlSite, defaultPrefix, DEFAULT_MAX_PAGES } from "./web.js";
+import { htmlToMarkdown } from "./html.js";
+import {
+  collectPackageDocs,
+  fetchPackageManifest,
+  findInstalledPackage,
+  isNpmSpec,
+  isPackageDoc,
+  lockedPackageVersion,
+  packageDependencies,
+  parseNpmSpec,
+  parseRepository,
+  versionTags,
+} from "./npm.js";
+import type { PackageRepository } from "./npm.js";
+import type {
+  RefdocsConfig,
+  Source,
+  RepoSource,
+  GitHubSource,
+  FileSource,
+  WebSource,
+  NpmSource,
+  LockEntry,
+  ConvertFormat,
+} from "./types.js";
+
+export type RepoProvider = RepoSource["type"];
+
+export const REPO_PROVIDERS: RepoProvider[] = ["github", "gitlab", "bitbucket", "git"];
+
+export const SOURCE_TYPES: Source["type"][] = [...REPO_PROVIDERS, "file", "web", "npm"];
 
 export interface AddOptions {
   path?: string;
   branch?: string;
+  subpath?: string;
+  type?: Source["type"];
+  split?: boolean;
+  // Web sources: path prefix to stay under, and most pages to crawl
+  prefix?: string;
+  maxPages?: number;
+  include?: string[];
+  exclude?: string[];
   token?: string;
 }
 
@@ -18,46 +69,113 @@ export interface AddResult {
   filesWritten: number;
   localPath: string;
   source: Source;
+  lock?: LockEntry;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+
+// Where a source's sync is; the result comes with the last update
+export type SyncStatus =
+  | { phase: "resolving" }
+  | { phase: "downloading"; bytes: number }
+  | { phase: "crawling" | "extracting"; files: number }
+  | { phase: "done"; files: number; result: UpdateResult }
+  | { phase: "failed"; result: UpdateResult };
+
+export type SyncPhase = SyncStatus["phase"];
+
+export type SyncProgress = SyncStatus & { source: Source };
+
+export interface InstallOptions {
+  concurrency?: number;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface UpdateOptions extends InstallOptions {
+  source?: string;
+  dryRun?: boolean;
+  // Download every source even if it has not changed since the last update
+  force?: boolean;
 }
 
 export interface UpdateResult {
   source: Source;
   filesWritten: number;
+  changes: FileChanges;
+  lock?: LockEntry;
+  // Nothing was downloaded because the source has not changed upstream
+  upToDate?: boolean;
+  // Set when this source failed; the other sources are still synced
+  error?: Error;
 }
 
-export async function addFromGitHub(
+type ProgressReporter = (status: SyncStatus) => void;
+
+interface SyncOptions {
+  token?: string;
+  locked?: LockEntry;
+  // What the files on disk were last written from (see SYNCED_FILENAME); the
+  // download is skipped when upstream still matches it
+  previous?: LockEntry;
+  // Delete files that are no longer in the source
+  prune?: boolean;
+  dryRun?: boolean;
+  report?: ProgressReporter;
+}
+
+interface SyncResult {
+  filesWritten: number;
+  changes: FileChanges;
+  lock?: LockEntry;
+  upToDate?: boolean;
+}
+
+export function detectProvider(url: string): RepoProvider {
+  if (isGitUrl(url) && !/^https?:\/\//.test(url)) {
+    return "git";
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    throw new Error(`Invalid URL: "${url}"`);
+  }
+
+  const provider = repositoryHost(hostname);
+  if (provider) return provider;
+  if (isGitUrl(url)) return "git";
+
+  throw new Error(
+    `Unrecognized repository host "${hostname}". Use --type gitlab|bitbucket|git for self-hosted repositories, or --type web to crawl a documentation site.`
+  );
+}
+
+function repositoryHost(hostname: string): RepoProvider | undefined {
+  if (hostname === "github.com") return "github";
+  if (hostname === "bitbucket.org") return "bitbucket";
+  if (hostname === "gitlab.com" || hostname.startsWith("gitlab.")) return "gitlab";
+  return undefined;
+}
+
+export async function addFromUrl(
   url: string,
   options: AddOptions,
   configDir: string,
   config: RefdocsConfig,
 ): Promise<AddResult> {
-  const parsed = parseGitHubUrl(url);
-  const branch = options.branch ?? parsed.branch ?? undefined;
-  const token = options.token ?? process.env.GITHUB_TOKEN ?? undefined;
-  const defaultPath = parsed.subpath
-    ? `docs/${parsed.owner}/${parsed.repo}/${parsed.subpath}`
-    : `docs/${parsed.owner}/${parsed.repo}`;
-  const localPath = options.path ?? defaultPath;
-
-  const tarball = await downloadTarball(parsed.owner, parsed.repo, branch, token);
-
-  const filesWritten = await extractMarkdownFiles(
-    Buffer.from(tarball),
-    parsed.subpath,
-    join(configDir, localPath),
-  );
-
-  const source: GitHubSource = {
-    type: "github",
-    url,
-    owner: parsed.owner,
-    repo: parsed.repo,
-    branch: branch ?? "HEAD",
-    subpath: parsed.subpath,
-    localPath,
-    addedAt: new Date().toISOString(),
+  const type = options.type ?? (isNpmSpec(url) ? "npm" : isFileUrl(url) ? "file" : detectProvider(url));
+  const source: Source = {
+    ...createSource(type === "file" ? rawFileUrl(url) ?? url : url, type, options),
+    ...(options.include?.length ? { include: options.include } : {}),
+    ...(options.exclude?.length ? { exclude: options.exclude } : {}),
   };
+  const token = options.token ?? await tokenFor(source, config);
+
+  applyHttpConfig(config, configDir);
+  const { filesWritten, lock } = await syncSource(source, config, configDir, { token });
 
+  const localPath = source.localPath;
   const paths = isPathCovered(config.paths, localPath)
     ? config.paths
     : [...config.paths, localPath];
@@ -65,65 +183,703 @@ export async function addFromGitHub(
   const sources = upsertSource(config.sources ?? [], source);
 
   saveConfig({ paths, sources }, configDir);
+  if (lock) {
+    recordLockEntries(configDir, [[sourceKey(source), lock]]);
+  }
+
+  return { filesWritten, localPath, source, lock };
+}
+
+export async function addFromGitHub(
+  url: string,
+  options: AddOptions,
+  configDir: string,
+  config: RefdocsConfig,
+): Promise<AddResult> {
+  return addFromUrl(url, { ...options, type: "github" }, configDir, config);
+}
+
+function createSource(url: string, type: Source["type"], options: AddOptions): Source {
+  switch (type) {
+    case "file":
+      return createFileSource(url, options);
+    case "web":
+      return createWebSource(url, options);
+    case "npm":
+      return createNpmSource(url, options);
+    default:
+      return createRepoSource(url, type, options);
+  }
+}
+
+function createRepoSource(url: string, provider: RepoProvider, options: AddOptions): RepoSource {
+  const addedAt = new Date().toISOString();
+
+  switch (provider) {
+    case "github": {
+      const parsed = parseGitHubUrl(url);
+      const subpath = options.subpath ?? parsed.subpath;
+      return {
+        type: "github",
+        url,
+        owner: parsed.owner,
+        repo: parsed.repo,
+        branch: options.branch ?? parsed.branch ?? "HEAD",
+        subpath,
+        localPath: options.path ?? defaultLocalPath(`${parsed.owner}/${parsed.repo}`, subpath),
+        addedAt,
+      };
+    }
+    case "gitlab": {
+      const parsed = parseGitLabUrl(url);
+      const subpath = options.subpath ?? parsed.subpath;
+      return {
+        type: "gitlab",
+        url,
+        host: parsed.host,
+        project: parsed.project,
+        branch: options.branch ?? parsed.branch ?? "HEAD",
+        subpath,
+        localPath: options.path ?? defaultLocalPath(parsed.project, subpath),
+        addedAt,
+      };
+    }
+    case "bitbucket": {
+      const parsed = parseBitbucketUrl(url);
+      const subpath = options.subpath ?? parsed.subpath;
+      return {
+        type: "bitbucket",
+        url,
+        workspace: parsed.workspace,
+        repo: parsed.repo,
+        branch: options.branch ?? parsed.branch ?? "HEAD",
+        subpath,
+        localPath: options.path ?? defaultLocalPath(`${parsed.workspace}/${parsed.repo}`, subpath),
+        addedAt,
+      };
+    }
+    case "git": {
+      const parsed = parseGitUrl(url);
+      const subpath = options.subpath ?? "";
+      return {
+        type: "git",
+        url: parsed.remote,
+        branch: options.branch ?? "HEAD",
+        subpath,
+        localPath: options.path ?? defaultLocalPath(parsed.name, subpath),
+        addedAt,
+      };
+    }
+  }
+}
 
-  return { filesWritten, localPath, source };
+// On repository hosts only a file page (a blob URL) is a file; every other
+// URL there is a repository
+export function isFileUrl(url: string): boolean {
+  if (!/^https?:\/\//.test(url)) return false;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (!/\.(md|mdx|markdown|txt)$/i.test(parsed.pathname)) return false;
+  return !repositoryHost(parsed.hostname) || rawFileUrl(url) !== undefined;
+}
+
+/**
+ * The raw download URL of a file page on GitHub, GitLab or Bitbucket, whose
+ * own URL serves the file rendered as HTML. Undefined for other URLs.
+ */
+export function rawFileUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  const { origin, pathname } = parsed;
+  switch (repositoryHost(parsed.hostname)) {
+    case "github": {
+      const match = pathname.match(/^\/([^/]+)\/([^/]+)\/blob\/(.+)$/);
+      return match ? `https://raw.githubusercontent.com/${match[1]}/${match[2]}/${match[3]}` : undefined;
+    }
+    case "gitlab": {
+      const match = pathname.match(/^(.+?)\/-\/blob\/(.+)$/);
+      return match ? `${origin}${match[1]}/-/raw/${match[2]}` : undefined;
+    }
+    case "bitbucket": {
+      const match = pathname.match(/^\/([^/]+)\/([^/]+)\/src\/(.+)$/);
+      return match ? `${origin}/${match[1]}/${match[2]}/raw/${match[3]}` : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function createFileSource(url: string, options: AddOptions): FileSource {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: "${url}"`);
+  }
+
+  const split = options.split ?? false;
+  const pathname = parsed.pathname.replace(/\/+$/, "") || "/index.md";
+  const filePath = `${DOWNLOAD_ROOT}/${parsed.hostname}${pathname}`;
+  const defaultPath = split ? filePath.replace(/\.[^./]+$/, "") : filePath;
+
+  return {
+    type: "file",
+    url,
+    localPath: options.path ?? defaultPath,
+    ...(split ? { split } : {}),
+    addedAt: new Date().toISOString(),
+  };
+}
+
+function createWebSource(url: string, options: AddOptions): WebSource {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: "${url}"`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Web sources need an http(s) URL, got "${url}"`);
+  }
+
+  const prefix = options.prefix ? `/${options.prefix.replace(/^\/+/, "")}` : defaultPrefix(url);
+  return {
+    type: "web",
+    url,
+    prefix,
+    ...(options.maxPages !== undefined ? { maxPages: options.maxPages } : {}),
+    localPath: options.path ?? `${DOWNLOAD_ROOT}/${parsed.hostname}${prefix.replace(/\/+$/, "")}`,
+    addedAt: new Date().toISOString(),
+  };
+}
+
+function createNpmSource(url: string, options: AddOptions): NpmSource {
+  const name = parseNpmSpec(isNpmSpec(url) ? url : `npm:${url}`);
+  return {
+    type: "npm",
+    url: `npm:${name}`,
+    package: name,
+    localPath: options.path ?? `${DOWNLOAD_ROOT}/npm/${name}`,
+    addedAt: new Date().toISOString(),
+  };
+}
+
+const DOWNLOAD_ROOT = "docs";
+
+function defaultLocalPath(name: string, subpath: string): string {
+  return subpath ? `${DOWNLOAD_ROOT}/${name}/${subpath}` : `${DOWNLOAD_ROOT}/${name}`;
+}
+
+function applyHttpConfig(config: RefdocsConfig, configDir: string): void {
+  configureHttp({
+    ...(config.timeout !== undefined ? { timeoutMs: config.timeout * 1000 } : {}),
+    ...(config.retries !== undefined ? { retries: config.retries } : {}),
+    ...(config.caFile ? { caFile: resolve(configDir, config.caFile) } : {}),
+  });
+}
+
+// An explicitly passed GitHub token wins over the configured credentials
+async function tokenFor(source: Source, config: RefdocsConfig, githubToken?: string): Promise<string | undefined> {
+  if (githubToken && source.type === "github") return githubToken;
+  return (await resolveCredential(source, config)).token;
 }
 
 export async function updateSources(
   config: RefdocsConfig,
   configDir: string,
   token?: string,
+  options: UpdateOptions = {},
+): Promise<UpdateResult[]> {
+  const sources = selectSources(config, options.source);
+  applyHttpConfig(config, configDir);
+  const previous = options.force ? {} : loadSynced(configDir);
+
+  const results = await syncAll(sources, config, configDir, options, async (source) => ({
+    token: await tokenFor(source, config, token),
+    previous: source.type ? previous[sourceKey(source)] : undefined,
+    prune: true,
+    dryRun: options.dryRun,
+  }));
+
+  if (!options.dryRun) {
+    recordLockEntries(configDir, lockEntriesFor(results));
+  }
+  return results;
+}
+
+export async function installSources(
+  config: RefdocsConfig,
+  configDir: string,
+  token?: string,
+  options: InstallOptions = {},
+): Promise<UpdateResult[]> {
+  const sources = selectSources(config);
+  applyHttpConfig(config, configDir);
+  const locked = loadLock(configDir).sources;
+
+  const results = await syncAll(sources, config, configDir, options, async (source) => ({
+    token: await tokenFor(source, config, token),
+    locked: source.type ? locked[sourceKey(source)] : undefined,
+    prune: true,
+  }));
+
+  recordLockEntries(configDir, lockEntriesFor(results));
+  return results;
+}
+
+export interface SyncDependenciesOptions extends InstallOptions {
+  // Also add devDependencies
+  dev?: boolean;
+}
+
+export interface SyncDependenciesResult {
+  // Packages whose npm source was added or removed
+  added: string[];
+  removed: string[];
+  results: UpdateResult[];
+}
+
+/**
+ * Makes the npm sources match the dependencies in the project's package.json:
+ * a source is added for every dependency that has none, and the sources (and
+ * files) it added for packages that are no longer a dependency of any kind
+ * are removed. Sources added with `refdocs add` are left alone.
+ * Every npm source is then updated, which refreshes the ones whose installed
+ * version changed.
+ */
+export async function syncDependencies(
+  config: RefdocsConfig,
+  configDir: string,
+  options: SyncDependenciesOptions = {},
+): Promise<SyncDependenciesResult> {
+  const projectDir = dirname(configDir);
+  const wanted = packageDependencies(projectDir, { dev: options.dev });
+  const declared = new Set(packageDependencies(projectDir, { dev: true }));
+  const sources = config.sources ?? [];
+  const npmSources = sources.filter((s): s is NpmSource => s.type === "npm");
+
+  const removedSources = npmSources.filter((s) => s.dependency && !declared.has(s.package));
+  const addedSources = wanted
+    .filter((name) => !npmSources.some((s) => s.package === name))
+    .map((name): NpmSource => ({ ...createNpmSource(`npm:${name}`, {}), dependency: true }));
+  const removed = new Set<Source>(removedSources);
+  const kept = [...sources.filter((s) => !removed.has(s)), ...addedSources];
+  const removedPaths = new Set(removedSources.map((s) => s.localPath));
+  const paths = config.paths.filter((p) => !removedPaths.has(p));
+  for (const source of addedSources) {
+    if (!isPathCovered(paths, source.localPath)) paths.push(source.localPath);
+  }
+
+  if (addedSources.length > 0 || removedSources.length > 0) {
+    saveConfig({ paths, sources: kept }, configDir);
+  }
+  const updated = { ...config, paths, sources: kept };
+  if (removedSources.length > 0) {
+    const lock = loadLock(configDir);
+    for (const source of removedSources) {
+      delete lock.sources[sourceKey(source)];
+      deleteSourceFiles(source, configDir, updated);
+    }
+    saveLock(lock, configDir);
+  }
+
+  applyHttpConfig(config, configDir);
+  const previous = loadSynced(configDir);
+  const results = await syncAll(kept.filter((s) => s.type === "npm"), updated, configDir, options, async (source) => ({
+    token: await tokenFor(source, updated),
+    previous: previous[sourceKey(source)],
+    prune: true,
+  }));
+  recordLockEntries(configDir, lockEntriesFor(results));
+
+  return {
+    added: addedSources.map((s) => s.package),
+    removed: removedSources.map((s) => s.package),
+    results,
+  };
+}
+
+// Syncs sources with at most `concurrency` in flight. A failing source is
+// recorded in its result instead of aborting the others.
+async function syncAll(
+  sources: Source[],
+  config: RefdocsConfig,
+  configDir: string,
+  options: InstallOptions,
+  syncOptionsFor: (source: Source) => Promise<SyncOptions>,
 ): Promise<UpdateResult[]> {
+  const concurrency = Math.max(1, options.concurrency ?? config.concurrency ?? DEFAULT_CONCURRENCY);
+  const results: UpdateResult[] = new Array(sources.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < sources.length) {
+      const index = next++;
+      const source = sources[index];
+      const report: ProgressReporter = (progress) => options.onProgress?.({ source, ...progress });
+      try {
+        const synced = await syncSource(source, config, configDir, { ...await syncOptionsFor(source), report });
+        results[index] = { source, ...synced };
+        report({ phase: "done", files: synced.filesWritten, result: results[index] });
+      } catch (err) {
+        results[index] = {
+          source,
+          filesWritten: 0,
+          changes: { added: [], modified: [], deleted: [] },
+          error: err instanceof Error ? err : new Error(String(err)),
+        };
+        report({ phase: "failed", result: results[index] });
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, sources.length) }, worker));
+  return results;
+}
+
+function selectSources(config: RefdocsConfig, key?: string): Source[] {
   const sources = config.sources ?? [];
   if (sources.length === 0) {
     throw new Error("No sources configured. Add a source first with `refdocs add <url>`.");
   }
+  if (key === undefined) return sources;
+
+  const matching = sources.filter((s) => matchesSourceKey(s, key));
+  if (matching.length === 0) {
+    throw new Error(`No source matching "${key}". Run \`refdocs list\` to see configured sources.`);
+  }
+  return matching;
+}
+
+async function syncSource(
+  source: Source,
+  config: RefdocsConfig,
+  configDir: string,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  if (!isInsideConfigDir(configDir, source.localPath)) {
+    throw new Error(`localPath "${source.localPath}" of ${source.url} must be inside ${CONFIG_DIR_NAME}/`);
+  }
+  const settings = settingsHash(source, config);
+  // Files written with another subpath or other filters are stale even when
+  // upstream has not changed
+  const previous = options.previous?.settings === settings ? options.previous : undefined;
+  const result = await fetchSource(source, config, configDir, { ...options, previous });
+  return result.lock ? { ...result, lock: { ...result.lock, settings } } : result;
+}
 
-  const results: UpdateResult[] = [];
-  for (const source of sources) {
-    switch (source.type) {
-      case "github": {
-        const ref = source.branch === "HEAD" ? undefined : source.branch;
-        const tarball = await downloadTarball(source.owner, source.repo, ref, token);
-        const filesWritten = await extractMarkdownFiles(
-          Buffer.from(tarball),
-          source.subpath,
-          join(configDir, source.localPath),
+// Hashes everything that decides which files a source writes
+function settingsHash(source: Source, config: RefdocsConfig): string {
+  const settings = {
+    source: { ...source, addedAt: undefined },
+    include: config.include,
+    exclude: config.exclude,
+    convert: config.convert,
+    maxFileMB: config.maxFileMB,
+  };
+  return hashContent(JSON.stringify(settings, (_key, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value));
+}
+
+async function fetchSource(
+  source: Source,
+  config: RefdocsConfig,
+  configDir: string,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const { token, locked } = options;
+  // Skipping is only safe if the files the previous update wrote are still there
+  const previous = options.previous && existsSync(join(configDir, source.localPath)) ? options.previous : undefined;
+  const report: ProgressReporter = options.report ?? (() => {});
+  const onBytes = (bytes: number) => report({ phase: "downloading", bytes });
+  const maxBytes = (config.maxArchiveMB ?? DEFAULT_MAX_ARCHIVE_MB) * 1024 * 1024;
+  const download: DownloadOptions = { onProgress: onBytes, maxBytes };
+  const stage: StageOptions = {
+    prune: options.prune,
+    dryRun: options.dryRun,
+    keep: nestedSourcePaths(source, config),
+  };
+
+  switch (source.type) {
+    case "github": {
+      report({ phase: "resolving" });
+      const commit = locked?.commit ?? await resolveCommitSha(source.owner, source.repo, branchRef(source), token);
+      if (!locked && previous?.commit === commit) return upToDate(previous);
+      onBytes(0);
+      const tarball = await downloadTarball(source.owner, source.repo, commit, token, download);
+      return extractRepoArchive(source, tarball, commit, config, configDir, stage, report, locked);
+    }
+    case "gitlab": {
+      report({ phase: "resolving" });
+      const commit = locked?.commit ?? await resolveGitLabCommit(source.url, source.project, branchRef(source), token);
+      if (!locked && previous?.commit === commit) return upToDate(previous);
+      onBytes(0);
+      const tarball = await downloadGitLabArchive(source.url, source.project, commit, token, download);
+      return extractRepoArchive(source, tarball, commit, config, configDir, stage, report, locked);
+    }
+    case "bitbucket": {
+      report({ phase: "resolving" });
+      const commit = locked?.commit ?? await resolveBitbucketCommit(source.workspace, source.repo, branchRef(source), token);
+      if (!locked && previous?.commit === commit) return upToDate(previous);
+      onBytes(0);
+      const tarball = await downloadBitbucketArchive(source.workspace, source.repo, commit, token, download);
+      return extractRepoArchive(source, tarball, commit, config, configDir, stage, report, locked);
+    }
+    case "git": {
+      if (!locked && previous?.commit) {
+        report({ phase: "resolving" });
+        if (await resolveGitCommit(source.url, branchRef(source)) === previous.commit) return upToDate(previous);
+      }
+      onBytes(0);
+      const archive = await fetchGitArchive(source.url, branchRef(source), locked?.commit, download);
+      return extractRepoArchive(source, archive.tarball, archive.commit, config, configDir, stage, report, locked);
+    }
+    case "file": {
+      onBytes(0);
+      const response = await request(source.url, {
+        headers: {
+          ...(locked ? {} : conditionalHeaders(previous)),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        redirect: "follow",
+      });
+      if (response.status === 304 && previous) return upToDate(previous);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching ${source.url}`);
+      }
+      const content = new TextDecoder().decode(await readBody(response, onBytes));
+      const contentHash = hashContent(content);
+      if (locked?.contentHash && locked.contentHash !== contentHash) {
+        throw new Error(
+          `Content of ${source.url} no longer matches ${LOCK_FILENAME} (expected ${locked.contentHash}, got ${contentHash}). Run \`refdocs update --source ${source.url}\` to accept the new content.`
         );
-        results.push({ source, filesWritten });
-        break;
       }
-      case "file": {
-        const response = await fetch(source.url, { redirect: "follow" });
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status} fetching ${source.url}`);
+      const validators = cacheValidators(response);
+      // The server ignored the conditional request but the content is the same
+      if (!locked && previous?.contentHash === contentHash) return upToDate({ ...previous, ...validators });
+      const fullPath = join(configDir, source.localPath);
+      const lock = locked ?? {
+        type: "file",
+        url: source.url,
+        contentHash,
+        ...validators,
+        resolvedAt: new Date().toISOString(),
+      };
+      if (!source.split) {
+        return { filesWritten: 1, changes: stageFile(configDir, fullPath, content, stage), lock };
+      }
+      const include = sourceFilter(source, config);
+      const sections = splitMarkdownBundle(content).filter((s) => include(`${s.name}.md`));
+      const staged = await stageDirectory(configDir, fullPath, (dir) => {
+        for (const section of sections) {
+          writeFileSync(join(dir, `${section.name}.md`), section.content, "utf-8");
         }
-        const content = await response.text();
-        const fullPath = join(configDir, source.localPath);
-        mkdirSync(dirname(fullPath), { recursive: true });
-        writeFileSync(fullPath, content, "utf-8");
-        results.push({ source, filesWritten: 1 });
-        break;
+        return sections.length;
+      }, stage);
+      return { ...staged, lock };
+    }
+    case "web": {
+      report({ phase: "crawling", files: 0 });
+      const pages = await crawlSite(source.url, {
+        prefix: source.prefix,
+        maxPages: source.maxPages ?? DEFAULT_MAX_PAGES,
+        token,
+        maxPageBytes: (config.maxFileMB ?? DEFAULT_MAX_FILE_MB) * 1024 * 1024,
+        onPage: (files) => report({ phase: "crawling", files }),
+      });
+      const include = sourceFilter(source, config);
+      const documents = pages
+        .filter((page) => include(page.path))
+        .map((page) => ({ path: page.path, content: htmlToMarkdown(page.html) }));
+      const contentHash = hashContent(documents.map((d) => `${d.path} ${hashContent(d.content)}`).join("\n"));
+      if (locked?.contentHash && locked.contentHash !== contentHash) {
+        throw new Error(
+          `Content of ${source.url} no longer matches ${LOCK_FILENAME} (expected ${locked.contentHash}, got ${contentHash}). Run \`refdocs update --source ${source.url}\` to accept the new content.`
+        );
       }
-      default: {
-        // Handle legacy sources without a type field
-        const legacy = source as Record<string, unknown>;
-        if (typeof legacy.owner === "string" && typeof legacy.repo === "string") {
-          const ref = (legacy.branch as string) === "HEAD" ? undefined : legacy.branch as string;
-          const tarball = await downloadTarball(legacy.owner as string, legacy.repo as string, ref, token);
-          const filesWritten = await extractMarkdownFiles(
-            Buffer.from(tarball),
-            (legacy.subpath as string) ?? "",
-            join(configDir, (legacy.localPath as string) ?? ""),
-          );
-          results.push({ source, filesWritten });
+      if (!locked && previous?.contentHash === contentHash) return upToDate(previous);
+      const lock = locked ?? { type: "web", url: source.url, contentHash, resolvedAt: new Date().toISOString() };
+      const staged = await stageDirectory(configDir, join(configDir, source.localPath), (dir) => {
+        for (const document of documents) {
+          const target = join(dir, document.path);
+          mkdirSync(dirname(target), { recursive: true });
+          writeFileSync(target, document.content, "utf-8");
         }
-        break;
+        return documents.length;
+      }, stage);
+      return { ...staged, lock };
+    }
+    case "npm": {
+      report({ phase: "resolving" });
+      const projectDir = dirname(configDir);
+      const installed = findInstalledPackage(source.package, projectDir);
+      const version = locked?.version ?? installed?.version ?? lockedPackageVersion(source.package, projectDir);
+      if (!version) {
+        throw new Error(`${source.package} is not installed. Run \`npm install\` first.`);
+      }
+      if (!locked && previous?.version === version) return upToDate(previous);
+      const include = sourceFilter(source, config);
+      const maxFileBytes = (config.maxFileMB ?? DEFAULT_MAX_FILE_MB) * 1024 * 1024;
+
+      if (installed?.version === version) {
+        report({ phase: "extracting", files: 0 });
+        const documents = collectPackageDocs(installed.dir, maxFileBytes).filter((d) => include(d.path));
+        const staged = await stageDirectory(configDir, join(configDir, source.localPath), (dir) => {
+          for (const document of documents) {
+            const target = join(dir, document.path);
+            mkdirSync(dirname(target), { recursive: true });
+            writeFileSync(target, document.content, "utf-8");
+          }
+          return documents.length;
+        }, stage);
+        const lock = locked ?? { type: "npm", url: source.url, version, resolvedAt: new Date().toISOString() };
+        return { ...staged, lock };
+      }
+
+      // The installed copy is missing or at another version: take the docs
+      // from the package's repository at the release tag instead
+      const repository = parseRepository((await fetchPackageManifest(source.package, version)).repository);
+      if (!repository) {
+        throw new Error(
+          `${source.package}@${version} is not installed and has no GitHub repository to download its docs from. Run \`npm install\` first.`
+        );
       }
+      const githubToken = await tokenFor(repositorySource(repository), config);
+      const commit = locked?.commit ?? await resolveReleaseCommit(source.package, version, repository, githubToken);
+      onBytes(0);
+      const tarball = await downloadTarball(repository.owner, repository.repo, commit, githubToken, download);
+      report({ phase: "extracting", files: 0 });
+      const staged = await stageDirectory(
+        configDir,
+        join(configDir, source.localPath),
+        (dir) => extractMarkdownFiles(tarball, repository.directory, dir, {
+          filter: (path) => isPackageDoc(path) && include(path),
+          maxFileBytes,
+          onFile: (files) => report({ phase: "extracting", files }),
+        }),
+        stage,
+      );
+      const lock = locked ?? { type: "npm", url: source.url, version, commit, resolvedAt: new Date().toISOString() };
+      return { ...staged, lock };
     }
+    default:
+      // Sources saved without a type are given one by the config migration
+      throw new Error(`Unknown source type "${(source as { type?: unknown }).type}"`);
   }
+}
 
-  return results;
+function upToDate(lock: LockEntry): SyncResult {
+  return { filesWritten: 0, changes: { added: [], modified: [], deleted: [] }, lock, upToDate: true };
+}
+
+// The repository of an npm package, as a source its GitHub token is found for
+function repositorySource(repository: PackageRepository): GitHubSource {
+  return {
+    type: "github",
+    url: `https://github.com/${repository.owner}/${repository.repo}`,
+    owner: repository.owner,
+    repo: repository.repo,
+    branch: "HEAD",
+    subpath: repository.directory,
+    localPath: "",
+    addedAt: "",
+  };
+}
+
+// The commit of the first tag a release is commonly published under
+async function resolveReleaseCommit(
+  name: string,
+  version: string,
+  repository: PackageRepository,
+  token?: string,
+): Promise<string> {
+  const tags = versionTags(name, version);
+  for (const tag of tags) {
+    try {
+      return await resolveCommitSha(repository.owner, repository.repo, tag, token);
+    } catch (err) {
+      if (!(err as Error).message.startsWith("Repository not found")) throw err;
+    }
+  }
+  throw new Error(
+    `No release tag for ${name}@${version} in ${repository.owner}/${repository.repo} (tried ${tags.join(", ")}). Run \`npm install\` to read its docs from node_modules.`
+  );
+}
+
+function branchRef(source: RepoSource): string | undefined {
+  return source.branch === "HEAD" ? undefined : source.branch;
+}
+
+async function extractRepoArchive(
+  source: RepoSource,
+  tarball: Buffer | Readable,
+  commit: string,
+  config: RefdocsConfig,
+  configDir: string,
+  stage: StageOptions,
+  report: ProgressReporter,
+  locked?: LockEntry,
+): Promise<SyncResult> {
+  report({ phase: "extracting", files: 0 });
+  const staged = await stageDirectory(
+    configDir,
+    join(configDir, source.localPath),
+    (dir) => extractMarkdownFiles(tarball, source.subpath, dir, {
+      filter: sourceFilter(source, config),
+      maxFileBytes: (config.maxFileMB ?? DEFAULT_MAX_FILE_MB) * 1024 * 1024,
+      convert: config.convert,
+      onFile: (files) => report({ phase: "extracting", files }),
+    }),
+    stage,
+  );
+  return {
+    ...staged,
+    lock: locked ?? { type: source.type, url: source.url, commit, resolvedAt: new Date().toISOString() },
+  };
+}
+
+// Directories of other sources downloaded inside this source's directory,
+// relative to it; pruning must leave them alone
+function nestedSourcePaths(source: Source, config: RefdocsConfig): string[] {
+  const localPath = source.localPath.replace(/\/+$/, "");
+  return (config.sources ?? [])
+    .filter((s) => s !== source && s.localPath !== localPath && isUnder(s.localPath, localPath))
+    .map((s) => s.localPath.slice(localPath.length + 1));
+}
+
+// Source filters see paths relative to the source's directory, config
+// filters the same path as it will appear in the manifest
+function sourceFilter(source: Source, config: RefdocsConfig): (path: string) => boolean {
+  const localPath = source.localPath.replace(/\/+$/, "");
+  return (path) => matchesFilters(path, source) && matchesFilters(`${localPath}/${path}`, config);
+}
+
+function lockEntriesFor(results: UpdateResult[]): Array<[string, LockEntry]> {
+  return results.flatMap((r): Array<[string, LockEntry]> => (r.lock ? [[sourceKey(r.source), r.lock]] : []));
+}
+
+// Every entry recorded here was just written to disk, so it is also what
+// the next update compares upstream against
+function recordLockEntries(configDir: string, entries: Array<[string, LockEntry]>): void {
+  if (entries.length === 0) return;
+  const lock = loadLock(configDir);
+  const synced = loadSynced(configDir);
+  for (const [key, entry] of entries) {
+    lock.sources[key] = entry;
+    synced[key] = entry;
+  }
+  saveLock(lock, configDir);
+  saveSynced(synced, configDir);
 }
 
 export interface AddLocalResult {
@@ -142,7 +898,7 @@ export function addLocalPath(
     throw new Error(`Directory not found: ${inputPath}`);
   }
 
-  if (!hasMarkdownFiles(absolutePath)) {
+  if (!hasMarkdownFiles(absolutePath, config.convert)) {
     throw new Error(`No .md/.mdx files found in ${inputPath}`);
   }
 
@@ -158,96 +914,298 @@ export function addLocalPath(
   return { localPath };
 }
 
+export interface RemoveOptions {
+  keepFiles?: boolean;
+}
+
 export interface RemoveResult {
   removed: boolean;
   sourceRemoved: boolean;
+  // Source directories deleted from disk, relative to the config dir
+  deleted: string[];
 }
 
+/**
+ * Removes a configured path or a source. `target` is a path relative to the
+ * project dir, or a source key (`owner/repo[/subpath]`, URL, lock key).
+ * Files of removed sources are deleted unless `keepFiles` is set; local paths
+ * added by the user are only dropped from the config.
+ */
 export function removePath(
-  inputPath: string,
+  target: string,
   configDir: string,
   config: RefdocsConfig,
   projectDir: string,
+  options: RemoveOptions = {},
 ): RemoveResult {
-  const absolutePath = resolve(projectDir, inputPath);
+  const absolutePath = resolve(projectDir, target);
   const normalizedPath = relative(configDir, absolutePath);
 
-  const pathIndex = config.paths.indexOf(normalizedPath);
-  if (pathIndex === -1) {
-    return { removed: false, sourceRemoved: false };
-  }
+  const sources = config.sources ?? [];
+  const removedSources = sources.filter(
+    (s) => s.localPath === normalizedPath || matchesSourceKey(s, target),
+  );
+  const removedPaths = new Set([normalizedPath, ...removedSources.map((s) => s.localPath)]);
 
-  const paths = config.paths.filter((p) => p !== normalizedPath);
+  if (removedSources.length === 0 && !config.paths.includes(normalizedPath)) {
+    return { removed: false, sourceRemoved: false, deleted: [] };
+  }
 
-  const sources = config.sources ?? [];
-  const filteredSources = sources.filter((s) => s.localPath !== normalizedPath);
-  const sourceRemoved = filteredSources.length < sources.length;
+  const paths = config.paths.filter((p) => !removedPaths.has(p));
+  const filteredSources = sources.filter((s) => !removedSources.includes(s));
+  const sourceRemoved = removedSources.length > 0;
 
   saveConfig({ paths, sources: filteredSources }, configDir);
 
-  return { removed: true, sourceRemoved };
+  const deleted: string[] = [];
+  if (sourceRemoved) {
+    const lock = loadLock(configDir);
+    const keptKeys = new Set(filteredSources.filter((s) => s.type).map(sourceKey));
+    for (const s of removedSources) {
+      if (!s.type) continue;
+      const key = sourceKey(s);
+      if (!keptKeys.has(key)) delete lock.sources[key];
+    }
+    saveLock(lock, configDir);
+
+    if (!options.keepFiles) {
+      const remaining = { ...config, sources: filteredSources };
+      for (const s of removedSources) {
+        if (deleteSourceFiles(s, configDir, remaining)) deleted.push(s.localPath);
+      }
+    }
+  }
+
+  return { removed: true, sourceRemoved, deleted };
+}
+
+function isInsideConfigDir(configDir: string, localPath: string): boolean {
+  const rel = relative(configDir, join(configDir, localPath));
+  return rel !== "" && !rel.startsWith("..") && !isAbsolute(rel);
+}
+
+// Deletes a source's downloaded files, leaving directories of other sources
+// nested inside it. Paths outside the config dir are never touched.
+function deleteSourceFiles(source: Source, configDir: string, config: RefdocsConfig): boolean {
+  const fullPath = join(configDir, source.localPath);
+  if (!isInsideConfigDir(configDir, source.localPath) || !existsSync(fullPath)) return false;
+
+  if (!statSync(fullPath).isDirectory()) {
+    rmSync(fullPath, { force: true });
+    return true;
+  }
+  // Files the user added next to the downloaded ones stay
+  for (const file of [...ownedFiles(fullPath, nestedSourcePaths(source, config)), OWNED_FILES]) {
+    rmSync(join(fullPath, file), { force: true });
+  }
+  removeEmptyDirs(fullPath);
+  return true;
+}
+
+function removeEmptyDirs(dir: string): boolean {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) removeEmptyDirs(join(dir, entry.name));
+  }
+  if (readdirSync(dir).length > 0) return false;
+  rmSync(dir, { recursive: true, force: true });
+  return true;
+}
+
+export interface GcOptions {
+  dryRun?: boolean;
+}
+
+export interface GcResult {
+  deleted: string[];
+  // Unreferenced paths refdocs did not write; they are left alone
+  skipped: string[];
+}
+
+function hasOwnedFiles(dir: string): boolean {
+  if (existsSync(join(dir, OWNED_FILES))) return true;
+  return readdirSync(dir, { withFileTypes: true })
+    .some((entry) => entry.isDirectory() && hasOwnedFiles(join(dir, entry.name)));
+}
+
+/**
+ * Deletes source directories under the download root (`docs/`) that no
+ * source or configured path refers to, e.g. ones left behind by sources
+ * removed with `--keep-files` or by hand, plus leftover staging directories.
+ * Only directories with an OWNED_FILES list count as written by refdocs, and
+ * only the files listed there are deleted; anything else unreferenced is
+ * reported as skipped. Paths are relative to the config dir.
+ */
+export function collectGarbage(config: RefdocsConfig, configDir: string, options: GcOptions = {}): GcResult {
+  const sourcePaths = (config.sources ?? []).map((s) => s.localPath.replace(/\/+$/, ""));
+  // The download root itself (the default "docs" path) and configured paths
+  // that hold sources do not protect what else is in them
+  const referenced = [
+    ...sourcePaths,
+    ...config.paths
+      .map((p) => p.replace(/\/+$/, ""))
+      .filter((p) => p !== DOWNLOAD_ROOT && !sourcePaths.some((sp) => sp !== p && isUnder(sp, p))),
+  ];
+
+  const orphans: string[] = [];
+  const skipped: string[] = [];
+  function visit(rel: string, depth: number) {
+    for (const entry of readdirSync(join(configDir, rel), { withFileTypes: true })) {
+      const child = `${rel}/${entry.name}`;
+      if (referenced.some((r) => isUnder(child, r))) continue;
+      if (referenced.some((r) => isUnder(r, child))) {
+        if (entry.isDirectory()) visit(child, depth + 1);
+        continue;
+      }
+      // Files directly in the download root are never written by refdocs
+      if (depth === 0 && !entry.isDirectory()) continue;
+      if (!entry.isDirectory() || !hasOwnedFiles(join(configDir, child))) {
+        skipped.push(child);
+      } else if (existsSync(join(configDir, child, OWNED_FILES))) {
+        orphans.push(child);
+      } else {
+        visit(child, depth + 1);
+      }
+    }
+  }
+  if (existsSync(join(configDir, DOWNLOAD_ROOT))) visit(DOWNLOAD_ROOT, 0);
+
+  const staging = (existsSync(configDir) ? readdirSync(configDir) : []).filter((e) => e.startsWith(STAGING_PREFIX));
+
+  if (!options.dryRun) {
+    for (const orphan of orphans) {
+      const dir = join(configDir, orphan);
+      for (const file of [...(readOwnedFiles(dir) ?? []), OWNED_FILES]) {
+        rmSync(join(dir, file), { force: true });
+      }
+      removeEmptyDirs(dir);
+      // Parents emptied along the way go too, up to the download root
+      for (let parent = dirname(orphan); parent !== DOWNLOAD_ROOT && parent !== "."; parent = dirname(parent)) {
+        const parentDir = join(configDir, parent);
+        if (!existsSync(parentDir) || readdirSync(parentDir).length > 0) break;
+        rmSync(parentDir, { recursive: true, force: true });
+      }
+    }
+    for (const entry of staging) {
+      rmSync(join(configDir, entry), { recursive: true, force: true });
+    }
+  }
+  return { deleted: [...orphans, ...staging], skipped };
 }
 
-function hasMarkdownFiles(dir: string): boolean {
+// Files in one of the `convert` formats count as markdown
+function hasMarkdownFiles(dir: string, convert?: ConvertFormat[]): boolean {
   const entries = readdirSync(dir, { withFileTypes: true });
   for (const entry of entries) {
     if (entry.isFile() && (entry.name.endsWith(".md") || entry.name.endsWith(".mdx"))) return true;
+    if (entry.isFile() && converterFormat(entry.name, convert)) return true;
     if (entry.isDirectory()) {
-      if (hasMarkdownFiles(join(dir, entry.name))) return true;
+      if (hasMarkdownFiles(join(dir, entry.name), convert)) return true;
     }
   }
   return false;
 }
 
+export const DEFAULT_MAX_FILE_MB = 10;
+
+interface ExtractTarget {
+  path: string;
+  format?: ConvertFormat;
+}
+
+export interface ExtractOptions {
+  // Receives paths relative to the subpath; return false to skip a file
+  filter?: (path: string) => boolean;
+  onFile?: (filesWritten: number) => void;
+  // Larger entries are skipped
+  maxFileBytes?: number;
+  // Files in these formats are written as converted markdown, next to where
+  // they would have gone; the filter sees the .md path
+  convert?: ConvertFormat[];
+}
+
 export async function extractMarkdownFiles(
-  tarballBuffer: Buffer,
+  tarball: Buffer | Readable,
   subpath: string,
   outputDir: string,
+  options: ExtractOptions = {},
 ): Promise<number> {
+  const { filter, onFile, convert, maxFileBytes = DEFAULT_MAX_FILE_MB * 1024 * 1024 } = options;
   let filesWritten = 0;
   const extract = tar.extract();
+  const root = resolve(outputDir);
 
-  const processEntry = new Promise<void>((resolve, reject) => {
-    extract.on("entry", (header, stream, next) => {
-      const chunks: Buffer[] = [];
-      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
-      stream.on("end", () => {
-        if (header.type === "file" && (header.name.endsWith(".md") || header.name.endsWith(".mdx"))) {
-          const relativePath = stripTarPrefix(header.name);
-
-          if (subpath && !relativePath.startsWith(subpath + "/") && relativePath !== subpath) {
-            next();
-            return;
-          }
+  // Only entries that are kept are read; the rest are drained as they stream
+  // past, so memory use does not grow with the size of the archive. Symlinks,
+  // hardlinks and devices are never extracted, only regular files.
+  const targetFor = (header: tar.Headers): ExtractTarget | undefined => {
+    if (header.type !== "file") return undefined;
+    const format = converterFormat(header.name, convert);
+    if (!format && !(header.name.endsWith(".md") || header.name.endsWith(".mdx"))) return undefined;
+    if ((header.size ?? 0) > maxFileBytes) return undefined;
+    const relativePath = stripTarPrefix(header.name);
+    if (subpath && !relativePath.startsWith(subpath + "/") && relativePath !== subpath) return undefined;
+    const sourceRelative = subpath ? relativePath.slice(subpath.length + 1) : relativePath;
+    const targetRelative = format && sourceRelative ? markdownPath(sourceRelative) : sourceRelative;
+    if (!targetRelative || (filter && !filter(targetRelative))) return undefined;
+
+    const targetPath = resolve(root, targetRelative);
+    if (isAbsolute(targetRelative) || !targetPath.startsWith(root + sep)) {
+      throw new Error(`Refusing to extract "${header.name}": it resolves outside the output directory`);
+    }
+    return { path: targetPath, format };
+  };
 
-          const targetRelative = subpath
-            ? relativePath.slice(subpath.length + 1)
-            : relativePath;
+  const written = () => {
+    filesWritten++;
+    onFile?.(filesWritten);
+  };
 
-          if (!targetRelative) {
-            next();
-            return;
-          }
+  extract.on("entry", (header, stream, next) => {
+    let target: ExtractTarget | undefined;
+    try {
+      target = targetFor(header);
+    } catch (err) {
+      stream.on("end", () => next(err as Error));
+      stream.resume();
+      return;
+    }
+    if (!target) {
+      stream.on("end", () => next());
+      stream.resume();
+      return;
+    }
+
+    mkdirSync(dirname(target.path), { recursive: true });
+    const { path, format } = target;
+    if (!format) {
+      pipeline(stream, createWriteStream(path)).then(() => {
+        written();
+        next();
+      }, next);
+      return;
+    }
 
-          const targetPath = join(outputDir, targetRelative);
-          mkdirSync(dirname(targetPath), { recursive: true });
-          writeFileSync(targetPath, Buffer.concat(chunks));
-          filesWritten++;
+    // Converted files are small enough (see maxFileBytes) to read whole. A
+    // markdown file of the same name in the archive wins over the conversion.
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("error", next);
+    stream.on("end", () => {
+      try {
+        if (!existsSync(path) || isGeneratedCopy(path)) {
+          const content = Buffer.concat(chunks).toString("utf-8");
+          writeFileSync(path, convertToMarkdown(content, header.name, format), "utf-8");
+          written();
         }
         next();
-      });
-      stream.on("error", reject);
+      } catch (err) {
+        next(err as Error);
+      }
     });
-    extract.on("finish", resolve);
-    extract.on("error", reject);
   });
 
-  const gunzip = createGunzip();
-  const source = Readable.from(tarballBuffer);
-  await Promise.all([
-    pipeline(source, gunzip, extract),
-    processEntry,
-  ]);
+  const source = Buffer.isBuffer(tarball) ? Readable.from([tarball]) : tarball;
+  await pipeline(source, createGunzip(), extract);
 
   return filesWritten;
 }
@@ -269,11 +1227,54 @@ function upsertSource(sources: Source[], newSource: Source): Source[] {
   return [...filtered, newSource];
 }
 
-function sourceKey(source: Source): string {
+export function sourceKey(source: Source): string {
   switch (source.type) {
     case "github":
       return `github:${source.owner}/${source.repo}/${source.subpath}`;
+    case "gitlab":
+      return `gitlab:${source.host}/${source.project}/${source.subpath}`;
+    case "bitbucket":
+      return `bitbucket:${source.workspace}/${source.repo}/${source.subpath}`;
+    case "git":
+      return `git:${source.url}/${source.subpath}`;
     case "file":
       return `file:${source.url}`;
+    case "web":
+      return `web:${source.url}`;
+    case "npm":
+      return source.url;
   }
 }
+
+export function sourceName(source: Source): string {
+  switch (source.type) {
+    case "github":
+      return `${source.owner}/${source.repo}`;
+    case "gitlab":
+      return source.project;
+    case "bitbucket":
+      return `${source.workspace}/${source.repo}`;
+    case "git":
+      return parseGitUrl(source.url).name;
+    case "file":
+    case "web":
+      return source.url;
+    case "npm":
+      return source.package;
+  }
+}
+
+export function matchesSourceKey(source: Source, key: string): boolean {
+  if (!source.type) return false;
+  const normalized = key.trim().replace(/\/+$/, "");
+  if (normalized === sourceKey(source) || normalized === source.url.replace(/\/+$/, "")) {
+    return true;
+  }
+  if (source.type === "file" || source.type === "web") return false;
+  if (source.type === "npm") return normalized === source.package;
+
+  const name = sourceName(source);
+  return source.subpath
+    ? normalized === `${name}/${source.subpath}`
+    : normalized === name;
+}
@@ -0,0 +1,142 @@
+const HEADING = /^(={1,6})\s+(.+?)\s*=*\s*$/;
+const ATTRIBUTE = /^:!?[\w-]+!?:(\s.*)?$/;
+const BLOCK_ATTRIBUTES = /^\[([^\]]*)\]\s*$/;
+const ADMONITION = /^(NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s+(.*)$/;
+const BLOCK_TITLE = /^\.([^\s.].*)$/;
+const DELIMITERS: Record<string, string> = { "----": "code", "....": "literal", "====": "example", "****": "sidebar", "____": "quote" };
+
+function label(name: string): string {
+  return name.charAt(0) + name.slice(1).toLowerCase();
+}
+
+function inline(text: string): string {
+  return text
+    .replace(/`\+?([^`+]+)\+?`/g, "`$1`")
+    .replace(/(^|[^\w*])\*([^*\s](?:[^*]*[^*\s])?)\*(?![\w*])/g, "$1**$2**")
+    .replace(/(^|[^\w_])_([^_\s](?:[^_]*[^_\s])?)_(?![\w_])/g, "$1*$2*")
+    .replace(/image:([^\s[:][^\s[]*)\[([^\]]*)\]/g, (_, target: string, attrs: string) => `![${attrs.split(",")[0]}](${target})`)
+    .replace(/<<([^,>]+),\s*([^>]+)>>/g, "$2")
+    .replace(/<<([^>]+)>>/g, "$1")
+    .replace(/xref:[^[\s]+\[([^\]]*)\]/g, "$1")
+    .replace(/link:([^[\s]+)\[([^\]]*)\]/g, (_, url: string, text: string) => `[${text || url}](${url})`)
+    .replace(/(^|[^(<])\b(https?:\/\/[^\s[]+)\[([^\]]*)\]/g, (_, lead: string, url: string, text: string) => `${lead}[${text || url}](${url})`);
+}
+
+/**
+ * Converts AsciiDoc to markdown: `=` headings, `[source]` listings and
+ * literal blocks become fenced code, admonitions become quotes, and lists,
+ * links and emphasis are rewritten. Attribute entries, comments and
+ * `include::` directives are dropped, since their targets aren't resolved.
+ */
+export function asciidocToMarkdown(content: string): string {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  const out: string[] = [];
+  // Attributes from the `[...]` line just above a block
+  let attributes: string[] = [];
+  let blockTitle = "";
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed === "////") {
+      const end = lines.findIndex((l, n) => n > i && l.trim() === "////");
+      i = end === -1 ? lines.length : end + 1;
+      continue;
+    }
+    if (/^\/\/(?!\/)/.test(line) || ATTRIBUTE.test(line) || line.startsWith("include::")) {
+      i++;
+      continue;
+    }
+
+    const delimiter = DELIMITERS[trimmed];
+    if (delimiter) {
+      const end = lines.findIndex((l, n) => n > i && l.trim() === trimmed);
+      const body = lines.slice(i + 1, end === -1 ? lines.length : end);
+      const style = attributes[0] ?? "";
+      if (blockTitle) out.push(`**${inline(blockTitle)}**`, "");
+
+      if (delimiter === "code" || delimiter === "literal") {
+        const language = style === "source" ? (attributes[1] ?? "") : "";
+        out.push(`\`\`\`${language}`, ...body.filter((l) => !/^\s*<\d+>$/.test(l)), "```");
+      } else if (delimiter === "example" && /^(NOTE|TIP|IMPORTANT|WARNING|CAUTION)$/.test(style)) {
+        const text = asciidocToMarkdown(body.join("\n")).trim();
+        out.push(`> **${label(style)}:** ${text.split("\n").join("\n> ")}`);
+      } else if (delimiter === "quote") {
+        out.push(...asciidocToMarkdown(body.join("\n")).trim().split("\n").map((l) => `> ${l}`.trimEnd()));
+      } else {
+        out.push(asciidocToMarkdown(body.join("\n")).trim());
+      }
+      attributes = [];
+      blockTitle = "";
+      i = end === -1 ? lines.length : end + 1;
+      continue;
+    }
+
+    const blockAttributes = line.match(BLOCK_ATTRIBUTES);
+    if (blockAttributes) {
+      attributes = blockAttributes[1].split(",").map((a) => a.trim());
+      i++;
+      continue;
+    }
+    // Anchors: `[[id]]` or `[#id]`
+    if (/^\[\[[^\]]*\]\]\s*$/.test(line)) {
+      i++;
+      continue;
+    }
+    const title = line.match(BLOCK_TITLE);
+    if (title) {
+      blockTitle = title[1];
+      i++;
+      continue;
+    }
+    if (blockTitle) {
+      out.push(`**${inline(blockTitle)}**`, "");
+      blockTitle = "";
+    }
+    if (trimmed === "") attributes = [];
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      out.push(`${"#".repeat(heading[1].length)} ${inline(heading[2])}`);
+      i++;
+      continue;
+    }
+    const admonition = line.match(ADMONITION);
+    if (admonition) {
+      out.push(`> **${label(admonition[1])}:** ${inline(admonition[2])}`);
+      i++;
+      continue;
+    }
+    if (line.startsWith("image::")) {
+      const image = line.match(/^image::([^[]+)\[([^\]]*)\]/);
+      if (image) out.push(`![${image[2].split(",")[0]}](${image[1]})`);
+      i++;
+      continue;
+    }
+    // Lists: `*`, `**`, `-` bullets and `.`, `..` numbered items
+    const item = line.match(/^(\*{1,5}|-|\.{1,5})\s+(.*)$/);
+    if (item) {
+      const depth = item[1] === "-" ? 0 : item[1].length - 1;
+      const marker = item[1].startsWith(".") ? "1." : "-";
+      out.push(`${"  ".repeat(depth)}${marker} ${inline(item[2])}`);
+      i++;
+      continue;
+    }
+    // A list continuation joins the next block to the item
+    if (trimmed === "+") {
+      i++;
+      continue;
+    }
+    if (/^'{3,}$/.test(trimmed)) {
+      out.push("---");
+      i++;
+      continue;
+    }
+
+    out.push(inline(line.replace(/ \+$/, "")));
+    i++;
+  }
+  return out.join("\n").replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
@@ -0,0 +1,123 @@
+import type { Readable } from "node:stream";
+import { bodyStream, request, rateLimitMessage } from "./http.js";
+import type { DownloadOptions } from "./http.js";
+
+export interface ParsedBitbucketUrl {
+  workspace: string;
+  repo: string;
+  branch: string | null;
+  subpath: string;
+}
+
+export function parseBitbucketUrl(url: string): ParsedBitbucketUrl {
+  let cleaned = url.trim().replace(/\/+$/, "");
+  if (cleaned.endsWith(".git")) {
+    cleaned = cleaned.slice(0, -4);
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(cleaned);
+  } catch {
+    throw new Error(`Invalid URL: "${url}". Expected a Bitbucket URL like https://bitbucket.org/workspace/repo`);
+  }
+
+  if (parsed.hostname !== "bitbucket.org") {
+    throw new Error(`Only bitbucket.org URLs are supported. Got: "${parsed.hostname}"`);
+  }
+
+  const parts = parsed.pathname.split("/").filter(Boolean);
+
+  if (parts.length < 2) {
+    throw new Error(`Could not parse workspace/repo from URL: "${url}"`);
+  }
+
+  const workspace = parts[0];
+  const repo = parts[1];
+  let branch: string | null = null;
+  let subpath = "";
+
+  if (parts.length >= 4 && parts[2] === "src") {
+    branch = parts[3];
+    if (parts.length > 4) {
+      subpath = parts.slice(4).join("/");
+    }
+  }
+
+  return { workspace, repo, branch, subpath };
+}
+
+function buildHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = { "User-Agent": "refdocs-cli" };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+function notFoundError(workspace: string, repo: string, ref?: string): Error {
+  return new Error(
+    `Repository not found: ${workspace}/${repo}${ref ? ` (ref: ${ref})` : ""}. Check the URL and ensure the repo is public or BITBUCKET_TOKEN is set.`
+  );
+}
+
+function apiError(response: Response, token?: string): Error {
+  const limited = rateLimitMessage(response);
+  if (limited) {
+    return new Error(`Bitbucket API ${limited}.${token ? "" : " Set BITBUCKET_TOKEN to raise the limit."}`);
+  }
+  return new Error(`Bitbucket API error: ${response.status} ${response.statusText}`);
+}
+
+async function fetchJson(url: string, workspace: string, repo: string, ref?: string, token?: string): Promise<Record<string, unknown>> {
+  const response = await request(url, { headers: buildHeaders(token), redirect: "follow" });
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw notFoundError(workspace, repo, ref);
+    }
+    throw apiError(response, token);
+  }
+  return (await response.json()) as Record<string, unknown>;
+}
+
+export async function resolveBitbucketCommit(
+  workspace: string,
+  repo: string,
+  ref?: string,
+  token?: string,
+): Promise<string> {
+  const base = `https://api.bitbucket.org/2.0/repositories/${workspace}/${repo}`;
+  let branch = ref;
+  if (!branch) {
+    const info = await fetchJson(base, workspace, repo, undefined, token);
+    branch = String((info.mainbranch as Record<string, unknown> | undefined)?.name ?? "HEAD");
+  }
+  const commit = await fetchJson(
+    `${base}/commit/${encodeURIComponent(branch)}`,
+    workspace,
+    repo,
+    branch,
+    token,
+  );
+  return String(commit.hash);
+}
+
+export async function downloadBitbucketArchive(
+  workspace: string,
+  repo: string,
+  ref: string,
+  token?: string,
+  options: DownloadOptions = {},
+): Promise<Readable> {
+  const url = `https://bitbucket.org/${workspace}/${repo}/get/${encodeURIComponent(ref)}.tar.gz`;
+
+  const response = await request(url, { headers: buildHeaders(token), redirect: "follow" });
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw notFoundError(workspace, repo, ref);
+    }
+    throw apiError(response, token);
+  }
+
+  return bodyStream(response, options);
+}
@@ -0,0 +1,166 @@
+import { dirname, basename } from "node:path";
+import { estimateTokens } from "./sections.js";
+import type { BudgetedEntry, BudgetedManifest, Manifest, ManifestEntry, ManifestGroup, ManifestSection } from "./types.js";
+
+export const DEFAULT_BUDGET_MANIFEST = "manifest.budget.json";
+
+const SHORT_SUMMARY_LENGTH = 80;
+
+interface CompactionStep {
+  name: string;
+  apply: (state: CompactionState) => void;
+}
+
+interface WorkingEntry extends BudgetedEntry {
+  collapsedHeadings: string[];
+}
+
+interface CompactionState {
+  entries: WorkingEntry[];
+  grouped: boolean;
+  withFiles: boolean;
+}
+
+function collapseHeadings(entry: ManifestEntry): string[] {
+  if (!entry.sections || entry.sections.length === 0) return entry.headings;
+  const shallow: string[] = [];
+  const visit = (sections: ManifestSection[]) => {
+    for (const section of sections) {
+      if (section.level > 2) continue;
+      shallow.push(section.heading);
+      visit(section.children ?? []);
+    }
+  };
+  visit(entry.sections);
+  return shallow;
+}
+
+function trimSummary(summary: string | undefined): string | undefined {
+  if (!summary || summary.length <= SHORT_SUMMARY_LENGTH) return summary;
+  return summary.slice(0, SHORT_SUMMARY_LENGTH).trimEnd() + "...";
+}
+
+// Ordered from least to most information lost
+const STEPS: CompactionStep[] = [
+  {
+    name: "dropped sections",
+    apply: (state) => {
+      for (const entry of state.entries) delete entry.sections;
+    },
+  },
+  {
+    name: "collapsed headings below h2",
+    apply: (state) => {
+      for (const entry of state.entries) {
+        if (entry.headings) entry.headings = entry.collapsedHeadings;
+      }
+    },
+  },
+  {
+    name: "trimmed summaries",
+    apply: (state) => {
+      for (const entry of state.entries) entry.summary = trimSummary(entry.summary);
+    },
+  },
+  {
+    name: "dropped headings",
+    apply: (state) => {
+      for (const entry of state.entries) delete entry.headings;
+    },
+  },
+  {
+    name: "grouped by directory",
+    apply: (state) => {
+      state.grouped = true;
+    },
+  },
+  {
+    name: "dropped summaries",
+    apply: (state) => {
+      for (const entry of state.entries) delete entry.summary;
+    },
+  },
+  {
+    name: "listed directories only",
+    apply: (state) => {
+      state.withFiles = false;
+    },
+  },
+];
+
+function groupEntries(entries: WorkingEntry[], withFiles: boolean): ManifestGroup[] {
+  const groups = new Map<string, ManifestGroup>();
+  for (const entry of entries) {
+    const dir = dirname(entry.file);
+    let group = groups.get(dir);
+    if (!group) {
+      group = { dir, files: 0 };
+      if (withFiles) group.entries = [];
+      groups.set(dir, group);
+    }
+    group.files++;
+    if (group.entries) {
+      group.entries.push(serializeEntry({ ...entry, file: basename(entry.file) }));
+    }
+  }
+  return [...groups.values()];
+}
+
+function serializeEntry(entry: WorkingEntry): BudgetedEntry {
+  const { collapsedHeadings: _collapsed, ...rest } = entry;
+  return rest;
+}
+
+function render(manifest: Manifest, budget: number, steps: string[], state: CompactionState): BudgetedManifest {
+  const result: BudgetedManifest = {
+    generated: manifest.generated,
+    sources: manifest.sources,
+    files: manifest.files,
+    budget,
+    tokens: 0,
+    compaction: [...steps],
+  };
+  if (state.grouped) {
+    result.groups = groupEntries(state.entries, state.withFiles);
+  } else {
+    result.entries = state.entries.map(serializeEntry);
+  }
+  result.tokens = estimateManifestTokens(result);
+  // The token count is part of the output, so re-measure once it is filled in
+  result.tokens = estimateManifestTokens(result);
+  return result;
+}
+
+export function estimateManifestTokens(manifest: object): number {
+  return estimateTokens(JSON.stringify(manifest));
+}
+
+/**
+ * Applies compaction steps in order until the serialized manifest fits within
+ * `budget` tokens. If even the most compact form is too large it is returned
+ * anyway; callers can compare `tokens` against `budget`.
+ */
+export function compactManifest(manifest: Manifest, budget: number): BudgetedManifest {
+  const state: CompactionState = {
+    entries: manifest.entries.map((entry) => ({
+      file: entry.file,
+      headings: [...entry.headings],
+      collapsedHeadings: collapseHeadings(entry),
+      lines: entry.lines,
+      summary: entry.summary,
+      ...(entry.sections ? { sections: entry.sections } : {}),
+    })),
+    grouped: false,
+    withFiles: true,
+  };
+
+  const applied: string[] = [];
+  let result = render(manifest, budget, applied, state);
+  for (const step of STEPS) {
+    if (result.tokens <= budget) break;
+    step.apply(state);
+    applied.push(step.name);
+    result = render(manifest, budget, applied, state);
+  }
+  return result;
+}
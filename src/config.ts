@@ -1,11 +1,17 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
-import { join, dirname, resolve } from "node:path";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, rmSync } from "node:fs";
+import { join, dirname, resolve, relative, isAbsolute } from "node:path";
+import { checkConfig, formatIssue, CONFIG_SCHEMA_URL } from "./schema.js";
+import type { SchemaResult } from "./schema.js";
 import type { RefdocsConfig } from "./types.js";
 
 export const CONFIG_DIR_NAME = ".refdocs";
 export const CONFIG_FILENAME = "config.json";
+export const CONFIG_VERSION = 1;
+// Single-file config from before .refdocs/ existed, kept in the project root
+export const LEGACY_CONFIG_FILENAME = ".refdocs.json";
 
 const DEFAULT_CONFIG: RefdocsConfig = {
+  version: CONFIG_VERSION,
   paths: ["docs"],
   manifest: "manifest.json",
 };
@@ -13,6 +19,8 @@ const DEFAULT_CONFIG: RefdocsConfig = {
 export interface ConfigResult {
   config: RefdocsConfig;
   configDir: string;
+  // Unknown keys and other problems that don't stop the config from loading
+  warnings: string[];
 }
 
 function mergeWithDefaults(raw: Record<string, unknown>): RefdocsConfig {
@@ -24,64 +32,208 @@ function mergeWithDefaults(raw: Record<string, unknown>): RefdocsConfig {
 
 export function loadConfig(cwd?: string): ConfigResult {
   const startDir = resolve(cwd ?? process.cwd());
-  let dir = startDir;
+  const configDir = findConfigDir(startDir);
+  if (!configDir) {
+    return { config: DEFAULT_CONFIG, configDir: join(startDir, CONFIG_DIR_NAME), warnings: [] };
+  }
+
+  const raw = migrateConfig(JSON.parse(readFileSync(join(configDir, CONFIG_FILENAME), "utf-8"))).config;
+  const { errors, warnings } = checkConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${CONFIG_DIR_NAME}/${CONFIG_FILENAME}: ${errors.map(formatIssue).join("; ")}`
+    );
+  }
+  return {
+    config: mergeWithDefaults(raw),
+    configDir,
+    warnings: warnings.map(formatIssue),
+  };
+}
 
+/**
+ * Walks up from `startDir` to the nearest directory with a
+ * .refdocs/config.json and returns its .refdocs/ path.
+ */
+export function findConfigDir(startDir: string): string | undefined {
+  let dir = startDir;
   while (true) {
     const configDir = join(dir, CONFIG_DIR_NAME);
-    const configPath = join(configDir, CONFIG_FILENAME);
-    if (existsSync(configPath)) {
-      const raw = JSON.parse(readFileSync(configPath, "utf-8"));
-      const errors = validateConfig(raw);
-      if (errors.length > 0) {
-        throw new Error(
-          `Invalid ${CONFIG_DIR_NAME}/${CONFIG_FILENAME}: ${errors.join("; ")}`
-        );
-      }
-      return {
-        config: mergeWithDefaults(raw),
-        configDir,
-      };
+    if (existsSync(join(configDir, CONFIG_FILENAME))) {
+      return configDir;
+    }
+    if (existsSync(join(dir, LEGACY_CONFIG_FILENAME))) {
+      throw new Error(
+        `Found ${LEGACY_CONFIG_FILENAME} in ${dir}, which this version no longer reads. Run \`refdocs migrate\` to move it to ${CONFIG_DIR_NAME}/${CONFIG_FILENAME}.`
+      );
     }
     const parent = dirname(dir);
-    if (parent === dir) break;
+    if (parent === dir) return undefined;
     dir = parent;
   }
+}
+
+/**
+ * Checks a config file without loading it, for `refdocs config validate`.
+ * Unparseable JSON is reported as an error rather than thrown, and an
+ * outdated version is a warning.
+ */
+export function validateConfigFile(configPath: string): SchemaResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (err) {
+    return { errors: [{ pointer: "", message: `Invalid JSON: ${(err as Error).message}` }], warnings: [] };
+  }
 
-  return { config: DEFAULT_CONFIG, configDir: join(startDir, CONFIG_DIR_NAME) };
+  let migrated: ConfigMigrationResult;
+  try {
+    migrated = migrateConfig(raw);
+  } catch (err) {
+    return { errors: [{ pointer: "/version", message: (err as Error).message }], warnings: [] };
+  }
+  const result = checkConfig(migrated.config);
+  if (migrated.from < migrated.to) {
+    result.warnings.unshift({
+      pointer: "/version",
+      message: `is ${migrated.from}; run \`refdocs migrate\` to upgrade the file to version ${migrated.to}`,
+    });
+  }
+  return result;
 }
 
-export function validateConfig(raw: unknown): string[] {
-  const errors: string[] = [];
+interface ConfigMigration {
+  // Version the migration upgrades from; it produces `from + 1`
+  from: number;
+  description: string;
+  migrate(raw: Record<string, unknown>): Record<string, unknown>;
+}
+
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    from: 0,
+    description: "add a type to GitHub sources saved without one",
+    migrate(raw) {
+      if (!Array.isArray(raw.sources)) return raw;
+      const sources = raw.sources.map((source: unknown) => {
+        const s = source as Record<string, unknown>;
+        if (typeof s !== "object" || s === null || s.type !== undefined) return source;
+        return typeof s.owner === "string" && typeof s.repo === "string" ? { type: "github", ...s } : source;
+      });
+      return { ...raw, sources };
+    },
+  },
+];
+
+export interface ConfigMigrationResult {
+  config: Record<string, unknown>;
+  from: number;
+  to: number;
+  // Descriptions of the migrations that ran, oldest first
+  applied: string[];
+}
+
+/**
+ * Upgrades a parsed config to CONFIG_VERSION one version at a time. A config
+ * without a `version` field is version 0. Configs written by a newer release
+ * are rejected rather than guessed at.
+ */
+export function migrateConfig(raw: unknown): ConfigMigrationResult {
   if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
-    return ["Config must be a JSON object"];
+    return { config: raw as Record<string, unknown>, from: CONFIG_VERSION, to: CONFIG_VERSION, applied: [] };
+  }
+  let config = raw as Record<string, unknown>;
+  const from = config.version ?? 0;
+  if (typeof from !== "number" || !Number.isInteger(from) || from < 0) {
+    // Left for validateConfig to report
+    return { config, from: CONFIG_VERSION, to: CONFIG_VERSION, applied: [] };
+  }
+  if (from > CONFIG_VERSION) {
+    throw new Error(
+      `${CONFIG_DIR_NAME}/${CONFIG_FILENAME} is version ${from}, but this refdocs only understands up to version ${CONFIG_VERSION}. Upgrade refdocs to use it.`
+    );
   }
 
-  const obj = raw as Record<string, unknown>;
-
-  if (obj.paths !== undefined) {
-    if (!Array.isArray(obj.paths) || !obj.paths.every((p) => typeof p === "string")) {
-      errors.push('"paths" must be an array of strings');
+  const applied: string[] = [];
+  for (let version = from; version < CONFIG_VERSION; version++) {
+    const migration = CONFIG_MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration from config version ${version}`);
     }
+    config = { ...migration.migrate(config), version: version + 1 };
+    applied.push(migration.description);
   }
+  return { config, from, to: CONFIG_VERSION, applied };
+}
 
-  if (obj.manifest !== undefined && typeof obj.manifest !== "string") {
-    errors.push('"manifest" must be a string');
+// Legacy paths were relative to the project root; config.json paths are
+// relative to .refdocs/
+function rebaseLegacyPaths(raw: Record<string, unknown>, projectDir: string, configDir: string): Record<string, unknown> {
+  const rebase = (path: string) =>
+    isAbsolute(path) ? path : relative(configDir, resolve(projectDir, path)).split("\\").join("/");
+  const config = { ...raw };
+  if (Array.isArray(config.paths)) {
+    config.paths = config.paths.map((p) => (typeof p === "string" ? rebase(p) : p));
   }
+  for (const key of ["manifest", "index", "budgetManifest"]) {
+    if (typeof config[key] === "string") config[key] = rebase(config[key] as string);
+  }
+  return config;
+}
+
+export interface MigrateResult {
+  configPath: string;
+  from: number;
+  to: number;
+  applied: string[];
+  // Set when the config was moved over from .refdocs.json
+  legacyPath?: string;
+}
+
+/**
+ * Rewrites the project's config at the current version: upgrades
+ * .refdocs/config.json in place, or, when only a legacy .refdocs.json
+ * exists, converts it into .refdocs/config.json and deletes it.
+ */
+export function migrateProject(projectDir: string): MigrateResult {
+  const configDir = join(projectDir, CONFIG_DIR_NAME);
+  const configPath = join(configDir, CONFIG_FILENAME);
+  const legacyPath = join(projectDir, LEGACY_CONFIG_FILENAME);
 
-  if (obj.sources !== undefined) {
-    if (!Array.isArray(obj.sources)) {
-      errors.push('"sources" must be an array');
-    } else {
-      for (let i = 0; i < obj.sources.length; i++) {
-        const s = obj.sources[i] as Record<string, unknown>;
-        if (typeof s !== "object" || s === null || Array.isArray(s)) {
-          errors.push(`"sources[${i}]" must be an object`);
-        }
-      }
+  let raw: unknown;
+  let legacy = false;
+  if (existsSync(configPath)) {
+    raw = JSON.parse(readFileSync(configPath, "utf-8"));
+  } else if (existsSync(legacyPath)) {
+    raw = JSON.parse(readFileSync(legacyPath, "utf-8"));
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+      throw new Error(`Invalid ${LEGACY_CONFIG_FILENAME}: Config must be a JSON object`);
     }
+    raw = { ...DEFAULT_CONFIG, ...rebaseLegacyPaths(raw as Record<string, unknown>, projectDir, configDir), version: 0 };
+    legacy = true;
+  } else {
+    throw new Error(`No ${CONFIG_DIR_NAME}/${CONFIG_FILENAME} or ${LEGACY_CONFIG_FILENAME} found in ${projectDir}`);
   }
 
-  return errors;
+  const { config, from, to, applied } = migrateConfig(raw);
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Cannot migrate config: ${errors.join("; ")}`);
+  }
+  if (!legacy && from === to) {
+    return { configPath, from, to, applied };
+  }
+
+  mkdirSync(configDir, { recursive: true });
+  writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n", "utf-8");
+  if (legacy) {
+    rmSync(legacyPath);
+  }
+  return { configPath, from, to, applied, ...(legacy ? { legacyPath } : {}) };
+}
+
+export function validateConfig(raw: unknown): string[] {
+  return checkConfig(raw).errors.map(formatIssue);
 }
 
 export function configExists(projectDir: string): boolean {
@@ -95,7 +247,8 @@ export function initConfig(projectDir: string): void {
     throw new Error(`${CONFIG_DIR_NAME}/${CONFIG_FILENAME} already exists in ${projectDir}`);
   }
   mkdirSync(configDir, { recursive: true });
-  writeFileSync(configPath, JSON.stringify(DEFAULT_CONFIG, null, 2) + "\n", "utf-8");
+  const config = { $schema: CONFIG_SCHEMA_URL, ...DEFAULT_CONFIG };
+  writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n", "utf-8");
 }
 
 export function saveConfig(config: Partial<RefdocsConfig>, configDir: string): void {
@@ -0,0 +1,8 @@
+import type { ConvertFormat, ManifestFormat } from "./types.js";
+
+// Value lists of config enums. This module imports nothing else, so the
+// schema can use them without pulling in the modules that load the config.
+
+export const MANIFEST_FORMATS: ManifestFormat[] = ["json", "markdown", "llms-txt", "text"];
+
+export const CONVERT_FORMATS: ConvertFormat[] = ["rst", "adoc", "html"];
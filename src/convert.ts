@@ -0,0 +1,147 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { asciidocToMarkdown } from "./asciidoc.js";
+import { CONVERT_FORMATS } from "./constants.js";
+import { parseFrontmatter } from "./frontmatter.js";
+import type { Frontmatter } from "./frontmatter.js";
+import { htmlToMarkdown } from "./html.js";
+import { cleanMdx, isMdx } from "./mdx.js";
+import { rstToMarkdown } from "./rst.js";
+import type { ConvertFormat, DocFormat } from "./types.js";
+
+export interface Converter {
+  extensions: string[];
+  toMarkdown(content: string): string;
+}
+
+export const CONVERTERS: Record<ConvertFormat, Converter> = {
+  rst: { extensions: [".rst"], toMarkdown: rstToMarkdown },
+  adoc: { extensions: [".adoc", ".asciidoc"], toMarkdown: asciidocToMarkdown },
+  html: { extensions: [".html", ".htm"], toMarkdown: htmlToMarkdown },
+};
+
+const MARKER_PREFIX = "<!-- Generated by refdocs from ";
+
+export function convertExtensions(formats: ConvertFormat[] = []): string[] {
+  return formats.flatMap((format) => CONVERTERS[format].extensions);
+}
+
+// The enabled format that converts `file`, if any
+export function converterFormat(file: string, formats: ConvertFormat[] = []): ConvertFormat | undefined {
+  const extension = extname(file).toLowerCase();
+  return formats.find((format) => CONVERTERS[format].extensions.includes(extension));
+}
+
+// Where the markdown written for a converted or cleaned file goes
+export function markdownPath(file: string): string {
+  return file.slice(0, file.length - extname(file).length) + ".md";
+}
+
+/**
+ * Marks markdown as written by refdocs from `source`, just below any
+ * frontmatter, so later builds know they may overwrite or delete it.
+ */
+export function withMarker(markdown: string, source: string): string {
+  const lines = markdown.split("\n");
+  const frontmatterLines = parseFrontmatter(markdown).lines;
+  const marker = `${MARKER_PREFIX}${basename(source)}; edit that file instead. -->`;
+  return [...lines.slice(0, frontmatterLines), marker, "", ...lines.slice(frontmatterLines)].join("\n");
+}
+
+// The name of the file that generated markdown was written from
+export function generatedFrom(content: string, frontmatter: Frontmatter = parseFrontmatter(content)): string | undefined {
+  const line = content.split("\n")[frontmatter.lines] ?? "";
+  if (!line.startsWith(MARKER_PREFIX)) return undefined;
+  return line.slice(MARKER_PREFIX.length).split(";")[0];
+}
+
+/**
+ * Whether a `.md` file was written by refdocs, as opposed to a document that
+ * happens to sit next to the file it would have been generated from.
+ */
+export function isGeneratedCopy(path: string): boolean {
+  return existsSync(path) && generatedFrom(readFileSync(path, "utf-8")) !== undefined;
+}
+
+// The format recorded in the manifest for a file refdocs generated
+export function sourceFormat(content: string, frontmatter?: Frontmatter): DocFormat | undefined {
+  const source = generatedFrom(content, frontmatter);
+  if (!source) return undefined;
+  return isMdx(source) ? "mdx" : converterFormat(source, CONVERT_FORMATS);
+}
+
+export function convertToMarkdown(content: string, source: string, format: ConvertFormat): string {
+  return withMarker(CONVERTERS[format].toMarkdown(content), source);
+}
+
+export interface GeneratedCopyOptions {
+  mdxCopies?: boolean;
+  convert?: ConvertFormat[];
+  // Copies written by an earlier build; those whose original is gone, or no
+  // longer enabled, are deleted
+  copies?: string[];
+}
+
+export interface GeneratedCopies {
+  // The files to catalog
+  files: string[];
+  // The copies written or kept next to their originals, to pass back as
+  // `copies` next time
+  copies: string[];
+}
+
+function copyEnabled(file: string, options: GeneratedCopyOptions): boolean {
+  const format = converterFormat(file, CONVERT_FORMATS);
+  return format ? (options.convert ?? []).includes(format) : (options.mdxCopies ?? false);
+}
+
+/**
+ * Writes the `.md` file for every cataloged file that has one: a cleaned copy
+ * of each `.mdx` file when `mdxCopies` is on, and the converted markdown of
+ * each file in a `convert` format. Returns the files to catalog, with every
+ * original replaced by its markdown. Earlier `copies` that are no longer
+ * wanted are deleted; other `.md` files are never deleted or overwritten, and
+ * the original is then cataloged as is (or, when it can't be, left out).
+ */
+export function syncGeneratedCopies(files: string[], configDir: string, options: GeneratedCopyOptions): GeneratedCopies {
+  const catalog = new Set(files);
+  const copies = new Set<string>();
+  for (const copy of options.copies ?? []) {
+    const copyPath = join(configDir, copy);
+    if (!existsSync(copyPath)) continue;
+    const original = generatedFrom(readFileSync(copyPath, "utf-8"));
+    if (!original) continue;
+    if (!copyEnabled(original, options) || !existsSync(join(configDir, dirname(copy), original))) {
+      rmSync(copyPath);
+      catalog.delete(copy);
+    } else {
+      // Still ours even when filters leave it out of this build
+      copies.add(copy);
+    }
+  }
+
+  for (const file of files) {
+    const format = converterFormat(file, CONVERT_FORMATS);
+    if (!isMdx(file) && !format) continue;
+    const copy = markdownPath(file);
+    const copyPath = join(configDir, copy);
+    const ours = isGeneratedCopy(copyPath);
+    const enabled = copyEnabled(file, options);
+
+    if (!enabled || (existsSync(copyPath) && !ours)) {
+      // Only .mdx can be cataloged without converting it first
+      if (format) catalog.delete(file);
+      continue;
+    }
+
+    const content = readFileSync(join(configDir, file), "utf-8");
+    const markdown = format ? convertToMarkdown(content, file, format) : withMarker(cleanMdx(content), file);
+    if (!ours || readFileSync(copyPath, "utf-8") !== markdown) {
+      writeFileSync(copyPath, markdown, "utf-8");
+    }
+    catalog.delete(file);
+    catalog.add(copy);
+    copies.add(copy);
+  }
+  return { files: [...catalog].sort(), copies: [...copies].sort() };
+}
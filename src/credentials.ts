@@ -0,0 +1,176 @@
+import { execFile } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import type { CredentialRule, RefdocsConfig, Source } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+// `env:NAME` or one of the named helpers; a literal token is never accepted
+export const CREDENTIAL_HELPERS = ["gh", "git-credential", "netrc"] as const;
+
+const ENV_REFERENCE = /^env:[A-Za-z_][A-Za-z0-9_]*$/;
+
+const DEFAULT_TOKEN_ENV: Partial<Record<Source["type"], string>> = {
+  github: "GITHUB_TOKEN",
+  gitlab: "GITLAB_TOKEN",
+  bitbucket: "BITBUCKET_TOKEN",
+};
+
+export interface CredentialTarget {
+  host: string;
+  // Owner, group or workspace path the source belongs to, if any
+  owner: string;
+}
+
+export interface ResolvedCredential {
+  token?: string;
+  // Where the token came from (or would have), e.g. "env:ACME_TOKEN"
+  from?: string;
+  // The config rule that selected it; unset for the provider's default env var
+  rule?: CredentialRule;
+}
+
+export function isCredentialReference(value: string): boolean {
+  return ENV_REFERENCE.test(value) || (CREDENTIAL_HELPERS as readonly string[]).includes(value);
+}
+
+export function credentialTarget(source: Source): CredentialTarget | undefined {
+  switch (source.type) {
+    case "github":
+      return { host: "github.com", owner: source.owner };
+    case "gitlab":
+      return { host: source.host, owner: source.project };
+    case "bitbucket":
+      return { host: "bitbucket.org", owner: source.workspace };
+    case "file":
+    case "web": {
+      const url = new URL(source.url);
+      return { host: url.host, owner: url.pathname.split("/").filter(Boolean).join("/") };
+    }
+    default:
+      // git sources authenticate through the git binary's own helpers
+      return undefined;
+  }
+}
+
+function ruleMatches(rule: CredentialRule, target: CredentialTarget): boolean {
+  if (rule.host.toLowerCase() !== target.host.toLowerCase()) return false;
+  if (!rule.owner) return true;
+  const owner = rule.owner.replace(/\/+$/, "").toLowerCase();
+  const path = target.owner.toLowerCase();
+  return path === owner || path.startsWith(owner + "/");
+}
+
+// Rules with an owner are more specific than host-wide ones; otherwise
+// config order decides
+export function matchingRules(config: RefdocsConfig, target: CredentialTarget): CredentialRule[] {
+  const rules = (config.credentials ?? []).filter((rule) => ruleMatches(rule, target));
+  return [...rules.filter((r) => r.owner), ...rules.filter((r) => !r.owner)];
+}
+
+/**
+ * Finds the token a source should be fetched with: the first matching
+ * `credentials` rule that yields a token, else the provider's env var
+ * (`GITHUB_TOKEN`, `GITLAB_TOKEN`, `BITBUCKET_TOKEN`). File URLs only get a
+ * token from an explicit rule.
+ */
+export async function resolveCredential(
+  source: Source,
+  config: RefdocsConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<ResolvedCredential> {
+  const target = credentialTarget(source);
+  if (!target) return {};
+
+  let tried: ResolvedCredential = {};
+  for (const rule of matchingRules(config, target)) {
+    const token = await readCredential(rule.from, target, env);
+    if (token) return { token, from: rule.from, rule };
+    tried = tried.from ? tried : { from: rule.from, rule };
+  }
+
+  const defaultEnv = DEFAULT_TOKEN_ENV[source.type];
+  if (defaultEnv && env[defaultEnv]) {
+    return { token: env[defaultEnv], from: `env:${defaultEnv}` };
+  }
+  return tried;
+}
+
+export async function readCredential(
+  reference: string,
+  target: CredentialTarget,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<string | undefined> {
+  if (reference.startsWith("env:")) {
+    return env[reference.slice(4)] || undefined;
+  }
+  switch (reference) {
+    case "gh":
+      return ghToken(target.host);
+    case "git-credential":
+      return gitCredential(target);
+    case "netrc":
+      return netrcPassword(target.host, env);
+    default:
+      throw new Error(`Unknown credential reference "${reference}"`);
+  }
+}
+
+async function ghToken(host: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync("gh", ["auth", "token", "--hostname", host]);
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Asks the configured git credential helpers, never prompting
+async function gitCredential(target: CredentialTarget): Promise<string | undefined> {
+  const input = `protocol=https\nhost=${target.host}\npath=${target.owner}\n\n`;
+  try {
+    const stdout = await new Promise<string>((resolve, reject) => {
+      const child = execFile(
+        "git",
+        ["-c", "credential.interactive=false", "credential", "fill"],
+        { env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_ASKPASS: "" } },
+        (err, out) => (err ? reject(err) : resolve(out)),
+      );
+      child.stdin?.end(input);
+    });
+    const password = stdout.split("\n").find((line) => line.startsWith("password="));
+    return password?.slice("password=".length) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function netrcPassword(host: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const file = env.NETRC ?? join(homedir(), process.platform === "win32" ? "_netrc" : ".netrc");
+  if (!existsSync(file)) return undefined;
+  return parseNetrc(readFileSync(file, "utf-8"), host);
+}
+
+export function parseNetrc(content: string, host: string): string | undefined {
+  const tokens = content.replace(/#.*$/gm, "").split(/\s+/).filter(Boolean);
+  let current: string | undefined;
+  let fallback: string | undefined;
+  let found: string | undefined;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === "machine") {
+      current = tokens[++i];
+    } else if (token === "default") {
+      current = "";
+    } else if (token === "password") {
+      const password = tokens[++i];
+      if (current === host && found === undefined) found = password;
+      if (current === "" && fallback === undefined) fallback = password;
+    } else if (token === "login" || token === "account") {
+      i++;
+    }
+  }
+  return found ?? fallback;
+}
@@ -0,0 +1,135 @@
+import { basename } from "node:path";
+import { sourceName } from "./add.js";
+import { isUnder } from "./glob.js";
+import { MANIFEST_FORMATS } from "./constants.js";
+import type { Manifest, ManifestEntry, ManifestFormat, ManifestSection, RefdocsConfig } from "./types.js";
+
+
+const FORMAT_FILENAMES: Record<Exclude<ManifestFormat, "json">, string> = {
+  markdown: "manifest.md",
+  "llms-txt": "llms.txt",
+  text: "manifest.txt",
+};
+
+export interface EntryGroup {
+  title: string;
+  entries: ManifestEntry[];
+}
+
+export function parseFormats(value: string): ManifestFormat[] {
+  const formats = value.split(",").map((f) => f.trim()).filter(Boolean);
+  for (const format of formats) {
+    if (!MANIFEST_FORMATS.includes(format as ManifestFormat)) {
+      throw new Error(`Unknown format "${format}". Expected one of: ${MANIFEST_FORMATS.join(", ")}`);
+    }
+  }
+  return [...new Set(formats)] as ManifestFormat[];
+}
+
+export function formatFilename(format: ManifestFormat, config: RefdocsConfig): string {
+  return format === "json" ? config.manifest : FORMAT_FILENAMES[format];
+}
+
+// Groups entries by the source that downloaded them, falling back to the
+// configured path for local docs
+export function groupEntries(manifest: Manifest, config: RefdocsConfig): EntryGroup[] {
+  const sources = [...(config.sources ?? [])]
+    .filter((s) => s.type)
+    .sort((a, b) => b.localPath.length - a.localPath.length);
+  const paths = [...config.paths].sort((a, b) => b.length - a.length);
+
+  const groups = new Map<string, EntryGroup>();
+  for (const entry of manifest.entries) {
+    const source = sources.find((s) => isUnder(entry.file, s.localPath));
+    const title = source ? sourceName(source) : paths.find((p) => isUnder(entry.file, p)) ?? "Other";
+    let group = groups.get(title);
+    if (!group) {
+      group = { title, entries: [] };
+      groups.set(title, group);
+    }
+    group.entries.push(entry);
+  }
+  return [...groups.values()];
+}
+
+export function entryTitle(entry: ManifestEntry): string {
+  return entry.title ?? entry.headings[0] ?? basename(entry.file).replace(/\.[^.]+$/, "");
+}
+
+function link(file: string, slug?: string): string {
+  return encodeURI(file) + (slug ? `#${slug}` : "");
+}
+
+// A lone h1 is the document title, which the file link already shows
+function topSections(entry: ManifestEntry): ManifestSection[] {
+  const sections = entry.sections ?? [];
+  if (sections.length === 1 && sections[0].level === 1) {
+    return sections[0].children ?? [];
+  }
+  return sections;
+}
+
+function sectionLines(file: string, sections: ManifestSection[], depth: number): string[] {
+  return sections.flatMap((section) => [
+    `${"  ".repeat(depth)}- [${section.heading}](${link(file, section.slug)}) (lines ${section.startLine}-${section.endLine})`,
+    ...sectionLines(file, section.children ?? [], depth + 1),
+  ]);
+}
+
+function sourceCount(manifest: Manifest): string {
+  return `${manifest.files} file${manifest.files !== 1 ? "s" : ""} from ${manifest.sources} source${manifest.sources !== 1 ? "s" : ""}`;
+}
+
+export function renderMarkdown(manifest: Manifest, config: RefdocsConfig): string {
+  const out = ["# Documentation index", "", `${sourceCount(manifest)}. Generated ${manifest.generated}.`];
+  for (const group of groupEntries(manifest, config)) {
+    out.push("", `## ${group.title}`, "");
+    for (const entry of group.entries) {
+      const summary = entry.summary ? ` ${entry.summary}` : "";
+      out.push(`- [${entryTitle(entry)}](${link(entry.file)}) (${entry.lines} lines)${summary}`);
+      out.push(...sectionLines(entry.file, topSections(entry), 1));
+    }
+  }
+  return out.join("\n") + "\n";
+}
+
+// Follows the llms.txt convention: an h1 name, a blockquote summary, then one
+// h2 per source with a list of links and notes
+export function renderLlmsTxt(manifest: Manifest, config: RefdocsConfig, title: string): string {
+  const out = [`# ${title}`, "", `> Reference documentation cataloged by refdocs: ${sourceCount(manifest)}.`];
+  for (const group of groupEntries(manifest, config)) {
+    out.push("", `## ${group.title}`, "");
+    for (const entry of group.entries) {
+      const notes = entry.summary ? `: ${entry.summary}` : "";
+      out.push(`- [${entryTitle(entry)}](${link(entry.file)})${notes}`);
+    }
+  }
+  return out.join("\n") + "\n";
+}
+
+export function renderText(manifest: Manifest): string {
+  return manifest.entries
+    .map((entry) => {
+      const headings = entry.headings.length > 0 ? ` ${entry.headings.join(" | ")}` : "";
+      return `${entry.file} (${entry.lines} lines)${headings}`;
+    })
+    .join("\n") + "\n";
+}
+
+export function renderManifest(
+  format: ManifestFormat,
+  manifest: Manifest,
+  config: RefdocsConfig,
+  title: string,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(manifest, null, 2) + "\n";
+    case "markdown":
+      return renderMarkdown(manifest, config);
+    case "llms-txt":
+      return renderLlmsTxt(manifest, config, title);
+    case "text":
+      return renderText(manifest);
+  }
+}
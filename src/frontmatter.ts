@@ -0,0 +1,94 @@
+import { isMap, isScalar, parseDocument } from "yaml";
+import type { ManifestEntry } from "./types.js";
+
+// Frontmatter keys carried into manifest entries unless `frontmatter` is configured
+export const DEFAULT_FRONTMATTER_KEYS = ["title", "description", "tags", "sidebar_position", "version", "deprecated"];
+
+export interface Frontmatter {
+  data: Record<string, unknown>;
+  // Lines taken up by the block, delimiters included; 0 when there is none
+  lines: number;
+}
+
+export type EntryMetadata = Pick<
+  ManifestEntry,
+  "title" | "description" | "tags" | "sidebarPosition" | "version" | "deprecated" | "frontmatter"
+>;
+
+const NONE: Frontmatter = { data: {}, lines: 0 };
+
+/**
+ * Reads a YAML frontmatter block: `---` on the first line, closed by the next
+ * `---` or `...` line. A block that isn't a YAML mapping is not frontmatter,
+ * so a document that merely opens with a horizontal rule is left alone.
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const lines = content.split("\n");
+  if (lines[0].replace(/^\uFEFF/, "").trimEnd() !== "---") return NONE;
+  const end = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  if (end === -1) return NONE;
+
+  const doc = parseDocument(lines.slice(1, end).join("\n"));
+  if (doc.errors.length > 0 || !isMap(doc.contents)) return NONE;
+
+  const data = doc.toJS() as Record<string, unknown>;
+  // Keep versions as written: `version: 2.0` is "2.0", not 2
+  const version = doc.get("version", true);
+  if (isScalar(version) && typeof version.value === "number" && version.source) {
+    data.version = version.source;
+  }
+  return { data, lines: end + 1 };
+}
+
+function tagList(value: unknown): string[] | undefined {
+  const items = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : [];
+  const tags = items
+    .map((item) => {
+      // Docusaurus also allows `{ label, permalink }` tags
+      const tag = typeof item === "object" && item !== null ? (item as { label?: unknown }).label : item;
+      return typeof tag === "string" || typeof tag === "number" ? String(tag).trim() : "";
+    })
+    .filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+}
+
+function isDeprecated(value: unknown): boolean {
+  if (typeof value === "string") return value.trim() !== "" && value.trim().toLowerCase() !== "false";
+  return value === true;
+}
+
+/**
+ * Picks the allowed keys out of parsed frontmatter. The well-known keys get
+ * typed entry fields; any other allowed key is copied into `frontmatter`.
+ */
+export function extractMetadata(data: Record<string, unknown>, keys: string[] = DEFAULT_FRONTMATTER_KEYS): EntryMetadata {
+  const metadata: EntryMetadata = {};
+  for (const key of keys) {
+    const value = data[key];
+    if (value === undefined || value === null) continue;
+    switch (key) {
+      case "title":
+      case "description":
+        if (typeof value === "string" && value.trim()) metadata[key] = value.trim();
+        break;
+      case "tags":
+        metadata.tags = tagList(value);
+        if (!metadata.tags) delete metadata.tags;
+        break;
+      case "sidebar_position":
+        if (typeof value === "number" || (typeof value === "string" && value.trim() && !Number.isNaN(Number(value)))) {
+          metadata.sidebarPosition = Number(value);
+        }
+        break;
+      case "version":
+        if (typeof value === "string" || typeof value === "number") metadata.version = String(value);
+        break;
+      case "deprecated":
+        if (isDeprecated(value)) metadata.deprecated = true;
+        break;
+      default:
+        metadata.frontmatter = { ...metadata.frontmatter, [key]: value };
+    }
+  }
+  return metadata;
+}
@@ -0,0 +1,163 @@
+import { execFile, spawn } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { Readable } from "node:stream";
+import { promisify } from "node:util";
+import { archiveTooLargeError } from "./http.js";
+import type { DownloadOptions } from "./http.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface ParsedGitUrl {
+  remote: string;
+  name: string;
+}
+
+export interface GitArchive {
+  commit: string;
+  // Streams out of `git archive`; the temporary repository is removed once
+  // the stream ends or is destroyed
+  tarball: Readable;
+}
+
+export function isGitUrl(url: string): boolean {
+  return /^(git@|ssh:\/\/|git:\/\/|file:\/\/)/.test(url) || /\.git\/?$/.test(url);
+}
+
+export function parseGitUrl(url: string): ParsedGitUrl {
+  const remote = url.trim().replace(/\/+$/, "");
+  // git would read it as an option such as --upload-pack
+  if (remote.startsWith("-")) {
+    throw new Error(`Invalid git URL: "${url}"`);
+  }
+  // git@host:owner/repo.git has no URL scheme; treat everything after ":" as the path
+  const path = remote.startsWith("git@")
+    ? remote.slice(remote.indexOf(":") + 1)
+    : safePathname(remote);
+
+  const parts = path.replace(/\.git$/, "").split("/").filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error(`Could not parse repository name from git URL: "${url}"`);
+  }
+
+  return { remote, name: parts.slice(-2).join("/") };
+}
+
+function safePathname(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    throw new Error(`Invalid git URL: "${url}"`);
+  }
+}
+
+async function git(args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (err) {
+    const e = err as { stderr?: string; message: string };
+    throw new Error(`git ${args[0]} failed: ${(e.stderr || e.message).trim()}`);
+  }
+}
+
+// Resolves a branch or tag to its commit with `git ls-remote`, without
+// cloning. Tags resolve to the commit they point at.
+export async function resolveGitCommit(remote: string, ref?: string): Promise<string> {
+  // ls-remote only lists the peeled `^{}` entry of an annotated tag when asked for it
+  const patterns = ref ? [ref, `${ref}^{}`] : ["HEAD"];
+  const refs = new Map<string, string>();
+  for (const line of (await git(["ls-remote", "--", remote, ...patterns])).split("\n")) {
+    const [sha, name] = line.trim().split("\t");
+    if (sha && name) refs.set(name, sha);
+  }
+
+  const commit = ref
+    ? refs.get(`refs/heads/${ref}`) ?? refs.get(`refs/tags/${ref}^{}`) ?? refs.get(`refs/tags/${ref}`) ?? refs.get(ref)
+    : refs.get("HEAD");
+  if (commit) return commit;
+  if (ref && /^[0-9a-f]{40}$/i.test(ref)) return ref;
+  throw new Error(`Could not resolve ${ref ?? "HEAD"} in ${remote}`);
+}
+
+// Produces a tarball with a single top-level directory, like GitHub's, so the
+// result can go through the same extractMarkdownFiles path.
+export async function fetchGitArchive(
+  remote: string,
+  ref?: string,
+  commit?: string,
+  options: DownloadOptions = {},
+): Promise<GitArchive> {
+  if (commit && !/^[0-9a-f]{40}$/i.test(commit)) {
+    throw new Error(`Invalid locked commit "${commit}" for ${remote}`);
+  }
+  const dir = mkdtempSync(join(tmpdir(), "refdocs-git-"));
+  try {
+    if (commit) {
+      await git(["init", "--quiet", "--bare", dir]);
+      await fetchCommit(dir, remote, commit);
+    } else {
+      const branchArgs = ref ? ["--branch", ref] : [];
+      await git(["clone", "--quiet", "--bare", "--depth", "1", ...branchArgs, "--", remote, dir]);
+    }
+
+    const resolved = (await git(["-C", dir, "rev-parse", `${commit ?? "HEAD"}^{commit}`])).trim();
+    return { commit: resolved, tarball: archiveStream(dir, resolved, options) };
+  } catch (err) {
+    rmSync(dir, { recursive: true, force: true });
+    throw err;
+  }
+}
+
+// Fetches just the locked commit. Servers that refuse to hand out commits by
+// hash get a fetch of all branches and tags instead.
+async function fetchCommit(dir: string, remote: string, commit: string): Promise<void> {
+  try {
+    await git(["-C", dir, "fetch", "--quiet", "--depth", "1", "--", remote, commit]);
+  } catch {
+    await git(["-C", dir, "fetch", "--quiet", "--", remote, "+refs/heads/*:refs/heads/*", "+refs/tags/*:refs/tags/*"]);
+  }
+}
+
+// Like bodyStream: errors as soon as more than `maxBytes` come out, without
+// holding the archive in memory
+function archiveStream(dir: string, commit: string, options: DownloadOptions): Readable {
+  const { onProgress, maxBytes } = options;
+  const child = spawn("git", ["-C", dir, "archive", "--format=tar.gz", "--prefix=archive/", commit], {
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  let stderr = "";
+  child.stderr.setEncoding("utf-8").on("data", (chunk: string) => {
+    stderr += chunk;
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on("error", reject);
+    child.on("close", resolve);
+  });
+  // Awaited below; this only keeps an early spawn error from going unhandled
+  exited.catch(() => {});
+
+  async function* chunks() {
+    try {
+      let received = 0;
+      for await (const chunk of child.stdout as AsyncIterable<Buffer>) {
+        received += chunk.byteLength;
+        if (maxBytes !== undefined && received > maxBytes) {
+          throw archiveTooLargeError(maxBytes);
+        }
+        onProgress?.(received);
+        yield chunk;
+      }
+      const code = await exited;
+      if (code !== 0) throw new Error(`git archive failed: ${stderr.trim()}`);
+    } finally {
+      child.kill();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+  return Readable.from(chunks(), { objectMode: false });
+}
@@ -1,3 +1,7 @@
+import type { Readable } from "node:stream";
+import { bodyStream, request, rateLimitMessage } from "./http.js";
+import type { DownloadOptions } from "./http.js";
+
 export interface ParsedGitHubUrl {
   owner: string;
   repo: string;
@@ -43,32 +47,73 @@ export function parseGitHubUrl(url: string): ParsedGitHubUrl {
   return { owner, repo, branch, subpath };
 }
 
+function buildHeaders(accept: string, token?: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: accept,
+    "User-Agent": "refdocs-cli",
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  return headers;
+}
+
+function notFoundError(owner: string, repo: string, ref?: string): Error {
+  return new Error(
+    `Repository not found: ${owner}/${repo}${ref ? ` (ref: ${ref})` : ""}. Check the URL and ensure the repo is public or GITHUB_TOKEN is set.`
+  );
+}
+
+function apiError(response: Response, token?: string): Error {
+  const limited = rateLimitMessage(response);
+  if (limited) {
+    return new Error(`GitHub API ${limited}.${token ? "" : " Set GITHUB_TOKEN to raise the limit."}`);
+  }
+  return new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+}
+
+export async function resolveCommitSha(
+  owner: string,
+  repo: string,
+  ref?: string,
+  token?: string,
+): Promise<string> {
+  const url = `https://api.github.com/repos/${owner}/${repo}/commits/${ref ?? "HEAD"}`;
+
+  const response = await request(url, {
+    headers: buildHeaders("application/vnd.github.sha", token),
+    redirect: "follow",
+  });
+  if (!response.ok) {
+    if (response.status === 404 || response.status === 422) {
+      throw notFoundError(owner, repo, ref);
+    }
+    throw apiError(response, token);
+  }
+
+  return (await response.text()).trim();
+}
+
 export async function downloadTarball(
   owner: string,
   repo: string,
   ref?: string,
   token?: string,
-): Promise<ArrayBuffer> {
+  options: DownloadOptions = {},
+): Promise<Readable> {
   const refPart = ref ? `/${ref}` : "";
   const url = `https://api.github.com/repos/${owner}/${repo}/tarball${refPart}`;
 
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "User-Agent": "refdocs-cli",
-  };
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
-  }
-
-  const response = await fetch(url, { headers, redirect: "follow" });
+  const response = await request(url, {
+    headers: buildHeaders("application/vnd.github+json", token),
+    redirect: "follow",
+  });
   if (!response.ok) {
     if (response.status === 404) {
-      throw new Error(
-        `Repository not found: ${owner}/${repo}${ref ? ` (ref: ${ref})` : ""}. Check the URL and ensure the repo is public or GITHUB_TOKEN is set.`
-      );
+      throw notFoundError(owner, repo, ref);
     }
-    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    throw apiError(response, token);
   }
 
-  return response.arrayBuffer();
+  return bodyStream(response, options);
 }
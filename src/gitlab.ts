@@ -0,0 +1,120 @@
+import type { Readable } from "node:stream";
+import { bodyStream, request, rateLimitMessage } from "./http.js";
+import type { DownloadOptions } from "./http.js";
+
+export interface ParsedGitLabUrl {
+  host: string;
+  project: string;
+  branch: string | null;
+  subpath: string;
+}
+
+export function parseGitLabUrl(url: string): ParsedGitLabUrl {
+  let cleaned = url.trim().replace(/\/+$/, "");
+  if (cleaned.endsWith(".git")) {
+    cleaned = cleaned.slice(0, -4);
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(cleaned);
+  } catch {
+    throw new Error(`Invalid URL: "${url}". Expected a GitLab URL like https://gitlab.com/group/project`);
+  }
+
+  const parts = parsed.pathname.split("/").filter(Boolean);
+  const separator = parts.indexOf("-");
+  const projectParts = separator === -1 ? parts : parts.slice(0, separator);
+
+  if (projectParts.length < 2) {
+    throw new Error(`Could not parse group/project from URL: "${url}"`);
+  }
+
+  let branch: string | null = null;
+  let subpath = "";
+
+  if (separator !== -1 && parts[separator + 1] === "tree" && parts.length > separator + 2) {
+    branch = parts[separator + 2];
+    subpath = parts.slice(separator + 3).join("/");
+  }
+
+  return { host: parsed.host, project: projectParts.join("/"), branch, subpath };
+}
+
+function apiBase(url: string): string {
+  return `${new URL(url).origin}/api/v4`;
+}
+
+function buildHeaders(token?: string): Record<string, string> {
+  const headers: Record<string, string> = { "User-Agent": "refdocs-cli" };
+  if (token) {
+    headers["PRIVATE-TOKEN"] = token;
+  }
+  return headers;
+}
+
+function notFoundError(project: string, ref?: string): Error {
+  return new Error(
+    `Project not found: ${project}${ref ? ` (ref: ${ref})` : ""}. Check the URL and ensure the project is public or GITLAB_TOKEN is set.`
+  );
+}
+
+function apiError(response: Response, token?: string): Error {
+  const limited = rateLimitMessage(response);
+  if (limited) {
+    return new Error(`GitLab API ${limited}.${token ? "" : " Set GITLAB_TOKEN to raise the limit."}`);
+  }
+  return new Error(`GitLab API error: ${response.status} ${response.statusText}`);
+}
+
+async function fetchJson(url: string, project: string, ref?: string, token?: string): Promise<Record<string, unknown>> {
+  const response = await request(url, { headers: buildHeaders(token), redirect: "follow" });
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw notFoundError(project, ref);
+    }
+    throw apiError(response, token);
+  }
+  return (await response.json()) as Record<string, unknown>;
+}
+
+export async function resolveGitLabCommit(
+  url: string,
+  project: string,
+  ref?: string,
+  token?: string,
+): Promise<string> {
+  const base = `${apiBase(url)}/projects/${encodeURIComponent(project)}`;
+  let branch = ref;
+  if (!branch) {
+    const info = await fetchJson(base, project, undefined, token);
+    branch = String(info.default_branch);
+  }
+  const commit = await fetchJson(
+    `${base}/repository/commits/${encodeURIComponent(branch)}`,
+    project,
+    branch,
+    token,
+  );
+  return String(commit.id);
+}
+
+export async function downloadGitLabArchive(
+  url: string,
+  project: string,
+  ref: string,
+  token?: string,
+  options: DownloadOptions = {},
+): Promise<Readable> {
+  const archiveUrl = `${apiBase(url)}/projects/${encodeURIComponent(project)}/repository/archive.tar.gz?sha=${encodeURIComponent(ref)}`;
+
+  const response = await request(archiveUrl, { headers: buildHeaders(token), redirect: "follow" });
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw notFoundError(project, ref);
+    }
+    throw apiError(response, token);
+  }
+
+  return bodyStream(response, options);
+}
@@ -0,0 +1,97 @@
+import type { PathFilters, RefdocsConfig } from "./types.js";
+
+const cache = new Map<string, RegExp>();
+
+// Supports `*`, `**`, `?` and `{a,b}`. `*` and `?` never match a `/`.
+export function globToRegExp(pattern: string): RegExp {
+  let cached = cache.get(pattern);
+  if (cached) return cached;
+
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` also matches zero directories
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 2;
+        } else {
+          source += ".*";
+          i += 1;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else if (ch === "{") {
+      braces++;
+      source += "(?:";
+    } else if (ch === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (ch === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += ch.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  cached = new RegExp(`^${source}$`);
+  cache.set(pattern, cached);
+  return cached;
+}
+
+/**
+ * Matches a slash-separated relative path against a glob. Like .gitignore,
+ * a pattern without a slash matches any path segment (`CHANGELOG.md`,
+ * `node_modules`), and a pattern that matches a directory matches everything
+ * inside it.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const normalized = pattern.replace(/^\.\//, "").replace(/\/+$/, "");
+  const segments = path.split("/");
+  const regex = globToRegExp(normalized);
+
+  if (!normalized.includes("/")) {
+    return segments.some((segment) => regex.test(segment));
+  }
+  for (let i = segments.length; i > 0; i--) {
+    if (regex.test(segments.slice(0, i).join("/"))) return true;
+  }
+  return false;
+}
+
+export function hasFilters(filters: PathFilters): boolean {
+  return (filters.include?.length ?? 0) > 0 || (filters.exclude?.length ?? 0) > 0;
+}
+
+// Excludes win over includes; an empty include list includes everything
+export function matchesFilters(path: string, filters: PathFilters): boolean {
+  const { include = [], exclude = [] } = filters;
+  if (exclude.some((pattern) => matchesGlob(path, pattern))) return false;
+  return include.length === 0 || include.some((pattern) => matchesGlob(path, pattern));
+}
+
+export function isUnder(file: string, dir: string): boolean {
+  const prefix = dir.replace(/\/+$/, "");
+  return file === prefix || file.startsWith(prefix + "/");
+}
+
+/**
+ * Applies the config-level filters to a cataloged path (relative to the config
+ * dir), and the filters of the source that owns it to the path relative to
+ * that source's local directory.
+ */
+export function isPathIncluded(file: string, config: RefdocsConfig): boolean {
+  if (!matchesFilters(file, config)) return false;
+
+  const owner = (config.sources ?? [])
+    .filter((s) => s.type && hasFilters(s) && isUnder(file, s.localPath))
+    .sort((a, b) => b.localPath.length - a.localPath.length)[0];
+  if (!owner) return true;
+  const relative = file.slice(owner.localPath.replace(/\/+$/, "").length + 1);
+  return matchesFilters(relative || file, owner);
+}
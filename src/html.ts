@@ -0,0 +1,26 @@
+import { NodeHtmlMarkdown } from "node-html-markdown";
+import { parse } from "node-html-parser";
+
+// Page chrome that never belongs to the document itself
+const CHROME = "script, style, noscript, template, svg, iframe, nav, aside, footer, [role=navigation], [aria-hidden=true]";
+
+const translator = new NodeHtmlMarkdown({ bulletMarker: "-", codeBlockStyle: "fenced" });
+
+/**
+ * Converts an HTML page to markdown. Only the main content is kept: the
+ * `<main>` or `<article>` element when there is one, minus navigation,
+ * scripts and other chrome. A page without an `<h1>` gets its `<title>`
+ * as the top heading.
+ */
+export function htmlToMarkdown(html: string): string {
+  const root = parse(html, { comment: false });
+  const content = root.querySelector("main") ?? root.querySelector("article") ?? root.querySelector("body") ?? root;
+  for (const element of content.querySelectorAll(CHROME)) {
+    element.remove();
+  }
+
+  const markdown = translator.translate(content.innerHTML).trim();
+  const title = root.querySelector("title")?.text.trim();
+  const heading = title && !content.querySelector("h1") ? `# ${title}\n\n` : "";
+  return `${heading}${markdown}\n`;
+}
@@ -0,0 +1,257 @@
+import { readFileSync } from "node:fs";
+import { Readable } from "node:stream";
+import { setTimeout as sleep } from "node:timers/promises";
+import { rootCertificates } from "node:tls";
+import { Agent, ProxyAgent } from "undici";
+import type { Dispatcher } from "undici";
+import type { LockEntry } from "./types.js";
+
+export type ByteProgress = (bytesReceived: number) => void;
+
+export const DEFAULT_MAX_ARCHIVE_MB = 1024;
+
+export interface HttpSettings {
+  // How long to wait for the response headers of each attempt, and then for
+  // each chunk of the body
+  timeoutMs: number;
+  // Extra attempts after a network error, a timeout, a 5xx or a rate limit
+  retries: number;
+  // First backoff delay; doubled on every retry
+  retryDelayMs: number;
+  // PEM file with extra certificate authorities to trust
+  caFile?: string;
+}
+
+export const DEFAULT_HTTP_SETTINGS: HttpSettings = { timeoutMs: 30_000, retries: 3, retryDelayMs: 500 };
+
+// Rate limits that reset later than this are reported instead of waited out
+const MAX_RETRY_WAIT_MS = 60_000;
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+let settings: HttpSettings = { ...DEFAULT_HTTP_SETTINGS };
+const dispatchers = new Map<string, Dispatcher>();
+
+export function configureHttp(overrides: Partial<HttpSettings>): void {
+  settings = { ...DEFAULT_HTTP_SETTINGS, ...overrides };
+  dispatchers.clear();
+}
+
+/**
+ * `fetch` with a timeout, retries with exponential backoff, and the proxy
+ * (`HTTPS_PROXY` / `HTTP_PROXY`, minus `NO_PROXY`) and CA settings applied.
+ * Non-retryable error statuses, and rate limits that reset too far in the
+ * future, are returned for the caller to turn into an error.
+ */
+export async function request(url: string, init: RequestInit = {}): Promise<Response> {
+  const dispatcher = dispatcherFor(url);
+  for (let attempt = 0; ; attempt++) {
+    const last = attempt >= settings.retries;
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, { ...init, ...(dispatcher ? { dispatcher } : {}) });
+    } catch (err) {
+      if (last) throw err;
+      await sleep(backoff(attempt));
+      continue;
+    }
+
+    if (last || !isRetryable(response)) return response;
+    const wait = retryAfterMs(response) ?? backoff(attempt);
+    if (wait > MAX_RETRY_WAIT_MS) return response;
+    await response.body?.cancel();
+    await sleep(wait);
+  }
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const seconds = Math.round(settings.timeoutMs / 1000);
+  let timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    clearTimeout(timer);
+    if (controller.signal.aborted) {
+      throw new Error(`Request to ${url} timed out after ${seconds}s`);
+    }
+    const cause = (err as { cause?: Error }).cause;
+    throw new Error(`Request to ${url} failed: ${cause?.message ?? (err as Error).message}`);
+  }
+  clearTimeout(timer);
+  if (!response.body) return response;
+
+  // The body gets the same timeout, restarted by every chunk, so a server
+  // that stops sending mid-download fails instead of hanging
+  const stalled = () => controller.abort(new Error(`Download from ${url} stalled for ${seconds}s`));
+  const restart = () => {
+    clearTimeout(timer);
+    // Unread bodies must not keep the process alive
+    timer = setTimeout(stalled, settings.timeoutMs).unref();
+  };
+  restart();
+  const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, stream) {
+      restart();
+      stream.enqueue(chunk);
+    },
+    flush() {
+      clearTimeout(timer);
+    },
+  }));
+  const timed = new Response(body, response);
+  // new Response() can't set these, and redirect handling reads them
+  Object.defineProperties(timed, { url: { value: response.url }, redirected: { value: response.redirected } });
+  return timed;
+}
+
+function backoff(attempt: number): number {
+  return settings.retryDelayMs * 2 ** attempt;
+}
+
+function isRetryable(response: Response): boolean {
+  return RETRYABLE_STATUSES.has(response.status) || (response.status === 403 && isRateLimited(response));
+}
+
+function isRateLimited(response: Response): boolean {
+  return response.headers.get("x-ratelimit-remaining") === "0" || response.headers.has("retry-after");
+}
+
+// Reads Retry-After (seconds or an HTTP date), falling back to the
+// X-RateLimit-Reset epoch once the limit is used up
+function retryAfterMs(response: Response, now = Date.now()): number | undefined {
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const at = Number.isNaN(seconds) ? Date.parse(retryAfter) : now + seconds * 1000;
+    if (!Number.isNaN(at)) return Math.max(0, at - now);
+  }
+  const reset = Number(response.headers.get("x-ratelimit-reset"));
+  if (response.headers.get("x-ratelimit-remaining") === "0" && reset > 0) {
+    return Math.max(0, reset * 1000 - now);
+  }
+  return undefined;
+}
+
+/**
+ * Describes a rate-limited response, including when the limit resets, or
+ * returns undefined for any other response.
+ */
+export function rateLimitMessage(response: Response, now = Date.now()): string | undefined {
+  if ((response.status !== 403 && response.status !== 429) || !isRateLimited(response)) return undefined;
+  const wait = retryAfterMs(response, now);
+  if (wait === undefined) return "rate limit exceeded";
+  const resetAt = new Date(now + wait);
+  const minutes = Math.ceil(wait / 60_000);
+  return `rate limit exceeded; it resets at ${resetAt.toLocaleTimeString()} (in ${minutes} minute${minutes !== 1 ? "s" : ""})`;
+}
+
+export function proxyFor(url: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const { protocol, hostname, port } = new URL(url);
+  const proxy = protocol === "https:"
+    ? env.https_proxy ?? env.HTTPS_PROXY ?? env.http_proxy ?? env.HTTP_PROXY
+    : env.http_proxy ?? env.HTTP_PROXY;
+  if (!proxy) return undefined;
+
+  const noProxy = (env.no_proxy ?? env.NO_PROXY ?? "").split(/[\s,]+/).filter(Boolean);
+  const bypass = noProxy.some((entry) => {
+    if (entry === "*") return true;
+    const [host, entryPort] = entry.replace(/^\*?\./, ".").split(":");
+    if (entryPort && entryPort !== port) return false;
+    return host.startsWith(".") ? hostname.endsWith(host) || hostname === host.slice(1) : hostname === host;
+  });
+  return bypass ? undefined : proxy;
+}
+
+function dispatcherFor(url: string): Dispatcher | undefined {
+  const proxy = proxyFor(url);
+  if (!proxy && !settings.caFile) return undefined;
+
+  const key = proxy ?? "";
+  let dispatcher = dispatchers.get(key);
+  if (!dispatcher) {
+    const tls = settings.caFile ? { ca: [...rootCertificates, readFileSync(settings.caFile, "utf-8")] } : undefined;
+    dispatcher = proxy
+      ? new ProxyAgent({ uri: proxy, requestTls: tls, proxyTls: tls })
+      : new Agent({ connect: tls });
+    dispatchers.set(key, dispatcher);
+  }
+  return dispatcher;
+}
+
+export interface DownloadOptions {
+  onProgress?: ByteProgress;
+  // Abort once the body grows past this many bytes
+  maxBytes?: number;
+}
+
+// Reads a response body in chunks so callers can report download progress
+export async function readBody(response: Response, onProgress?: ByteProgress): Promise<ArrayBuffer> {
+  if (!onProgress || !response.body) {
+    return response.arrayBuffer();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for await (const chunk of response.body) {
+    chunks.push(chunk);
+    received += chunk.byteLength;
+    onProgress(received);
+  }
+  const body = Buffer.concat(chunks);
+  return body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength) as ArrayBuffer;
+}
+
+export function archiveTooLargeError(maxBytes: number): Error {
+  return new Error(
+    `Archive is larger than the ${Math.round(maxBytes / (1024 * 1024))} MB limit. Narrow the source with a subpath or raise "maxArchiveMB" in the config.`
+  );
+}
+
+/**
+ * Exposes a response body as a Node stream without buffering it, so archives
+ * can be piped straight into the extractor. The stream errors (and the
+ * download is cancelled) as soon as more than `maxBytes` arrive.
+ */
+export function bodyStream(response: Response, options: DownloadOptions = {}): Readable {
+  const { onProgress, maxBytes } = options;
+  const declared = Number(response.headers.get("content-length"));
+  if (maxBytes !== undefined && declared > maxBytes) {
+    void response.body?.cancel();
+    throw archiveTooLargeError(maxBytes);
+  }
+
+  const body = response.body;
+  async function* chunks() {
+    if (!body) return;
+    let received = 0;
+    for await (const chunk of body) {
+      received += chunk.byteLength;
+      if (maxBytes !== undefined && received > maxBytes) {
+        throw archiveTooLargeError(maxBytes);
+      }
+      onProgress?.(received);
+      yield chunk;
+    }
+  }
+  return Readable.from(chunks(), { objectMode: false });
+}
+
+export type CacheValidators = Pick<LockEntry, "etag" | "lastModified">;
+
+export function conditionalHeaders(validators?: CacheValidators): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers["If-None-Match"] = validators.etag;
+  if (validators?.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+  return headers;
+}
+
+export function cacheValidators(response: Response): CacheValidators {
+  const etag = response.headers.get("etag");
+  const lastModified = response.headers.get("last-modified");
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  };
+}
@@ -1,12 +1,45 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import { join, dirname } from "node:path";
+import { join, dirname, basename, relative } from "node:path";
 import { createRequire } from "node:module";
-import { loadConfig, configExists, initConfig, CONFIG_DIR_NAME, CONFIG_FILENAME } from "./config.js";
-import { buildAndPersistManifest, findMarkdownFiles, loadManifest } from "./manifest.js";
-import { addFromGitHub, addLocalPath, removePath, updateSources } from "./add.js";
-import type { Source, Manifest } from "./types.js";
+import {
+  loadConfig,
+  configExists,
+  initConfig,
+  migrateProject,
+  findConfigDir,
+  validateConfigFile,
+  CONFIG_DIR_NAME,
+  CONFIG_FILENAME,
+} from "./config.js";
+import type { ConfigResult } from "./config.js";
+import { configJsonSchema, formatIssue } from "./schema.js";
+import { buildAndPersistManifest, findCatalogedFiles, loadManifest } from "./manifest.js";
+import type { ManifestBuild } from "./manifest.js";
+import {
+  addFromUrl,
+  addLocalPath,
+  removePath,
+  collectGarbage,
+  updateSources,
+  installSources,
+  syncDependencies,
+  SOURCE_TYPES,
+} from "./add.js";
+import type { SyncProgress, UpdateResult } from "./add.js";
+import { isGitUrl } from "./git.js";
+import { DEFAULT_MAX_PAGES } from "./web.js";
+import { isNpmSpec } from "./npm.js";
+import { credentialTarget, resolveCredential } from "./credentials.js";
+import { LOCK_FILENAME } from "./lock.js";
+import { loadSearchIndex, searchIndex, DEFAULT_INDEX } from "./search.js";
+import { parseReadTarget, resolveDocFile, readDoc } from "./read.js";
+import { DEFAULT_BUDGET_MANIFEST } from "./budget.js";
+import type { FileChanges } from "./staging.js";
+import { parseFormats } from "./formats.js";
+import { MANIFEST_FORMATS } from "./constants.js";
+import type { Source, Manifest, LockEntry, RefdocsConfig } from "./types.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json");
@@ -31,14 +64,48 @@ program
     }
   });
 
+program
+  .command("migrate")
+  .description(`Upgrade ${CONFIG_DIR_NAME}/${CONFIG_FILENAME} (or a legacy .refdocs.json) to the current config version`)
+  .action(() => {
+    try {
+      const result = migrateProject(process.cwd());
+      if (result.legacyPath) {
+        console.log(`Moved ${basename(result.legacyPath)} to ${CONFIG_DIR_NAME}/${CONFIG_FILENAME} (paths are now relative to ${CONFIG_DIR_NAME}/)`);
+      }
+      if (result.from === result.to) {
+        if (!result.legacyPath) console.log(`${CONFIG_DIR_NAME}/${CONFIG_FILENAME} is already at version ${result.to}`);
+        return;
+      }
+      console.log(`Migrated config from version ${result.from} to ${result.to}:`);
+      for (const step of result.applied) {
+        console.log(`  - ${step}`);
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
 program
   .command("manifest")
   .description("Generate the documentation manifest")
-  .action(() => {
+  .option("--full", "re-parse every file instead of only the ones that changed")
+  .option("--budget <tokens>", "also write a manifest compacted to fit this many tokens")
+  .option("--format <formats>", `comma-separated output formats (${MANIFEST_FORMATS.join(", ")}); overrides config formats`)
+  .action((opts: { full?: boolean; budget?: string; format?: string }) => {
     try {
-      const { config, configDir } = loadConfig();
-      const manifest = buildAndPersistManifest(config, configDir);
-      printManifestSummary(manifest);
+      const { config, configDir } = loadProjectConfig();
+      let budget: number | undefined;
+      if (opts.budget !== undefined) {
+        budget = Number.parseInt(opts.budget, 10);
+        if (!Number.isInteger(budget) || budget < 1) {
+          throw new Error(`Invalid --budget "${opts.budget}". Expected a positive integer.`);
+        }
+      }
+      const formats = opts.format !== undefined ? parseFormats(opts.format) : undefined;
+      const build = buildAndPersistManifest(config, configDir, { full: opts.full, budget, formats });
+      printManifestSummary(build, config);
     } catch (err) {
       console.error((err as Error).message);
       process.exit(1);
@@ -48,9 +115,11 @@ program
 program
   .command("list")
   .description("List all documented files and their heading counts")
-  .action(() => {
+  .option("--tag <tag>", "only list files whose frontmatter has this tag")
+  .option("--no-deprecated", "leave out files whose frontmatter marks them deprecated")
+  .action((opts: { tag?: string; deprecated: boolean }) => {
     try {
-      const { config, configDir } = loadConfig();
+      const { config, configDir } = loadProjectConfig();
       const manifestPath = join(configDir, config.manifest);
 
       let entries: Manifest["entries"];
@@ -59,15 +128,18 @@ program
         entries = manifest.entries;
       } catch {
         // No manifest yet — scan filesystem directly
-        const files = findMarkdownFiles(config.paths, configDir);
+        const files = findCatalogedFiles(config, configDir);
         entries = files.map((f) => ({ file: f, headings: [], lines: 0, summary: "" }));
       }
 
+      entries = entries.filter((entry) =>
+        (!opts.tag || (entry.tags ?? []).includes(opts.tag)) && (opts.deprecated || !entry.deprecated)
+      );
       for (const entry of entries) {
         const detail = entry.headings.length > 0
           ? ` (${entry.headings.length} heading${entry.headings.length !== 1 ? "s" : ""}, ${entry.lines} lines)`
           : "";
-        console.log(`${entry.file}${detail}`);
+        console.log(`${entry.file}${detail}${entry.deprecated ? " [deprecated]" : ""}`);
       }
       console.log(`\n${entries.length} files total`);
     } catch (err) {
@@ -76,46 +148,175 @@ program
     }
   });
 
+program
+  .command("search <query>")
+  .description("Search the cataloged docs and print matching sections")
+  .option("-n, --limit <count>", "maximum number of results", "10")
+  .option("--json", "print results as JSON")
+  .action((query: string, opts: { limit: string; json?: boolean }) => {
+    try {
+      const { config, configDir } = loadProjectConfig();
+      const limit = Number.parseInt(opts.limit, 10);
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Invalid --limit "${opts.limit}". Expected a positive integer.`);
+      }
+
+      const index = loadSearchIndex(join(configDir, config.index ?? DEFAULT_INDEX));
+      const results = searchIndex(index, query, configDir, { limit });
+
+      if (opts.json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+      }
+
+      if (results.length === 0) {
+        console.log(`No results for "${query}"`);
+        return;
+      }
+
+      for (const r of results) {
+        const anchor = r.anchor ? `#${r.anchor}` : "";
+        console.log(`${r.file}${anchor} (lines ${r.startLine}-${r.endLine})`);
+        if (r.snippet) {
+          console.log(`  ${r.snippet}`);
+        }
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("read <target>")
+  .description("Print a cataloged file, or one section of it with file.md#heading-slug")
+  .option("--lines <range>", "only print this line range, e.g. 40-80")
+  .option("--max-tokens <count>", "truncate output to roughly this many tokens")
+  .action((target: string, opts: { lines?: string; maxTokens?: string }) => {
+    try {
+      const { config, configDir } = loadProjectConfig();
+      let maxTokens: number | undefined;
+      if (opts.maxTokens !== undefined) {
+        maxTokens = Number.parseInt(opts.maxTokens, 10);
+        if (!Number.isInteger(maxTokens) || maxTokens < 1) {
+          throw new Error(`Invalid --max-tokens "${opts.maxTokens}". Expected a positive integer.`);
+        }
+      }
+
+      let files: string[];
+      try {
+        files = loadManifest(join(configDir, config.manifest)).entries.map((e) => e.file);
+      } catch {
+        files = findCatalogedFiles(config, configDir);
+      }
+
+      const { file, slug } = parseReadTarget(target);
+      const result = readDoc(resolveDocFile(files, file), slug, configDir, {
+        lines: opts.lines,
+        maxTokens,
+      });
+
+      const trail = [result.file, ...result.breadcrumb].join(" > ");
+      console.log(`${trail} (lines ${result.startLine}-${result.endLine})\n`);
+      console.log(result.content);
+      if (result.truncated) {
+        console.log(`\n[truncated at line ${result.endLine}; continue with --lines ${result.endLine + 1}-]`);
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
 interface AddOpts {
   path?: string;
   branch?: string;
+  subpath?: string;
+  type?: string;
+  split?: boolean;
+  prefix?: string;
+  maxPages?: string;
+  include: string[];
+  exclude: string[];
   manifest: boolean;
 }
 
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
 program
   .command("add <source>")
-  .description("Add docs from a local path or GitHub URL")
+  .description("Add docs from a local path, a GitHub, GitLab, Bitbucket or git URL, a markdown/llms.txt file URL, a website to crawl, or an installed npm package (npm:<package>)")
   .option("--path <dir>", "override local storage directory")
   .option("--branch <branch>", "override branch detection from URL")
+  .option("--subpath <dir>", "only download files under this directory of the repo")
+  .option("--type <type>", `source type (${SOURCE_TYPES.join(", ")}); detected from the URL by default`)
+  .option("--split", "split a file URL such as llms-full.txt into one markdown file per section")
+  .option("--prefix <path>", "with --type web, only crawl pages under this path (default: the start page's directory)")
+  .option("--max-pages <n>", `with --type web, crawl at most this many pages (default: ${DEFAULT_MAX_PAGES})`)
+  .option("--include <glob>", "only keep files matching this glob (repeatable)", collect, [])
+  .option("--exclude <glob>", "skip files matching this glob (repeatable)", collect, [])
   .option("--no-manifest", "skip auto manifest generation after download")
   .action(async (source: string, opts: AddOpts) => {
     try {
-      const isUrl = source.startsWith("http://") || source.startsWith("https://");
+      // With --type npm a bare package name is meant, not a local path
+      const isUrl = source.startsWith("http://") || source.startsWith("https://") || isGitUrl(source) || isNpmSpec(source)
+        || opts.type === "npm";
+      if (opts.type !== undefined && !SOURCE_TYPES.includes(opts.type as Source["type"])) {
+        throw new Error(`Unknown --type "${opts.type}". Expected one of: ${SOURCE_TYPES.join(", ")}`);
+      }
+
+      if ((opts.prefix !== undefined || opts.maxPages !== undefined) && opts.type !== "web") {
+        throw new Error("--prefix and --max-pages only apply to --type web.");
+      }
+      const maxPages = parseMaxPages(opts.maxPages);
 
       const cwd = process.cwd();
       if (!configExists(cwd)) {
         initConfig(cwd);
         console.log(`Initialized ${CONFIG_DIR_NAME}/${CONFIG_FILENAME} with default configuration.`);
       }
-      const { config, configDir } = loadConfig();
+      const { config, configDir } = loadProjectConfig();
 
       if (isUrl) {
-        const result = await addFromGitHub(
+        const result = await addFromUrl(
           source,
-          { path: opts.path, branch: opts.branch },
+          {
+            path: opts.path,
+            branch: opts.branch,
+            subpath: opts.subpath,
+            type: opts.type as Source["type"] | undefined,
+            split: opts.split,
+            prefix: opts.prefix,
+            maxPages,
+            include: opts.include,
+            exclude: opts.exclude,
+          },
           configDir,
           config,
         );
 
-        console.log(`Downloaded ${result.filesWritten} markdown files → ${result.localPath}/`);
-        if (result.source.type === "github") {
-          console.log(`Source: ${result.source.owner}/${result.source.repo} (${result.source.branch})`);
+        if (result.source.type === "file" && !result.source.split) {
+          console.log(`Downloaded ${result.source.url} → ${result.localPath}`);
+        } else if (result.source.type === "web") {
+          console.log(`Crawled ${result.filesWritten} pages under ${result.source.prefix} → ${result.localPath}/`);
+        } else if (result.source.type === "npm") {
+          console.log(`Copied ${result.filesWritten} markdown files of ${result.source.package}${formatLockRef(result.lock)} → ${result.localPath}/`);
+        } else {
+          console.log(`Downloaded ${result.filesWritten} markdown files → ${result.localPath}/`);
+        }
+        if (result.source.type !== "file" && result.source.type !== "web" && result.source.type !== "npm") {
+          console.log(`Source: ${formatSourceDescription(result.source)} (${result.source.branch})${formatLockRef(result.lock)}`);
         }
 
         if (opts.manifest && result.filesWritten > 0) {
           regenerateManifest();
         }
       } else {
+        if (opts.include.length > 0 || opts.exclude.length > 0) {
+          throw new Error("--include and --exclude only apply to URL sources. Use \"include\"/\"exclude\" in the config for local paths.");
+        }
         const result = addLocalPath(source, configDir, config, cwd);
         console.log(`Added ${result.localPath} to paths`);
 
@@ -131,25 +332,71 @@ program
 
 program
   .command("update")
-  .description("Re-pull all tracked sources and regenerate manifest")
+  .description("Re-pull tracked sources, pin them in the lockfile and regenerate manifest")
+  .option("--source <key>", "only update the source matching this key (owner/repo[/subpath] or URL)")
+  .option("--dry-run", "only print which files would be added, modified or deleted")
+  .option("--force", "download every source, even the ones that have not changed")
+  .option("--concurrency <count>", "how many sources to fetch at once")
   .option("--no-manifest", "skip auto manifest generation after update")
-  .action(async (opts: { manifest: boolean }) => {
+  .action(async (opts: { source?: string; dryRun?: boolean; force?: boolean; concurrency?: string; manifest: boolean }) => {
     try {
-      const { config, configDir } = loadConfig();
-      const token = process.env.GITHUB_TOKEN ?? undefined;
-      const results = await updateSources(config, configDir, token);
+      const { config, configDir } = loadProjectConfig();
+      const results = await updateSources(config, configDir, undefined, {
+        source: opts.source,
+        dryRun: opts.dryRun,
+        force: opts.force,
+        concurrency: parseConcurrency(opts.concurrency),
+        onProgress: createProgressReporter(opts.dryRun ? undefined : "Updated"),
+      });
 
-      for (const r of results) {
-        const desc = formatSourceDescription(r.source);
-        console.log(`Updated ${desc} → ${r.filesWritten} files`);
+      if (opts.dryRun) {
+        for (const r of results) {
+          if (r.error) continue;
+          if (r.upToDate) {
+            console.log(`${formatSourceDescription(r.source)}${formatLockRef(r.lock)} up to date`);
+            continue;
+          }
+          console.log(`${formatSourceDescription(r.source)}${formatLockRef(r.lock)} ${formatChanges(r.changes)}`);
+          for (const file of r.changes.added) console.log(`  + ${file}`);
+          for (const file of r.changes.modified) console.log(`  ~ ${file}`);
+          for (const file of r.changes.deleted) console.log(`  - ${file}`);
+        }
+        console.log("\nDry run: nothing was written.");
+        exitOnFailures(results);
+        return;
       }
 
-      const totalFiles = results.reduce((sum, r) => sum + r.filesWritten, 0);
-      console.log(`\n${results.length} source${results.length !== 1 ? "s" : ""} updated (${totalFiles} files total)`);
+      printSyncSummary(results, "updated");
+
+      if (opts.manifest && results.some((r) => hasChanges(r.changes))) {
+        regenerateManifest();
+      }
+      exitOnFailures(results);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("install")
+  .description(`Download tracked sources at the versions pinned in ${CONFIG_DIR_NAME}/${LOCK_FILENAME}`)
+  .option("--concurrency <count>", "how many sources to fetch at once")
+  .option("--no-manifest", "skip auto manifest generation after install")
+  .action(async (opts: { concurrency?: string; manifest: boolean }) => {
+    try {
+      const { config, configDir } = loadProjectConfig();
+      const results = await installSources(config, configDir, undefined, {
+        concurrency: parseConcurrency(opts.concurrency),
+        onProgress: createProgressReporter("Installed"),
+      });
+
+      const totalFiles = printSyncSummary(results, "installed");
 
       if (opts.manifest && totalFiles > 0) {
         regenerateManifest();
       }
+      exitOnFailures(results);
     } catch (err) {
       console.error((err as Error).message);
       process.exit(1);
@@ -157,24 +404,62 @@ program
   });
 
 program
-  .command("remove <path>")
-  .description("Remove a path from the configuration")
+  .command("sync-deps")
+  .description("Add an npm source for every dependency in package.json, remove the ones no longer used, and refresh changed versions")
+  .option("--dev", "also add devDependencies")
+  .option("--concurrency <count>", "how many packages to sync at once")
+  .option("--no-manifest", "skip auto manifest generation after syncing")
+  .action(async (opts: { dev?: boolean; concurrency?: string; manifest: boolean }) => {
+    try {
+      const cwd = process.cwd();
+      if (!configExists(cwd)) {
+        initConfig(cwd);
+        console.log(`Initialized ${CONFIG_DIR_NAME}/${CONFIG_FILENAME} with default configuration.`);
+      }
+      const { config, configDir } = loadProjectConfig();
+      const { added, removed, results } = await syncDependencies(config, configDir, {
+        dev: opts.dev,
+        concurrency: parseConcurrency(opts.concurrency),
+        onProgress: createProgressReporter("Synced"),
+      });
+
+      for (const name of removed) console.log(`Removed npm:${name}`);
+      printSyncSummary(results, "synced");
+      if (added.length > 0) console.log(`Added ${added.length} package${added.length !== 1 ? "s" : ""}: ${added.join(", ")}`);
+
+      if (opts.manifest && (removed.length > 0 || results.some((r) => hasChanges(r.changes)))) {
+        regenerateManifest();
+      }
+      exitOnFailures(results);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("remove <target>")
+  .description("Remove a configured path or a source (owner/repo[/subpath] or URL) and delete its downloaded files")
+  .option("--keep-files", "keep the downloaded files on disk")
   .option("--no-manifest", "skip auto manifest generation after removal")
-  .action((path: string, opts: { manifest: boolean }) => {
+  .action((target: string, opts: { keepFiles?: boolean; manifest: boolean }) => {
     try {
-      const { config, configDir } = loadConfig();
+      const { config, configDir } = loadProjectConfig();
       const projectDir = dirname(configDir);
-      const result = removePath(path, configDir, config, projectDir);
+      const result = removePath(target, configDir, config, projectDir, { keepFiles: opts.keepFiles });
 
       if (!result.removed) {
-        console.error(`Path "${path}" not found in configured paths.`);
+        console.error(`"${target}" is not a configured path or source.`);
         process.exit(1);
       }
 
-      console.log(`Removed ${path} from paths`);
+      console.log(`Removed ${target}`);
       if (result.sourceRemoved) {
         console.log("Removed associated source");
       }
+      for (const path of result.deleted) {
+        console.log(`Deleted ${path}`);
+      }
 
       if (opts.manifest) {
         regenerateManifest();
@@ -185,23 +470,281 @@ program
     }
   });
 
-function printManifestSummary(manifest: Manifest) {
-  console.log(`Manifest: ${manifest.files} files, ${manifest.sources} sources`);
+program
+  .command("gc")
+  .description("Delete downloaded files that no configured source refers to")
+  .option("--dry-run", "only print what would be deleted")
+  .option("--no-manifest", "skip auto manifest generation after cleanup")
+  .action((opts: { dryRun?: boolean; manifest: boolean }) => {
+    try {
+      const { config, configDir } = loadProjectConfig();
+      const { deleted, skipped } = collectGarbage(config, configDir, { dryRun: opts.dryRun });
+
+      for (const path of deleted) {
+        console.log(`${opts.dryRun ? "Would delete" : "Deleted"} ${path}`);
+      }
+      for (const path of skipped) {
+        console.log(`Skipped ${path} (not written by refdocs)`);
+      }
+      if (deleted.length === 0) {
+        console.log("Nothing to clean up");
+        return;
+      }
+
+      if (opts.manifest && !opts.dryRun) {
+        regenerateManifest();
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
+const configCommand = program
+  .command("config")
+  .description("Check the config file");
+
+configCommand
+  .command("validate")
+  .description(`Check ${CONFIG_DIR_NAME}/${CONFIG_FILENAME} against the schema and list every problem`)
+  .action(() => {
+    try {
+      const configDir = findConfigDir(process.cwd());
+      if (!configDir) {
+        throw new Error(`No ${CONFIG_DIR_NAME}/${CONFIG_FILENAME} found. Run \`refdocs init\` first.`);
+      }
+      const configPath = join(configDir, CONFIG_FILENAME);
+      const { errors, warnings } = validateConfigFile(configPath);
+      const name = relative(process.cwd(), configPath);
+      if (errors.length === 0 && warnings.length === 0) {
+        console.log(`${name} is valid`);
+        return;
+      }
+
+      const counts = [
+        `${errors.length} error${errors.length !== 1 ? "s" : ""}`,
+        `${warnings.length} warning${warnings.length !== 1 ? "s" : ""}`,
+      ];
+      console.log(`${name}: ${counts.join(", ")}`);
+      for (const issue of errors) console.log(`  error: ${formatIssue(issue)}`);
+      for (const issue of warnings) console.log(`  warning: ${formatIssue(issue)}`);
+      if (errors.length > 0) process.exit(1);
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command("schema")
+  .description("Print the JSON Schema of the config file")
+  .action(() => {
+    console.log(JSON.stringify(configJsonSchema(), null, 2));
+  });
+
+const auth = program
+  .command("auth")
+  .description("Inspect the credentials used to download sources");
+
+auth
+  .command("status")
+  .description("Show which credential each source would be downloaded with")
+  .action(async () => {
+    try {
+      const { config } = loadProjectConfig();
+      const sources = (config.sources ?? []).filter((s) => s.type);
+      if (sources.length === 0) {
+        console.log("No sources configured");
+        return;
+      }
+
+      for (const source of sources) {
+        const desc = formatSourceDescription(source);
+        if (source.type === "npm") {
+          console.log(`${desc}: none from node_modules; its GitHub repository's credential otherwise`);
+          continue;
+        }
+        const target = credentialTarget(source);
+        if (!target) {
+          console.log(`${desc}: git's own credential helpers`);
+          continue;
+        }
+        const credential = await resolveCredential(source, config);
+        const rule = credential.rule ? ` (rule ${credential.rule.host}${credential.rule.owner ? `/${credential.rule.owner}` : ""})` : "";
+        if (credential.token) {
+          console.log(`${desc}: ${credential.from}${rule}`);
+        } else if (credential.from) {
+          console.log(`${desc}: none, ${credential.from}${rule} has no token for ${target.host}`);
+        } else {
+          console.log(`${desc}: none`);
+        }
+      }
+    } catch (err) {
+      console.error((err as Error).message);
+      process.exit(1);
+    }
+  });
+
+function printManifestSummary({ manifest, changes, outputs, budgeted }: ManifestBuild, config: RefdocsConfig) {
+  const parts = [
+    changes.added.length > 0 ? `${changes.added.length} added` : "",
+    changes.changed.length > 0 ? `${changes.changed.length} changed` : "",
+    changes.removed.length > 0 ? `${changes.removed.length} removed` : "",
+  ].filter(Boolean);
+  const detail = parts.length > 0 ? ` (${parts.join(", ")})` : " (no changes)";
+  console.log(`Manifest: ${manifest.files} files, ${manifest.sources} sources${detail}`);
+  if (outputs.length > 0) {
+    console.log(`Also wrote ${outputs.join(", ")}`);
+  }
+
+  if (budgeted) {
+    const file = config.budgetManifest ?? DEFAULT_BUDGET_MANIFEST;
+    const steps = budgeted.compaction.length > 0 ? ` (${budgeted.compaction.join(", ")})` : "";
+    console.log(`Budget manifest: ~${budgeted.tokens}/${budgeted.budget} tokens → ${file}${steps}`);
+    if (budgeted.tokens > budgeted.budget) {
+      console.warn(`Warning: could not fit the manifest within ${budgeted.budget} tokens`);
+    }
+  }
+}
+
+// Loads the config for a command, reporting schema warnings on stderr
+function loadProjectConfig(): ConfigResult {
+  const result = loadConfig();
+  for (const warning of result.warnings) {
+    console.warn(`Warning: ${CONFIG_DIR_NAME}/${CONFIG_FILENAME}: ${warning}`);
+  }
+  return result;
 }
 
 function regenerateManifest() {
   const { config: freshConfig, configDir: freshDir } = loadConfig();
-  const manifest = buildAndPersistManifest(freshConfig, freshDir);
-  printManifestSummary(manifest);
+  printManifestSummary(buildAndPersistManifest(freshConfig, freshDir), freshConfig);
 }
 
 function formatSourceDescription(source: Source): string {
   switch (source.type) {
     case "github":
       return `${source.owner}/${source.repo}`;
+    case "gitlab":
+      return source.host === "gitlab.com" ? source.project : `${source.host}/${source.project}`;
+    case "bitbucket":
+      return `${source.workspace}/${source.repo}`;
+    case "git":
+      return source.url;
     case "file":
+    case "web":
+    case "npm":
       return source.url;
   }
 }
 
+function parseMaxPages(value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const maxPages = Number.parseInt(value, 10);
+  if (!Number.isInteger(maxPages) || maxPages < 1) {
+    throw new Error(`Invalid --max-pages "${value}". Expected a positive integer.`);
+  }
+  return maxPages;
+}
+
+function parseConcurrency(value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const concurrency = Number.parseInt(value, 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency "${value}". Expected a positive integer.`);
+  }
+  return concurrency;
+}
+
+// Prints a line per finished source as soon as it completes (unless `verb`
+// is omitted) and, on a terminal, a status line for the ones in flight
+function createProgressReporter(verb?: string): (progress: SyncProgress) => void {
+  const active = new Map<Source, SyncProgress>();
+  const tty = process.stderr.isTTY;
+
+  const render = () => {
+    if (!tty) return;
+    const status = [...active.values()]
+      .map((p) => `${formatSourceDescription(p.source)} ${formatPhase(p)}`)
+      .join(" · ");
+    process.stderr.write(`\r\x1b[K${status.slice(0, (process.stderr.columns ?? 80) - 1)}`);
+  };
+
+  return (progress) => {
+    if (progress.phase !== "done" && progress.phase !== "failed") {
+      active.set(progress.source, progress);
+      render();
+      return;
+    }
+
+    active.delete(progress.source);
+    if (tty) process.stderr.write("\r\x1b[K");
+    const r = progress.result;
+    const desc = formatSourceDescription(r.source);
+    if (r.error) {
+      console.error(`Failed ${desc}: ${r.error.message}`);
+    } else if (r.upToDate) {
+      if (verb) console.log(`${desc}${formatLockRef(r.lock)} up to date`);
+    } else if (verb) {
+      console.log(`${verb} ${desc}${formatLockRef(r.lock)} → ${r.filesWritten} files ${formatChanges(r.changes)}`);
+    }
+    render();
+  };
+}
+
+function formatPhase(progress: SyncProgress): string {
+  switch (progress.phase) {
+    case "resolving":
+      return "resolving";
+    case "downloading":
+      return formatBytes(progress.bytes);
+    case "crawling":
+      return `${progress.files} pages`;
+    case "extracting":
+    case "done":
+      return `${progress.files} files`;
+    case "failed":
+      return "failed";
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function printSyncSummary(results: UpdateResult[], verb: string): number {
+  const synced = results.filter((r) => !r.error && !r.upToDate);
+  const totalFiles = synced.reduce((sum, r) => sum + r.filesWritten, 0);
+  const upToDate = results.filter((r) => r.upToDate).length;
+  const failed = results.filter((r) => r.error).length;
+  const extra = [
+    ...(upToDate > 0 ? [`${upToDate} up to date`] : []),
+    ...(failed > 0 ? [`${failed} failed`] : []),
+  ].map((s) => `, ${s}`).join("");
+  console.log(`\n${synced.length} source${synced.length !== 1 ? "s" : ""} ${verb} (${totalFiles} files total)${extra}`);
+  return totalFiles;
+}
+
+function exitOnFailures(results: UpdateResult[]) {
+  if (results.some((r) => r.error)) {
+    process.exit(1);
+  }
+}
+
+function hasChanges(changes: FileChanges): boolean {
+  return changes.added.length + changes.modified.length + changes.deleted.length > 0;
+}
+
+function formatChanges(changes: FileChanges): string {
+  if (!hasChanges(changes)) return "(no changes)";
+  return `(+${changes.added.length} ~${changes.modified.length} -${changes.deleted.length})`;
+}
+
+function formatLockRef(lock?: LockEntry): string {
+  if (lock?.version) return ` @ ${lock.version}`;
+  return lock?.commit ? ` @ ${lock.commit.slice(0, 7)}` : "";
+}
+
 program.parse();
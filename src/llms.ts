@@ -0,0 +1,55 @@
+import { slugify, splitSections } from "./sections.js";
+
+export interface BundleSection {
+  name: string;
+  content: string;
+}
+
+function headingLines(content: string, level: number): number[] {
+  return splitSections(content)
+    .filter((section) => section.level === level)
+    .map((section) => section.startLine - 1);
+}
+
+/**
+ * Splits a concatenated markdown bundle (such as llms-full.txt) into one
+ * document per top-level section. Splits on h1 when the bundle has more than
+ * one, otherwise on h2. Text before the first split heading becomes "index".
+ */
+export function splitMarkdownBundle(content: string): BundleSection[] {
+  const lines = content.split("\n");
+  let starts = headingLines(content, 1);
+  if (starts.length < 2) {
+    starts = headingLines(content, 2);
+  }
+  if (starts.length === 0) {
+    return [{ name: "index", content }];
+  }
+
+  const sections: BundleSection[] = [];
+  const used = new Map<string, number>();
+
+  const preamble = lines.slice(0, starts[0]).join("\n").trim();
+  if (preamble) {
+    sections.push({ name: "index", content: preamble + "\n" });
+    used.set("index", 1);
+  }
+
+  for (let i = 0; i < starts.length; i++) {
+    const chunk = lines.slice(starts[i], starts[i + 1] ?? lines.length);
+    const title = chunk[0].replace(/^#+\s+/, "");
+    const base = slugify(title) || "section";
+    const count = (used.get(base) ?? 0) + 1;
+    used.set(base, count);
+
+    // Section bodies are re-rooted so each file starts with an h1
+    const heading = "# " + title;
+    const body = chunk.slice(1).join("\n").trimEnd();
+    sections.push({
+      name: count === 1 ? base : `${base}-${count}`,
+      content: `${heading}\n${body}\n`,
+    });
+  }
+
+  return sections;
+}
@@ -0,0 +1,55 @@
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { createHash } from "node:crypto";
+import type { LockEntry, Lockfile } from "./types.js";
+
+export const LOCK_FILENAME = "lock.json";
+export const LOCK_VERSION = 1;
+
+// What each source's files in this checkout were last written from. The
+// shared lockfile can move ahead of them when a teammate updates a source.
+export const SYNCED_FILENAME = "synced.json";
+
+export function loadLock(configDir: string): Lockfile {
+  const lockPath = join(configDir, LOCK_FILENAME);
+  if (!existsSync(lockPath)) {
+    return { version: LOCK_VERSION, sources: {} };
+  }
+  const raw = JSON.parse(readFileSync(lockPath, "utf-8"));
+  if (typeof raw !== "object" || raw === null || typeof raw.sources !== "object" || raw.sources === null) {
+    throw new Error(`Invalid ${LOCK_FILENAME}: expected an object with a "sources" map`);
+  }
+  return { version: raw.version ?? LOCK_VERSION, sources: raw.sources };
+}
+
+export function saveLock(lock: Lockfile, configDir: string): void {
+  const lockPath = join(configDir, LOCK_FILENAME);
+  const sorted: Lockfile["sources"] = {};
+  for (const key of Object.keys(lock.sources).sort()) {
+    sorted[key] = lock.sources[key];
+  }
+  writeFileSync(
+    lockPath,
+    JSON.stringify({ version: LOCK_VERSION, sources: sorted }, null, 2) + "\n",
+    "utf-8",
+  );
+}
+
+export function loadSynced(configDir: string): Record<string, LockEntry> {
+  const syncedPath = join(configDir, SYNCED_FILENAME);
+  if (!existsSync(syncedPath)) return {};
+  try {
+    const raw = JSON.parse(readFileSync(syncedPath, "utf-8"));
+    return typeof raw?.sources === "object" && raw.sources !== null ? raw.sources : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveSynced(sources: Record<string, LockEntry>, configDir: string): void {
+  writeFileSync(join(configDir, SYNCED_FILENAME), JSON.stringify({ sources }, null, 2) + "\n", "utf-8");
+}
+
+export function hashContent(content: string | Buffer): string {
+  return "sha256-" + createHash("sha256").update(content).digest("hex");
+}
@@ -1,64 +1,116 @@
-import { readFileSync, writeFileSync, existsSync, readdirSync, statSync } from "node:fs";
-import { join, relative } from "node:path";
-import type { Manifest, ManifestEntry, RefdocsConfig } from "./types.js";
+import { readFileSync, writeFileSync, existsSync, readdirSync, statSync, lstatSync, realpathSync } from "node:fs";
+import { join, relative, dirname, basename, extname, sep } from "node:path";
+import { chunkDocument, indexChunks, persistSearchIndex } from "./search.js";
+import { hashContent } from "./lock.js";
+import { compactManifest, DEFAULT_BUDGET_MANIFEST } from "./budget.js";
+import { formatFilename, renderManifest } from "./formats.js";
+import { isPathIncluded } from "./glob.js";
+import { DEFAULT_FRONTMATTER_KEYS, extractMetadata, parseFrontmatter } from "./frontmatter.js";
+import type { Frontmatter } from "./frontmatter.js";
+import { isMdx, stripMdx } from "./mdx.js";
+import { DEFAULT_CHUNK_MAX_TOKENS, DEFAULT_CHUNK_MIN_TOKENS, extractHeadings, extractSectionTree } from "./sections.js";
+import type { ChunkOptions } from "./sections.js";
+import { convertExtensions, converterFormat, markdownPath, sourceFormat, syncGeneratedCopies } from "./convert.js";
+import type { SearchDocument } from "./search.js";
+import type {
+  BudgetedManifest,
+  ConvertFormat,
+  Manifest,
+  ManifestEntry,
+  ManifestFormat,
+  RefdocsConfig,
+  SearchChunk,
+} from "./types.js";
 
-export function findMarkdownFiles(dirs: string[], baseDir: string): string[] {
+export const MANIFEST_VERSION = 1;
+
+export function findMarkdownFiles(
+  dirs: string[],
+  baseDir: string,
+  filter?: (file: string) => boolean,
+  // Extensions of other formats to find, e.g. [".rst"]
+  extensions: string[] = [],
+): string[] {
   const files: string[] = [];
 
-  function walk(dir: string) {
-    if (!existsSync(dir)) return;
-    const entries = readdirSync(dir);
-    for (const entry of entries) {
+  // Symlinks are followed as long as they stay inside the configured
+  // directory; a directory already visited through another link is skipped,
+  // which also breaks cycles. Broken links are ignored.
+  function walk(dir: string, root: string, visited: Set<string>) {
+    let real: string;
+    try {
+      real = realpathSync(dir);
+    } catch {
+      return;
+    }
+    if (visited.has(real) || (real !== root && !real.startsWith(root + sep))) return;
+    visited.add(real);
+
+    for (const entry of readdirSync(dir)) {
       const fullPath = join(dir, entry);
-      const stat = statSync(fullPath);
+      let stat;
+      try {
+        stat = statSync(fullPath);
+      } catch {
+        continue;
+      }
       if (stat.isDirectory()) {
-        walk(fullPath);
-      } else if (entry.endsWith(".md") || entry.endsWith(".mdx") || entry.endsWith(".txt")) {
+        walk(fullPath, root, visited);
+      } else if (
+        entry.endsWith(".md") || entry.endsWith(".mdx") || entry.endsWith(".txt") ||
+        extensions.includes(extname(entry).toLowerCase())
+      ) {
+        if (lstatSync(fullPath).isSymbolicLink() && !isInsideRoot(fullPath, root)) continue;
         files.push(relative(baseDir, fullPath));
       }
     }
   }
 
   for (const dir of dirs) {
-    walk(join(baseDir, dir));
+    const fullPath = join(baseDir, dir);
+    if (!existsSync(fullPath)) continue;
+    // File sources register the downloaded file itself as a path
+    if (statSync(fullPath).isFile()) {
+      files.push(relative(baseDir, fullPath));
+    } else {
+      walk(fullPath, realpathSync(fullPath), new Set());
+    }
   }
 
-  return [...new Set(files)].sort();
+  const unique = [...new Set(files)].sort();
+  return filter ? unique.filter(filter) : unique;
 }
 
-export function extractHeadings(content: string): string[] {
-  const headings: string[] = [];
-  for (const line of content.split("\n")) {
-    const match = line.match(/^#{1,3}\s+(.+)/);
-    if (match) {
-      headings.push(match[1].trim());
-    }
-  }
-  return headings;
+function isInsideRoot(path: string, root: string): boolean {
+  const real = realpathSync(path);
+  return real.startsWith(root + sep);
 }
 
-export function extractSummary(content: string): string {
+// Files in a `convert` format are filtered by the path of their markdown
+export function findCatalogedFiles(
+  config: RefdocsConfig,
+  configDir: string,
+  formats: ConvertFormat[] = config.convert ?? [],
+): string[] {
+  const included = (file: string) => isPathIncluded(converterFormat(file, formats) ? markdownPath(file) : file, config);
+  return findMarkdownFiles(config.paths, configDir, included, convertExtensions(formats));
+}
+
+export function extractSummary(content: string, frontmatter: Frontmatter = parseFrontmatter(content)): string {
   // Try frontmatter description first
-  const fmMatch = content.match(/^---\n([\s\S]*?)\n---/);
-  if (fmMatch) {
-    const descMatch = fmMatch[1].match(/^description:\s*["']?(.+?)["']?\s*$/m);
-    if (descMatch) {
-      return descMatch[1].trim();
-    }
+  const description = frontmatter.data.description;
+  if (typeof description === "string" && description.trim()) {
+    return description.trim();
   }
 
   // Fall back to first non-empty, non-heading paragraph
-  const lines = content.split("\n");
-  let inFrontmatter = false;
+  const lines = content.split("\n").slice(frontmatter.lines);
   for (const line of lines) {
-    if (line.trim() === "---") {
-      inFrontmatter = !inFrontmatter;
-      continue;
-    }
-    if (inFrontmatter) continue;
     const trimmed = line.trim();
     if (!trimmed) continue;
     if (trimmed.startsWith("#")) continue;
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) continue;
+    if (trimmed.startsWith("<!--")) continue;
     // Return first meaningful line, truncated if long
     return trimmed.length > 200 ? trimmed.slice(0, 200) + "..." : trimmed;
   }
@@ -66,25 +118,101 @@ export function extractSummary(content: string): string {
   return "";
 }
 
-export function buildManifestEntry(file: string, content: string): ManifestEntry {
+export interface EntryOptions extends ChunkOptions {
+  // Frontmatter keys to carry into the entry (see DEFAULT_FRONTMATTER_KEYS)
+  frontmatter?: string[];
+}
+
+export function buildManifestEntry(file: string, content: string, options: EntryOptions = {}): ManifestEntry {
+  // Stripping MDX leaves the frontmatter block as it is, so one parse serves both
+  const frontmatter = parseFrontmatter(content);
+  const text = isMdx(file) ? stripMdx(content, frontmatter) : content;
+  const format = sourceFormat(text, frontmatter);
   return {
     file,
-    headings: extractHeadings(content),
-    lines: content.split("\n").length,
-    summary: extractSummary(content),
+    ...extractMetadata(frontmatter.data, options.frontmatter),
+    ...(format ? { format } : {}),
+    headings: extractHeadings(text, frontmatter),
+    lines: text.split("\n").length,
+    summary: extractSummary(text, frontmatter),
+    sections: extractSectionTree(text, options, frontmatter),
   };
 }
 
-export function buildManifest(config: RefdocsConfig, configDir: string): Manifest {
-  const files = findMarkdownFiles(config.paths, configDir);
-  const entries: ManifestEntry[] = [];
+export const CACHE_FILENAME = "cache.json";
+const CACHE_VERSION = 6;
 
-  for (const file of files) {
-    const content = readFileSync(join(configDir, file), "utf-8");
-    entries.push(buildManifestEntry(file, content));
+export interface BuildOptions {
+  full?: boolean;
+  budget?: number;
+  formats?: ManifestFormat[];
+}
+
+export interface ManifestChanges {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+export interface ManifestBuild {
+  manifest: Manifest;
+  changes: ManifestChanges;
+  // Extra outputs written besides the JSON manifest, relative to the config dir
+  outputs: string[];
+  budgeted?: BudgetedManifest;
+}
+
+interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+  entry: ManifestEntry;
+  chunks: SearchChunk[];
+}
+
+interface ManifestCache {
+  version: number;
+  // Parsing settings the cached entries were built with; a mismatch invalidates them
+  settings: string;
+  files: Record<string, CachedFile>;
+  // Copies written next to .mdx and converted originals (see syncGeneratedCopies)
+  copies?: string[];
+}
+
+function cacheSettings(config: RefdocsConfig): string {
+  return JSON.stringify([
+    config.chunkMinTokens ?? DEFAULT_CHUNK_MIN_TOKENS,
+    config.chunkMaxTokens ?? DEFAULT_CHUNK_MAX_TOKENS,
+    config.frontmatter ?? DEFAULT_FRONTMATTER_KEYS,
+  ]);
+}
+
+function loadCache(configDir: string, settings: string): ManifestCache {
+  const empty: ManifestCache = { version: CACHE_VERSION, settings, files: {} };
+  const cachePath = join(configDir, CACHE_FILENAME);
+  if (!existsSync(cachePath)) return empty;
+  try {
+    const cache = JSON.parse(readFileSync(cachePath, "utf-8")) as ManifestCache;
+    if (cache.version !== CACHE_VERSION || typeof cache.files !== "object" || cache.files === null) {
+      return empty;
+    }
+    return cache;
+  } catch {
+    // A corrupt cache only costs a full rebuild
+    return empty;
   }
+}
 
+function readDocuments(config: RefdocsConfig, configDir: string): SearchDocument[] {
+  return findCatalogedFiles(config, configDir).map((file) => ({
+    file,
+    content: readFileSync(join(configDir, file), "utf-8"),
+  }));
+}
+
+function manifestFromEntries(config: RefdocsConfig, entries: ManifestEntry[]): Manifest {
   return {
+    version: MANIFEST_VERSION,
     generated: new Date().toISOString(),
     sources: (config.sources ?? []).length,
     files: entries.length,
@@ -92,16 +220,118 @@ export function buildManifest(config: RefdocsConfig, configDir: string): Manifes
   };
 }
 
-export function buildAndPersistManifest(config: RefdocsConfig, configDir: string): Manifest {
-  const manifest = buildManifest(config, configDir);
+export function buildManifest(config: RefdocsConfig, configDir: string): Manifest {
+  const entries = readDocuments(config, configDir).map((doc) => buildManifestEntry(doc.file, doc.content, config));
+  return manifestFromEntries(config, entries);
+}
+
+export function buildAndPersistManifest(
+  config: RefdocsConfig,
+  configDir: string,
+  options: BuildOptions = {},
+): ManifestBuild {
+  const settings = cacheSettings(config);
+  const previous = loadCache(configDir, settings);
+  // Reuse cached parses only when they were built with the same settings
+  const reusable = options.full || previous.settings !== settings ? {} : previous.files;
+
+  const next: ManifestCache = { version: CACHE_VERSION, settings, files: {} };
+  const changes: ManifestChanges = { added: [], changed: [], removed: [] };
+
+  // Only enabled formats are looked at; copies of formats turned off since are
+  // found through the copies the last build recorded
+  const generated = syncGeneratedCopies(findCatalogedFiles(config, configDir), configDir, {
+    mdxCopies: config.mdxCopies,
+    convert: config.convert,
+    copies: previous.copies,
+  });
+  next.copies = generated.copies;
+  const files = generated.files;
+  for (const file of files) {
+    const fullPath = join(configDir, file);
+    const stat = statSync(fullPath);
+    const mtimeMs = Math.trunc(stat.mtimeMs);
+    const cached = reusable[file];
+
+    if (cached && cached.mtimeMs === mtimeMs && cached.size === stat.size) {
+      next.files[file] = cached;
+      continue;
+    }
+
+    const content = readFileSync(fullPath, "utf-8");
+    const hash = hashContent(content);
+    const before = previous.files[file];
+
+    if (cached && cached.hash === hash) {
+      next.files[file] = { ...cached, mtimeMs, size: stat.size };
+      continue;
+    }
+
+    next.files[file] = {
+      mtimeMs,
+      size: stat.size,
+      hash,
+      entry: buildManifestEntry(file, content, config),
+      chunks: chunkDocument(file, content),
+    };
+
+    if (!before) {
+      changes.added.push(file);
+    } else if (before.hash !== hash) {
+      changes.changed.push(file);
+    }
+  }
+
+  for (const file of Object.keys(previous.files)) {
+    if (!next.files[file]) changes.removed.push(file);
+  }
+
+  const cachedFiles = Object.values(next.files);
+  const manifest = manifestFromEntries(config, cachedFiles.map((f) => f.entry));
   const manifestPath = join(configDir, config.manifest);
   writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + "\n", "utf-8");
-  return manifest;
+  persistSearchIndex(indexChunks(cachedFiles.flatMap((f) => f.chunks), config.boostFields), config, configDir);
+  writeFileSync(join(configDir, CACHE_FILENAME), JSON.stringify(next) + "\n", "utf-8");
+
+  // The JSON manifest is always written since list, read and later
+  // incremental builds rely on it; other formats are extra outputs
+  const title = basename(dirname(configDir));
+  const outputs: string[] = [];
+  for (const format of options.formats ?? config.formats ?? []) {
+    if (format === "json") continue;
+    const filename = formatFilename(format, config);
+    writeFileSync(join(configDir, filename), renderManifest(format, manifest, config, title), "utf-8");
+    outputs.push(filename);
+  }
+
+  const budget = options.budget ?? config.budget;
+  if (budget === undefined) {
+    return { manifest, changes, outputs };
+  }
+
+  const budgeted = compactManifest(manifest, budget);
+  writeFileSync(
+    join(configDir, config.budgetManifest ?? DEFAULT_BUDGET_MANIFEST),
+    JSON.stringify(budgeted) + "\n",
+    "utf-8",
+  );
+  return { manifest, changes, outputs, budgeted };
 }
 
 export function loadManifest(manifestPath: string): Manifest {
   if (!existsSync(manifestPath)) {
     throw new Error("Manifest not found. Run `refdocs manifest` first.");
   }
-  return JSON.parse(readFileSync(manifestPath, "utf-8"));
+  const raw = JSON.parse(readFileSync(manifestPath, "utf-8"));
+  if (typeof raw !== "object" || raw === null || !Array.isArray(raw.entries)) {
+    throw new Error(`Invalid manifest at ${manifestPath}. Run \`refdocs manifest\` to rebuild it.`);
+  }
+  const version = raw.version ?? 0;
+  if (version > MANIFEST_VERSION) {
+    throw new Error(
+      `Manifest at ${manifestPath} is version ${version}, but this refdocs only reads up to version ${MANIFEST_VERSION}. Upgrade refdocs or run \`refdocs manifest\` to rebuild it.`
+    );
+  }
+  // Version 0 manifests only lacked the version field
+  return { ...raw, version: MANIFEST_VERSION };
 }
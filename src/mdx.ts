@@ -0,0 +1,98 @@
+import { parseFrontmatter } from "./frontmatter.js";
+import type { Frontmatter } from "./frontmatter.js";
+import { nextFence } from "./sections.js";
+import type { Fence } from "./sections.js";
+
+const ESM = /^(import|export)\s/;
+// Opening, closing or self-closing tag of a JSX component (capitalized) or a
+// fragment; plain HTML is left alone
+const TAG = String.raw`<\/?[A-Z][\w.]*(?:\s(?:[^<>{}]|\{[^{}]*\})*)?\/?>|<\/?>`;
+const COMPONENT_TAG = new RegExp(TAG, "g");
+const TAG_ONLY_LINE = new RegExp(String.raw`^\s*(?:(?:${TAG})\s*)+$`);
+// A component tag whose attributes continue on the next lines
+const OPEN_TAG_START = /^\s*<[A-Z][\w.]*(\s[^>]*)?$/;
+// Docusaurus / Starlight admonitions: `:::note`, `:::tip[Title]`, `:::caution Title`, `:::`
+const ADMONITION = /^\s*:::+\s*([\w-]*)(?:\[(.*)\]|\s+(.*))?\s*$/;
+const JSX_COMMENT = /^\s*\{\/\*.*\*\/\}\s*$/;
+
+export function isMdx(file: string): boolean {
+  return file.toLowerCase().endsWith(".mdx");
+}
+
+// The text a component tag stands for: its label or title, if it has one
+function tagText(line: string): string {
+  const match = line.match(/\s(?:label|title)=(?:"([^"]*)"|'([^']*)'|\{["'`]([^"'`]*)["'`]\})/);
+  return (match?.[1] ?? match?.[2] ?? match?.[3] ?? "").trim();
+}
+
+/**
+ * Reduces MDX to the markdown inside it, line for line so that line numbers
+ * still point into the original file: ESM import/export blocks and JSX
+ * comments become blank lines, component tags are dropped (keeping a tab's
+ * label or a callout's title), and admonition fences keep only their title.
+ * Fenced code and frontmatter are untouched.
+ */
+export function stripMdx(content: string, frontmatter: Frontmatter = parseFrontmatter(content)): string {
+  const lines = content.split("\n");
+  let fence: Fence | null = null;
+  let inEsm = false;
+  // Inside a component tag that spans several lines
+  let openTag: string[] | null = null;
+
+  for (let i = frontmatter.lines; i < lines.length; i++) {
+    const line = lines[i];
+    // Fence lines and everything between them are left as they are
+    const next = nextFence(line, fence);
+    if (fence || next) {
+      fence = next;
+      continue;
+    }
+
+    // ESM blocks run until the next blank line
+    if (inEsm || ESM.test(line)) {
+      inEsm = line.trim() !== "";
+      lines[i] = "";
+      continue;
+    }
+
+    if (openTag) {
+      openTag.push(line);
+      lines[i] = "";
+      if (line.includes(">")) {
+        lines[i] = tagText(openTag.join(" "));
+        openTag = null;
+      }
+      continue;
+    }
+    if (OPEN_TAG_START.test(line)) {
+      openTag = [line];
+      lines[i] = "";
+      continue;
+    }
+
+    if (JSX_COMMENT.test(line)) {
+      lines[i] = "";
+      continue;
+    }
+    const admonition = line.match(ADMONITION);
+    if (admonition) {
+      lines[i] = (admonition[2] ?? admonition[3] ?? "").trim();
+      continue;
+    }
+    if (TAG_ONLY_LINE.test(line)) {
+      lines[i] = tagText(line);
+      continue;
+    }
+    lines[i] = line.replace(COMPONENT_TAG, "");
+  }
+  return lines.join("\n");
+}
+
+// The readable copy: stripped MDX with runs of blank lines collapsed
+export function cleanMdx(content: string): string {
+  const frontmatter = parseFrontmatter(content);
+  const stripped = stripMdx(content, frontmatter).split("\n");
+  const frontmatterLines = frontmatter.lines;
+  const body = stripped.slice(frontmatterLines).join("\n").replace(/\n{3,}/g, "\n\n").trim();
+  return [...stripped.slice(0, frontmatterLines), body, ""].join("\n");
+}
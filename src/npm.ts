@@ -0,0 +1,152 @@
+import { existsSync, lstatSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, relative } from "node:path";
+import { request } from "./http.js";
+
+const NPM_PREFIX = "npm:";
+const REGISTRY_URL = "https://registry.npmjs.org";
+// Valid npm package names, scoped or not
+const PACKAGE_NAME = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i;
+// The files of a package that are cataloged: its README and bundled docs
+const PACKAGE_DOC = /^(readme\.mdx?|(docs?|documentation)\/.+\.mdx?)$/i;
+
+export interface InstalledPackage {
+  dir: string;
+  version: string;
+}
+
+export interface PackageDocument {
+  path: string;
+  content: string;
+}
+
+export interface PackageRepository {
+  owner: string;
+  repo: string;
+  // Directory of the package within a monorepo
+  directory: string;
+}
+
+export function isNpmSpec(spec: string): boolean {
+  return spec.startsWith(NPM_PREFIX);
+}
+
+// The package name of an `npm:<package>` spec
+export function parseNpmSpec(spec: string): string {
+  const name = spec.slice(NPM_PREFIX.length).trim();
+  if (/.@/.test(name)) {
+    throw new Error(`Invalid npm source "${spec}": the version comes from node_modules or package-lock.json, so leave it out`);
+  }
+  if (!PACKAGE_NAME.test(name)) {
+    throw new Error(`Invalid npm package name in "${spec}"`);
+  }
+  return name;
+}
+
+export function isPackageDoc(path: string): boolean {
+  return PACKAGE_DOC.test(path);
+}
+
+function readJson(path: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8"));
+    return typeof parsed === "object" && parsed !== null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds a package the way Node resolves it: in `node_modules` of the project
+ * directory or of any directory above it, so hoisted workspace dependencies
+ * are found too.
+ */
+export function findInstalledPackage(name: string, projectDir: string): InstalledPackage | undefined {
+  for (let dir = projectDir; ; dir = dirname(dir)) {
+    const packageDir = join(dir, "node_modules", name);
+    const version = readJson(join(packageDir, "package.json"))?.version;
+    if (typeof version === "string") return { dir: packageDir, version };
+    if (dirname(dir) === dir) return undefined;
+  }
+}
+
+// The version package-lock.json pins a direct dependency to (lockfile v1 to v3)
+export function lockedPackageVersion(name: string, projectDir: string): string | undefined {
+  const lock = readJson(join(projectDir, "package-lock.json"));
+  const packages = lock?.packages as Record<string, { version?: unknown }> | undefined;
+  const dependencies = lock?.dependencies as Record<string, { version?: unknown }> | undefined;
+  const version = packages?.[`node_modules/${name}`]?.version ?? dependencies?.[name]?.version;
+  return typeof version === "string" ? version : undefined;
+}
+
+// Names of the dependencies package.json declares, sorted
+export function packageDependencies(projectDir: string, options: { dev?: boolean } = {}): string[] {
+  const path = join(projectDir, "package.json");
+  if (!existsSync(path)) {
+    throw new Error(`No package.json found in ${projectDir}`);
+  }
+  const manifest = readJson(path);
+  if (!manifest) {
+    throw new Error(`Invalid JSON in ${path}`);
+  }
+  const fields = ["dependencies", "optionalDependencies", ...(options.dev ? ["devDependencies"] : [])];
+  const names = fields.flatMap((field) => Object.keys((manifest[field] as Record<string, string> | undefined) ?? {}));
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Reads the README and the markdown under `docs/`, `doc/` or `documentation/`
+ * of an installed package. Symlinks and nested `node_modules` are skipped.
+ */
+export function collectPackageDocs(packageDir: string, maxFileBytes: number): PackageDocument[] {
+  const documents: PackageDocument[] = [];
+  function walk(dir: string) {
+    for (const entry of readdirSync(dir)) {
+      const fullPath = join(dir, entry);
+      if (entry === "node_modules" || lstatSync(fullPath).isSymbolicLink()) continue;
+      const path = relative(packageDir, fullPath).split("\\").join("/");
+      if (statSync(fullPath).isDirectory()) {
+        if (/^(docs?|documentation)(\/|$)/i.test(path)) walk(fullPath);
+      } else if (isPackageDoc(path) && statSync(fullPath).size <= maxFileBytes) {
+        documents.push({ path, content: readFileSync(fullPath, "utf-8") });
+      }
+    }
+  }
+  walk(packageDir);
+  return documents.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Reads a GitHub repository out of a package.json `repository` field: a
+ * shorthand (`owner/repo`, `github:owner/repo`), a git URL, or an object
+ * with `url` and `directory`. Other hosts return undefined.
+ */
+export function parseRepository(field: unknown): PackageRepository | undefined {
+  const url = typeof field === "string" ? field : (field as { url?: unknown } | undefined)?.url;
+  const directory = (field as { directory?: unknown } | undefined)?.directory;
+  if (typeof url !== "string") return undefined;
+
+  const match = url.match(/^(?:github:)?([\w.-]+)\/([\w.-]+)$/)
+    ?? url.match(/github\.com[/:]([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:[#/].*)?$/);
+  if (!match) return undefined;
+  return {
+    owner: match[1],
+    repo: match[2].replace(/\.git$/, ""),
+    directory: typeof directory === "string" ? directory.replace(/^\.?\/+|\/+$/g, "") : "",
+  };
+}
+
+// The registry's package.json of one published version
+export async function fetchPackageManifest(name: string, version: string): Promise<Record<string, unknown>> {
+  const url = `${REGISTRY_URL}/${name.replace("/", "%2f")}/${version}`;
+  const response = await request(url, { headers: { Accept: "application/json" }, redirect: "follow" });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`npm registry returned HTTP ${response.status} for ${name}@${version}`);
+  }
+  return (await response.json()) as Record<string, unknown>;
+}
+
+// Tags a release of `version` is commonly published under
+export function versionTags(name: string, version: string): string[] {
+  return [`v${version}`, version, `${name}@${version}`];
+}
@@ -0,0 +1,124 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { extractSectionTree, estimateTokens } from "./sections.js";
+import type { ManifestSection } from "./types.js";
+
+export interface ReadOptions {
+  lines?: string;
+  maxTokens?: number;
+}
+
+export interface ReadResult {
+  file: string;
+  breadcrumb: string[];
+  startLine: number;
+  endLine: number;
+  content: string;
+  truncated: boolean;
+}
+
+export function parseReadTarget(target: string): { file: string; slug?: string } {
+  const hash = target.lastIndexOf("#");
+  if (hash === -1) return { file: target };
+  return { file: target.slice(0, hash), slug: target.slice(hash + 1) || undefined };
+}
+
+export function parseLineRange(range: string): { start: number; end?: number } {
+  const match = range.trim().match(/^(\d+)(?:-(\d*))?$/);
+  if (!match) {
+    throw new Error(`Invalid --lines "${range}". Expected a range like 10-40 or 10-.`);
+  }
+  const start = Number(match[1]);
+  const end = match[2] === undefined ? start : match[2] === "" ? undefined : Number(match[2]);
+  if (start < 1 || (end !== undefined && end < start)) {
+    throw new Error(`Invalid --lines "${range}". Lines are 1-based and the end must not precede the start.`);
+  }
+  return { start, end };
+}
+
+export function resolveDocFile(files: string[], input: string): string {
+  const normalized = input.replace(/^\.\//, "").replace(/\\/g, "/");
+  if (files.includes(normalized)) return normalized;
+
+  const matches = files.filter((f) => f.endsWith("/" + normalized));
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) {
+    throw new Error(
+      `"${input}" matches multiple files: ${matches.join(", ")}. Use a longer path.`
+    );
+  }
+  throw new Error(`File "${input}" not found in manifest. Run \`refdocs list\` to see cataloged files.`);
+}
+
+function flatten(sections: ManifestSection[], trail: string[] = []): Array<{ section: ManifestSection; trail: string[] }> {
+  return sections.flatMap((section) => {
+    const path = [...trail, section.heading];
+    return [{ section, trail: path }, ...flatten(section.children ?? [], path)];
+  });
+}
+
+export function readDoc(
+  file: string,
+  slug: string | undefined,
+  configDir: string,
+  options: ReadOptions = {},
+): ReadResult {
+  if (slug && options.lines) {
+    throw new Error("Use either #heading or --lines, not both.");
+  }
+
+  const content = readFileSync(join(configDir, file), "utf-8");
+  const lines = content.split("\n");
+  // Resolve against every heading in the current file, not the (possibly
+  // collapsed or stale) manifest tree
+  const sections = flatten(extractSectionTree(content, { chunkMinTokens: 0, chunkMaxTokens: 0 }));
+
+  let startLine = 1;
+  let endLine = lines.length;
+  let breadcrumb: string[] = [];
+
+  if (slug) {
+    const match = sections.find((s) => s.section.slug === slug);
+    if (!match) {
+      const available = sections.map((s) => s.section.slug).join(", ");
+      throw new Error(`Section "#${slug}" not found in ${file}.${available ? ` Available: ${available}` : ""}`);
+    }
+    ({ startLine, endLine } = match.section);
+    breadcrumb = match.trail;
+  } else if (options.lines) {
+    const range = parseLineRange(options.lines);
+    startLine = Math.min(range.start, lines.length);
+    endLine = Math.min(range.end ?? lines.length, lines.length);
+    const enclosing = sections.filter(
+      (s) => s.section.startLine <= startLine && s.section.endLine >= startLine,
+    );
+    breadcrumb = enclosing.length > 0 ? enclosing[enclosing.length - 1].trail : [];
+  }
+
+  let selected = lines.slice(startLine - 1, endLine);
+  let truncated = false;
+
+  if (options.maxTokens !== undefined) {
+    let used = 0;
+    let keep = 0;
+    for (const line of selected) {
+      const cost = estimateTokens(line + "\n");
+      if (used + cost > options.maxTokens) break;
+      used += cost;
+      keep++;
+    }
+    if (keep < selected.length) {
+      selected = selected.slice(0, keep);
+      truncated = true;
+    }
+  }
+
+  return {
+    file,
+    breadcrumb,
+    startLine,
+    endLine: truncated ? startLine + selected.length - 1 : endLine,
+    content: selected.join("\n"),
+    truncated,
+  };
+}
@@ -0,0 +1,132 @@
+// Characters docutils accepts for section underlines
+const ADORNMENT = /^([!-/:-@[-`{-~])\1{2,}\s*$/;
+const DIRECTIVE = /^(\s*)\.\.\s+([\w:-]+)::\s*(.*)$/;
+const COMMENT = /^(\s*)\.\.(\s|$)/;
+const CODE_DIRECTIVES = new Set(["code", "code-block", "sourcecode"]);
+const ADMONITIONS = new Set(["note", "tip", "hint", "important", "warning", "caution", "danger", "attention", "error", "seealso"]);
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// Index of the first line after the block indented deeper than `indent`
+// that starts at `start`; blank lines inside the block belong to it
+function blockEnd(lines: string[], start: number, indent: number): number {
+  let end = start;
+  for (let i = start; i < lines.length; i++) {
+    if (lines[i].trim() === "") continue;
+    if (indentOf(lines[i]) <= indent) break;
+    end = i + 1;
+  }
+  return end;
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim()).map(indentOf);
+  const min = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(min));
+}
+
+// ``literal``, :role:`text`, `link <url>`_ and `reference`_ in one pass, so
+// that the backticks of converted literals aren't matched again
+const INLINE = /``([^`]+)``|:[\w:-]+:`([^`]+)`|`([^`]+)`_{0,2}/g;
+
+function inline(text: string): string {
+  return text.replace(INLINE, (_, literal?: string, role?: string, reference = "") => {
+    if (literal !== undefined) return `\`${literal}\``;
+    if (role !== undefined) return `\`${role.replace(/\s*<[^>]*>$/, "")}\``;
+    const link = reference.match(/^(.*?)\s*<([^>]+)>$/);
+    return link ? `[${link[1] || link[2]}](${link[2]})` : reference;
+  });
+}
+
+function title(name: string): string {
+  return name === "seealso" ? "See also" : name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Converts reStructuredText to markdown. Section levels follow the order in
+ * which underline styles first appear, as in docutils; code directives and
+ * `::` literal blocks become fenced code, admonitions become quotes, and
+ * other directives and comments are dropped.
+ */
+export function rstToMarkdown(content: string): string {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  const out: string[] = [];
+  const styles: string[] = [];
+  const heading = (text: string, style: string): void => {
+    if (!styles.includes(style)) styles.push(style);
+    out.push(`${"#".repeat(Math.min(styles.indexOf(style) + 1, 6))} ${inline(text.trim())}`, "");
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const next = lines[i + 1] ?? "";
+
+    // Overlined title: adornment, text, the same adornment
+    if (ADORNMENT.test(line) && next.trim() && ADORNMENT.test(lines[i + 2] ?? "") && lines[i + 2].trim()[0] === line.trim()[0]) {
+      heading(next, `over${line.trim()[0]}`);
+      i += 3;
+      continue;
+    }
+    if (line.trim() && !ADORNMENT.test(line) && indentOf(line) === 0 && ADORNMENT.test(next) && next.trim().length >= line.trim().length) {
+      heading(line, next.trim()[0]);
+      i += 2;
+      continue;
+    }
+    // A transition
+    if (ADORNMENT.test(line)) {
+      out.push("---");
+      i++;
+      continue;
+    }
+
+    const directive = line.match(DIRECTIVE);
+    if (directive) {
+      const [, indentText, name, argument] = directive;
+      const indent = indentText.length;
+      const end = blockEnd(lines, i + 1, indent);
+      // Options (`:linenos:`) come first in the body
+      const body = lines.slice(i + 1, end);
+      const options = body.findIndex((l) => !/^\s*:[\w-]+:/.test(l));
+      const text = dedent(options === -1 ? [] : body.slice(options));
+
+      if (CODE_DIRECTIVES.has(name)) {
+        out.push(`\`\`\`${argument.trim()}`, text.join("\n").replace(/^\n+|\s+$/g, ""), "```");
+      } else if (ADMONITIONS.has(name) || name === "admonition") {
+        const label = name === "admonition" ? argument.trim() : title(name);
+        const quoted = [name === "admonition" ? "" : argument.trim(), ...text].join("\n").trim();
+        out.push(`${indentText}> **${label}:** ${inline(quoted).split("\n").join(`\n${indentText}> `)}`);
+      } else if (name === "image" || name === "figure") {
+        const alt = body.map((l) => l.match(/^\s*:alt:\s*(.*)$/)?.[1]).find(Boolean) ?? "";
+        out.push(`${indentText}![${alt}](${argument.trim()})`);
+      }
+      i = end;
+      continue;
+    }
+    if (COMMENT.test(line)) {
+      i = blockEnd(lines, i + 1, indentOf(line));
+      continue;
+    }
+
+    // A paragraph ending in `::` introduces an indented literal block
+    if (line.trimEnd().endsWith("::")) {
+      const start = lines.findIndex((l, n) => n > i && l.trim() !== "");
+      const end = start === -1 ? i + 1 : blockEnd(lines, start, indentOf(line));
+      const text = line.trimEnd().slice(0, -2).trimEnd();
+      const lead = text.trim() === "" ? "" : `${inline(text)}:`;
+      if (lead) out.push(lead);
+      if (start !== -1 && end > start) {
+        out.push("", "```", dedent(lines.slice(start, end)).join("\n").trimEnd(), "```");
+      }
+      i = Math.max(end, i + 1);
+      continue;
+    }
+
+    // `#.` is an auto-numbered list item
+    out.push(inline(line.replace(/^(\s*)#\.\s/, "$11. ")));
+    i++;
+  }
+  return out.join("\n").replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
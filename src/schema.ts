@@ -0,0 +1,321 @@
+import { CONVERT_FORMATS, MANIFEST_FORMATS } from "./constants.js";
+import { CREDENTIAL_HELPERS } from "./credentials.js";
+
+export const CONFIG_SCHEMA_URL = "https://raw.githubusercontent.com/dynamik-dev/refdoc-cli/main/config.schema.json";
+
+type Field =
+  | { type: "string"; description?: string; enum?: readonly string[]; pattern?: string; message?: string }
+  | { type: "integer"; minimum: 0 | 1; description?: string }
+  | { type: "number"; description?: string }
+  | { type: "boolean"; description?: string }
+  | { type: "array"; items: Field; description?: string }
+  | ObjectField
+  | { type: "union"; discriminator: string; variants: Record<string, ObjectField>; description?: string };
+
+interface ObjectField {
+  type: "object";
+  properties: Record<string, Field>;
+  required?: string[];
+  description?: string;
+}
+
+export interface SchemaIssue {
+  // JSON pointer to the offending value, e.g. "/sources/0/owner"; "" for the root
+  pointer: string;
+  message: string;
+}
+
+export interface SchemaResult {
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+const string = (description?: string): Field => ({ type: "string", description });
+const strings = (description?: string): Field => ({ type: "array", items: { type: "string" }, description });
+const count = (minimum: 0 | 1, description?: string): Field => ({ type: "integer", minimum, description });
+
+// Files are written to and deleted from localPath, so it has to stay inside
+// .refdocs/: no absolute paths, no ".." segments and not .refdocs/ itself
+const localPath: Field = {
+  type: "string",
+  description: "Where the files are written, relative to .refdocs/",
+  pattern: String.raw`^(?![/\\]|[A-Za-z]:)(?!\.?[/\\]*$)(?!(?:.*[/\\])?\.\.(?:[/\\]|$))`,
+  message: "must be a relative path inside .refdocs/",
+};
+
+function sourceVariant(properties: Record<string, Field>, required: string[]): ObjectField {
+  return {
+    type: "object",
+    properties: {
+      ...properties,
+      localPath,
+      include: strings("Globs, relative to localPath, of files to keep"),
+      exclude: strings("Globs, relative to localPath, of files to skip"),
+      addedAt: string("ISO 8601 timestamp of when the source was added"),
+    },
+    required: [...required, "localPath", "addedAt"],
+  };
+}
+
+const repo = { url: string(), branch: string(), subpath: string("Directory within the repository to download") };
+const repoRequired = ["url", "branch", "subpath"];
+// git would read a leading "-" as an option
+const gitUrl: Field = { type: "string", description: "Clone URL", pattern: "^[^-]", message: "must not start with \"-\"" };
+
+const CONFIG_FIELDS: ObjectField = {
+  type: "object",
+  properties: {
+    $schema: string("JSON Schema used by editors to validate this file"),
+    version: count(0, "Config schema version"),
+    paths: strings("Directories (or files) to catalog, relative to .refdocs/"),
+    include: strings("Globs of cataloged files to keep"),
+    exclude: strings("Globs of cataloged files to skip"),
+    manifest: string("Manifest filename, relative to .refdocs/"),
+    index: string("Search index filename, relative to .refdocs/"),
+    boostFields: {
+      type: "object",
+      description: "Search score weight of each field",
+      properties: { title: { type: "number" }, headings: { type: "number" }, body: { type: "number" } },
+    },
+    chunkMinTokens: count(0, "Sections smaller than this are merged into their parent"),
+    chunkMaxTokens: count(0, "Sections larger than this are split"),
+    budget: count(0, "Token budget of the compact manifest"),
+    budgetManifest: string("Compact manifest filename, relative to .refdocs/"),
+    formats: {
+      type: "array",
+      description: "Extra manifest formats to write",
+      items: { type: "string", enum: MANIFEST_FORMATS },
+    },
+    frontmatter: strings("Frontmatter keys carried into manifest entries"),
+    mdxCopies: { type: "boolean", description: "Write a cleaned .md copy next to each .mdx file and catalog that instead" },
+    convert: {
+      type: "array",
+      description: "Formats converted to markdown when downloaded or cataloged",
+      items: { type: "string", enum: CONVERT_FORMATS },
+    },
+    concurrency: count(1, "Sources fetched at once by update and install"),
+    maxArchiveMB: count(1, "Largest repository archive to download, in MB"),
+    maxFileMB: count(1, "Largest single file to extract from an archive, in MB"),
+    timeout: count(1, "Seconds to wait for a response before retrying"),
+    retries: count(0, "Extra attempts after a failed request"),
+    caFile: string("PEM file with extra certificate authorities, relative to .refdocs/"),
+    credentials: {
+      type: "array",
+      description: "Where to find tokens for private sources",
+      items: {
+        type: "object",
+        properties: {
+          host: string(),
+          owner: string("Owner, group or workspace the rule is limited to"),
+          from: {
+            type: "string",
+            pattern: `^(env:[A-Za-z_][A-Za-z0-9_]*|${CREDENTIAL_HELPERS.join("|")})$`,
+            message: `must be "env:NAME" or one of: ${CREDENTIAL_HELPERS.join(", ")}`,
+          },
+        },
+        required: ["host", "from"],
+      },
+    },
+    sources: {
+      type: "array",
+      description: "Sources added with refdocs add",
+      items: {
+        type: "union",
+        discriminator: "type",
+        variants: {
+          github: sourceVariant({ ...repo, owner: string(), repo: string() }, [...repoRequired, "owner", "repo"]),
+          gitlab: sourceVariant({ ...repo, host: string(), project: string() }, [...repoRequired, "host", "project"]),
+          bitbucket: sourceVariant({ ...repo, workspace: string(), repo: string() }, [...repoRequired, "workspace", "repo"]),
+          git: sourceVariant({ ...repo, url: gitUrl }, repoRequired),
+          file: sourceVariant(
+            { url: string(), split: { type: "boolean", description: "Split an llms-full.txt bundle into one file per page" } },
+            ["url"],
+          ),
+          web: sourceVariant(
+            {
+              url: string("Page the crawl starts from"),
+              prefix: string("Path prefix that crawled pages must be under"),
+              maxPages: count(1, "Most pages to crawl"),
+            },
+            ["url", "prefix"],
+          ),
+          npm: sourceVariant(
+            {
+              url: string("npm:<package>"),
+              package: string("Package name, as in package.json"),
+              dependency: { type: "boolean", description: "Added by `refdocs sync-deps`, which removes it once the package is no longer a dependency" },
+            },
+            ["url", "package"],
+          ),
+        },
+      },
+    },
+  },
+};
+
+function pointerTo(parent: string, key: string | number): string {
+  return `${parent}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeMessage(field: Field): string {
+  switch (field.type) {
+    case "string":
+      return "must be a string";
+    case "integer":
+      return field.minimum === 0 ? "must be a non-negative integer" : "must be a positive integer";
+    case "number":
+      return "must be a number";
+    case "boolean":
+      return "must be a boolean";
+    case "array":
+      return "must be an array";
+    default:
+      return "must be an object";
+  }
+}
+
+// Levenshtein distance, for "did you mean" hints on misspelled keys
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function unknownKeyMessage(key: string, known: string[]): string {
+  const guess = known.find((k) => distance(key.toLowerCase(), k.toLowerCase()) <= 2);
+  return `is not a known key${guess ? ` (did you mean "${guess}"?)` : ""}`;
+}
+
+function check(value: unknown, field: Field, pointer: string, result: SchemaResult): void {
+  const error = (message: string, at = pointer): void => {
+    result.errors.push({ pointer: at, message });
+  };
+
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") return error(typeMessage(field));
+      if (field.enum && !field.enum.includes(value)) return error(`must be one of: ${field.enum.join(", ")}`);
+      if (field.pattern && !new RegExp(field.pattern).test(value)) return error(field.message ?? `must match ${field.pattern}`);
+      return;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value) || value < field.minimum) error(typeMessage(field));
+      return;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) error(typeMessage(field));
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") error(typeMessage(field));
+      return;
+    case "array":
+      if (!Array.isArray(value)) return error(typeMessage(field));
+      value.forEach((item, i) => check(item, field.items, pointerTo(pointer, i), result));
+      return;
+    case "object": {
+      if (!isObject(value)) return error(typeMessage(field));
+      for (const key of field.required ?? []) {
+        if (value[key] === undefined) error("is required", pointerTo(pointer, key));
+      }
+      const known = Object.keys(field.properties);
+      for (const [key, item] of Object.entries(value)) {
+        const property = field.properties[key];
+        if (!property) {
+          result.warnings.push({ pointer: pointerTo(pointer, key), message: unknownKeyMessage(key, known) });
+        } else if (item !== undefined) {
+          check(item, property, pointerTo(pointer, key), result);
+        }
+      }
+      return;
+    }
+    case "union": {
+      if (!isObject(value)) return error(typeMessage(field));
+      const tag = value[field.discriminator];
+      const variant = typeof tag === "string" ? field.variants[tag] : undefined;
+      if (!variant) {
+        const at = pointerTo(pointer, field.discriminator);
+        return error(tag === undefined ? "is required" : `must be one of: ${Object.keys(field.variants).join(", ")}`, at);
+      }
+      const properties = { [field.discriminator]: { type: "string" } as Field, ...variant.properties };
+      return check(value, { ...variant, properties }, pointer, result);
+    }
+  }
+}
+
+/**
+ * Checks a parsed config against the schema. Wrong types, missing source
+ * fields and unknown source types are errors; keys the schema doesn't know
+ * are only warnings, so a config written by a newer release still loads.
+ */
+export function checkConfig(raw: unknown): SchemaResult {
+  const result: SchemaResult = { errors: [], warnings: [] };
+  if (!isObject(raw)) {
+    result.errors.push({ pointer: "", message: "Config must be a JSON object" });
+    return result;
+  }
+  check(raw, CONFIG_FIELDS, "", result);
+  return result;
+}
+
+export function formatIssue(issue: SchemaIssue): string {
+  return issue.pointer ? `${issue.pointer} ${issue.message}` : issue.message;
+}
+
+function toJsonSchema(field: Field): Record<string, unknown> {
+  const description = field.description ? { description: field.description } : {};
+  switch (field.type) {
+    case "string":
+      return {
+        type: "string",
+        ...description,
+        ...(field.enum ? { enum: field.enum } : {}),
+        ...(field.pattern ? { pattern: field.pattern } : {}),
+      };
+    case "integer":
+      return { type: "integer", minimum: field.minimum, ...description };
+    case "number":
+    case "boolean":
+      return { type: field.type, ...description };
+    case "array":
+      return { type: "array", ...description, items: toJsonSchema(field.items) };
+    case "object":
+      return {
+        type: "object",
+        ...description,
+        properties: Object.fromEntries(Object.entries(field.properties).map(([k, v]) => [k, toJsonSchema(v)])),
+        ...(field.required?.length ? { required: field.required } : {}),
+        // No additionalProperties: checkConfig only warns about unknown keys,
+        // so editors should not reject them either
+      };
+    case "union":
+      return {
+        ...description,
+        oneOf: Object.entries(field.variants).map(([tag, variant]) => {
+          const schema = toJsonSchema(variant);
+          return {
+            ...schema,
+            properties: { [field.discriminator]: { const: tag }, ...(schema.properties as object) },
+            required: [field.discriminator, ...(variant.required ?? [])],
+          };
+        }),
+      };
+  }
+}
+
+// The published config.schema.json; a test keeps the checked-in file in sync
+export function configJsonSchema(): Record<string, unknown> {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: CONFIG_SCHEMA_URL,
+    title: "refdocs config",
+    ...toJsonSchema(CONFIG_FIELDS),
+  };
+}
@@ -0,0 +1,233 @@
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join, basename } from "node:path";
+import { splitSections, createSlugger } from "./sections.js";
+import { parseFrontmatter } from "./frontmatter.js";
+import { isMdx, stripMdx } from "./mdx.js";
+import type { BoostFields, RefdocsConfig, SearchChunk, SearchIndex, SearchResult } from "./types.js";
+
+export const DEFAULT_INDEX = "index.json";
+export const INDEX_VERSION = 2;
+
+export const DEFAULT_BOOST_FIELDS: BoostFields = {
+  title: 2,
+  headings: 1.5,
+  body: 1,
+};
+
+const FIELDS = ["title", "headings", "body"] as const;
+
+// BM25 parameters; the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in",
+  "is", "it", "of", "on", "or", "the", "to", "was", "what", "when", "with",
+]);
+
+export interface SearchDocument {
+  file: string;
+  content: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+// Term maps have no prototype, so terms like "constructor" are plain keys
+function termCounts(): Record<string, number> {
+  return Object.create(null);
+}
+
+// Indexes read back from JSON do have a prototype; only own keys are terms
+function countOf(counts: Record<string, number>, term: string): number {
+  return Object.hasOwn(counts, term) ? counts[term] : 0;
+}
+
+function termFrequencies(text: string): Record<string, number> {
+  const tf = termCounts();
+  for (const term of tokenize(text)) {
+    tf[term] = (tf[term] ?? 0) + 1;
+  }
+  return tf;
+}
+
+function countTerms(tf: Record<string, number>): number {
+  return Object.values(tf).reduce((sum, n) => sum + n, 0);
+}
+
+export function chunkDocument(file: string, source: string): SearchChunk[] {
+  const frontmatter = parseFrontmatter(source);
+  const content = isMdx(file) ? stripMdx(source, frontmatter) : source;
+  const lines = content.split("\n");
+  const sections = splitSections(content, frontmatter);
+  const titleSection = sections.find((s) => s.level === 1);
+  const title = titleSection?.heading ?? basename(file).replace(/\.[^.]+$/, "");
+
+  const chunks: SearchChunk[] = [];
+  const trail: string[] = [];
+  const slug = createSlugger();
+
+  for (const section of sections) {
+    const anchor = section.level > 0 ? slug(section.heading) : "";
+    if (section.level > 0) {
+      trail.length = Math.min(trail.length, section.level - 1);
+      trail[section.level - 1] = section.heading;
+    }
+
+    const bodyLines = lines.slice(section.level > 0 ? section.startLine : section.startLine - 1, section.endLine);
+    const body = bodyLines.join("\n");
+    if (!section.heading && !body.trim()) continue;
+
+    const terms = {
+      title: termFrequencies(title),
+      headings: termFrequencies(trail.filter(Boolean).join(" ")),
+      body: termFrequencies(body),
+    };
+
+    chunks.push({
+      file,
+      heading: section.heading,
+      anchor,
+      startLine: section.startLine,
+      endLine: section.endLine,
+      terms,
+      length: {
+        title: countTerms(terms.title),
+        headings: countTerms(terms.headings),
+        body: countTerms(terms.body),
+      },
+    });
+  }
+
+  return chunks;
+}
+
+export function buildSearchIndex(documents: SearchDocument[], boostFields?: Partial<BoostFields>): SearchIndex {
+  return indexChunks(documents.flatMap((doc) => chunkDocument(doc.file, doc.content)), boostFields);
+}
+
+export function indexChunks(chunks: SearchChunk[], boostFields?: Partial<BoostFields>): SearchIndex {
+  const df = termCounts();
+  const totals = { title: 0, headings: 0, body: 0 };
+  for (const chunk of chunks) {
+    const seen = new Set<string>();
+    for (const field of FIELDS) {
+      totals[field] += chunk.length[field];
+      for (const term of Object.keys(chunk.terms[field])) seen.add(term);
+    }
+    for (const term of seen) {
+      df[term] = (df[term] ?? 0) + 1;
+    }
+  }
+
+  const n = Math.max(chunks.length, 1);
+  return {
+    version: INDEX_VERSION,
+    generated: new Date().toISOString(),
+    boostFields: { ...DEFAULT_BOOST_FIELDS, ...boostFields },
+    avgLength: {
+      title: totals.title / n,
+      headings: totals.headings / n,
+      body: totals.body / n,
+    },
+    df,
+    chunks,
+  };
+}
+
+export function persistSearchIndex(index: SearchIndex, config: RefdocsConfig, configDir: string): void {
+  const indexPath = join(configDir, config.index ?? DEFAULT_INDEX);
+  writeFileSync(indexPath, JSON.stringify(index) + "\n", "utf-8");
+}
+
+export function loadSearchIndex(indexPath: string): SearchIndex {
+  if (!existsSync(indexPath)) {
+    throw new Error("Search index not found. Run `refdocs manifest` first.");
+  }
+  const index = JSON.parse(readFileSync(indexPath, "utf-8")) as SearchIndex;
+  if (index.version !== INDEX_VERSION) {
+    throw new Error("Search index is from another refdocs version. Run `refdocs manifest` to rebuild it.");
+  }
+  return index;
+}
+
+// BM25F: field term frequencies are length-normalized and boosted before
+// saturation, so a match in a heading counts more than the same match in body text.
+function scoreChunk(index: SearchIndex, chunk: SearchChunk, terms: string[]): number {
+  const n = index.chunks.length;
+  let score = 0;
+  for (const term of terms) {
+    const docFreq = countOf(index.df, term);
+    if (!docFreq) continue;
+
+    let weighted = 0;
+    for (const field of FIELDS) {
+      const tf = countOf(chunk.terms[field], term);
+      if (!tf) continue;
+      const avg = index.avgLength[field] || 1;
+      const norm = 1 - B + B * (chunk.length[field] / avg);
+      weighted += (index.boostFields[field] * tf) / norm;
+    }
+    if (weighted === 0) continue;
+
+    const idf = Math.log(1 + (n - docFreq + 0.5) / (docFreq + 0.5));
+    score += idf * (weighted / (K1 + weighted));
+  }
+  return score;
+}
+
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  configDir: string,
+  options: SearchOptions = {},
+): SearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const scored = index.chunks
+    .map((chunk) => ({ chunk, score: scoreChunk(index, chunk, terms) }))
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 10);
+
+  const fileCache = new Map<string, string[]>();
+  return scored.map(({ chunk, score }) => ({
+    file: chunk.file,
+    heading: chunk.heading,
+    anchor: chunk.anchor,
+    startLine: chunk.startLine,
+    endLine: chunk.endLine,
+    score: Math.round(score * 1000) / 1000,
+    snippet: buildSnippet(chunk, terms, readLines(chunk.file, configDir, fileCache)),
+  }));
+}
+
+function readLines(file: string, configDir: string, cache: Map<string, string[]>): string[] {
+  let lines = cache.get(file);
+  if (!lines) {
+    const fullPath = join(configDir, file);
+    lines = existsSync(fullPath) ? readFileSync(fullPath, "utf-8").split("\n") : [];
+    cache.set(file, lines);
+  }
+  return lines;
+}
+
+function buildSnippet(chunk: SearchChunk, terms: string[], lines: string[]): string {
+  const body = lines
+    .slice(chunk.heading ? chunk.startLine : chunk.startLine - 1, chunk.endLine)
+    .map((l) => l.trim())
+    .filter(Boolean);
+  if (body.length === 0) return "";
+
+  const hit = body.find((line) => tokenize(line).some((t) => terms.includes(t))) ?? body[0];
+  return hit.length > 200 ? hit.slice(0, 200) + "..." : hit;
+}
@@ -0,0 +1,177 @@
+import { parseFrontmatter } from "./frontmatter.js";
+import type { Frontmatter } from "./frontmatter.js";
+import type { ManifestSection } from "./types.js";
+
+// Callers that already parsed the frontmatter pass it to the functions below
+// instead of having each of them parse it again
+
+export function extractHeadings(content: string, frontmatter = parseFrontmatter(content)): string[] {
+  return splitSections(content, frontmatter)
+    .filter((s) => s.level >= 1 && s.level <= MAX_LISTED_LEVEL)
+    .map((s) => s.heading);
+}
+
+export interface SectionRange {
+  level: number;
+  heading: string;
+  startLine: number;
+  endLine: number;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})(.*)$/;
+
+// The run a code block was opened with; only a run of the same character, at
+// least as long and with nothing after it, closes the block
+export interface Fence {
+  char: string;
+  length: number;
+}
+
+// The fence open after `line`, given the one open before it
+export function nextFence(line: string, fence: Fence | null): Fence | null {
+  const match = line.match(FENCE);
+  if (!fence) {
+    // A backtick fence's info string can't contain backticks (```inline```)
+    if (!match || (match[1][0] === "`" && match[2].includes("`"))) return null;
+    return { char: match[1][0], length: match[1].length };
+  }
+  const closes = match && match[1][0] === fence.char && match[1].length >= fence.length && !match[2].trim();
+  return closes ? null : fence;
+}
+
+// Headings deeper than this are only listed when their parent section is too
+// large to read in one go (see chunkMaxTokens)
+const MAX_LISTED_LEVEL = 3;
+
+export const DEFAULT_CHUNK_MIN_TOKENS = 100;
+export const DEFAULT_CHUNK_MAX_TOKENS = 800;
+
+export interface ChunkOptions {
+  chunkMinTokens?: number;
+  chunkMaxTokens?: number;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[`*_~[\]()<>]/g, "")
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+// Slugs headings in document order, numbering repeats the way GitHub does
+// (`example`, `example-1`, …) so every anchor in a document is unique
+export function createSlugger(): (heading: string) => string {
+  const used = new Set<string>();
+  const counts = new Map<string, number>();
+  return (heading) => {
+    const base = slugify(heading);
+    let slug = base;
+    while (used.has(slug)) {
+      const count = (counts.get(base) ?? 0) + 1;
+      counts.set(base, count);
+      slug = `${base}-${count}`;
+    }
+    used.add(slug);
+    return slug;
+  };
+}
+
+// Splits a document at every ATX heading outside fenced code blocks. Text
+// before the first heading becomes a level-0 section with an empty heading;
+// frontmatter belongs to no section.
+export function splitSections(content: string, frontmatter = parseFrontmatter(content)): SectionRange[] {
+  const lines = content.split("\n");
+  const sections: SectionRange[] = [];
+  let current: SectionRange | null = null;
+  let fence: Fence | null = null;
+  const start = frontmatter.lines;
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    fence = nextFence(line, fence);
+    const match = fence ? null : line.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+    if (match) {
+      if (current) sections.push(current);
+      current = { level: match[1].length, heading: match[2].trim(), startLine: i + 1, endLine: i + 1 };
+    } else if (current) {
+      current.endLine = i + 1;
+    } else if (line.trim()) {
+      current = { level: 0, heading: "", startLine: start + 1, endLine: i + 1 };
+    }
+  }
+  if (current) sections.push(current);
+
+  return sections;
+}
+
+interface SectionNode extends SectionRange {
+  slug: string;
+  children: SectionNode[];
+}
+
+export function extractSectionTree(
+  content: string,
+  options: ChunkOptions = {},
+  frontmatter: Frontmatter = parseFrontmatter(content),
+): ManifestSection[] {
+  const minTokens = options.chunkMinTokens ?? DEFAULT_CHUNK_MIN_TOKENS;
+  const maxTokens = options.chunkMaxTokens ?? DEFAULT_CHUNK_MAX_TOKENS;
+  const lines = content.split("\n");
+
+  // Nest headings by level; a section's range extends over its subsections
+  const roots: SectionNode[] = [];
+  const stack: SectionNode[] = [];
+  const slug = createSlugger();
+  for (const section of splitSections(content, frontmatter)) {
+    if (section.level === 0) continue;
+    const node: SectionNode = { ...section, slug: slug(section.heading), children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  }
+
+  function close(node: SectionNode): number {
+    for (const child of node.children) {
+      node.endLine = Math.max(node.endLine, close(child));
+    }
+    return node.endLine;
+  }
+  roots.forEach(close);
+
+  function shape(node: SectionNode): ManifestSection {
+    const tokens = estimateTokens(lines.slice(node.startLine - 1, node.endLine).join("\n"));
+    // Small sections are cheap to read whole; deep headings only matter when
+    // the enclosing section is too big to read at once
+    const children = tokens < minTokens
+      ? []
+      : node.children.filter((c) => c.level <= MAX_LISTED_LEVEL || tokens > maxTokens);
+
+    const section: ManifestSection = {
+      heading: node.heading,
+      level: node.level,
+      slug: node.slug,
+      startLine: node.startLine,
+      endLine: node.endLine,
+    };
+    if (children.length > 0) {
+      section.children = children.map(shape);
+    }
+    return section;
+  }
+
+  return roots.filter((r) => r.level <= MAX_LISTED_LEVEL).map(shape);
+}
@@ -0,0 +1,226 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { join, dirname, basename, relative } from "node:path";
+import { CONVERT_FORMATS } from "./constants.js";
+import { converterFormat, isGeneratedCopy, markdownPath } from "./convert.js";
+import { isMdx } from "./mdx.js";
+
+export interface FileChanges {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+export interface StageOptions {
+  // Replace the target directory, deleting files that were not staged.
+  // Otherwise staged files are moved over the existing ones.
+  prune?: boolean;
+  // Only compute the changes; leave the target untouched
+  dryRun?: boolean;
+  // Subdirectories of the target owned by someone else (e.g. a nested
+  // source); they are neither diffed nor deleted
+  keep?: string[];
+}
+
+export const STAGING_PREFIX = ".staging-";
+
+// Lists the files refdocs wrote to a source directory, so that updates and
+// removals leave anything else in it alone
+export const OWNED_FILES = ".refdocs-files.json";
+
+// Undefined for directories refdocs wrote before it kept this list
+export function readOwnedFiles(dir: string): string[] | undefined {
+  const path = join(dir, OWNED_FILES);
+  if (!existsSync(path)) return undefined;
+  try {
+    const files: unknown = JSON.parse(readFileSync(path, "utf-8"));
+    return Array.isArray(files) ? files.filter((f): f is string => typeof f === "string") : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Directories written before OWNED_FILES existed count their markdown as
+// written by refdocs
+export function ownedFiles(dir: string, keep: string[] = []): string[] {
+  return readOwnedFiles(dir) ?? listFiles(dir, keep).filter((file) => /\.mdx?$/i.test(file));
+}
+
+function writeOwnedFiles(dir: string, files: string[]): void {
+  writeFileSync(join(dir, OWNED_FILES), JSON.stringify(files, null, 2) + "\n", "utf-8");
+}
+
+export function createStagingDir(configDir: string): string {
+  mkdirSync(configDir, { recursive: true });
+  return mkdtempSync(join(configDir, STAGING_PREFIX));
+}
+
+function isKept(file: string, keep: string[]): boolean {
+  return keep.some((k) => file === k || file.startsWith(k + "/"));
+}
+
+export function listFiles(dir: string, keep: string[] = []): string[] {
+  const files: string[] = [];
+  function walk(current: string) {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const fullPath = join(current, entry.name);
+      const rel = relative(dir, fullPath).split("\\").join("/");
+      if (isKept(rel, keep)) continue;
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else {
+        files.push(rel);
+      }
+    }
+  }
+  if (existsSync(dir) && statSync(dir).isDirectory()) walk(dir);
+  return files.sort();
+}
+
+export function diffDirectories(stagedDir: string, targetDir: string, options: StageOptions = {}): FileChanges {
+  const keep = options.keep ?? [];
+  const staged = listFiles(stagedDir).filter((file) => file !== OWNED_FILES);
+  const existing = new Set(listFiles(targetDir, keep).filter((file) => file !== OWNED_FILES));
+  const owned = new Set(ownedFiles(targetDir, keep));
+  // Markdown written next to an .mdx or converted original is rebuilt by the
+  // manifest, not downloaded
+  const originals = [...existing].filter((file) => isMdx(file) || converterFormat(file, CONVERT_FORMATS));
+  for (const copy of new Set(originals.map(markdownPath))) {
+    if (existing.has(copy) && isGeneratedCopy(join(targetDir, copy))) existing.delete(copy);
+  }
+  const changes: FileChanges = { added: [], modified: [], deleted: [] };
+
+  for (const file of staged) {
+    if (!existing.has(file)) {
+      changes.added.push(file);
+    } else if (!readFileSync(join(stagedDir, file)).equals(readFileSync(join(targetDir, file)))) {
+      changes.modified.push(file);
+    }
+    existing.delete(file);
+  }
+  if (options.prune) {
+    // Files refdocs didn't write are never deleted
+    changes.deleted = [...existing].filter((file) => owned.has(file)).sort();
+  }
+  return changes;
+}
+
+function movePath(fromDir: string, toDir: string, path: string): void {
+  mkdirSync(dirname(join(toDir, path)), { recursive: true });
+  renameSync(join(fromDir, path), join(toDir, path));
+}
+
+// Swaps the staged directory in with two renames; the old tree is only
+// deleted once the new one is in place. The `keep` paths, files or
+// directories, are moved over first, and moved back if the swap fails.
+function swapDirectory(stagedDir: string, targetDir: string, keep: string[]): void {
+  if (!existsSync(targetDir)) {
+    mkdirSync(dirname(targetDir), { recursive: true });
+    renameSync(stagedDir, targetDir);
+    return;
+  }
+
+  const moved: string[] = [];
+  try {
+    for (const path of keep) {
+      if (!existsSync(join(targetDir, path))) continue;
+      movePath(targetDir, stagedDir, path);
+      moved.push(path);
+    }
+    const backup = `${stagedDir}-old`;
+    renameSync(targetDir, backup);
+    try {
+      renameSync(stagedDir, targetDir);
+    } catch (err) {
+      renameSync(backup, targetDir);
+      throw err;
+    }
+    rmSync(backup, { recursive: true, force: true });
+  } catch (err) {
+    for (const path of moved) movePath(stagedDir, targetDir, path);
+    throw err;
+  }
+}
+
+function mergeDirectory(stagedDir: string, targetDir: string): void {
+  for (const file of listFiles(stagedDir)) {
+    const targetPath = join(targetDir, file);
+    mkdirSync(dirname(targetPath), { recursive: true });
+    renameSync(join(stagedDir, file), targetPath);
+  }
+}
+
+/**
+ * Lets `write` fill a fresh staging directory, diffs it against `targetDir`
+ * and, unless this is a dry run, moves it into place. The staging directory
+ * lives inside the config dir so the final renames stay on one filesystem.
+ * The written files are recorded in OWNED_FILES; pruning only deletes files
+ * recorded there, so files the user put in the directory survive.
+ */
+export async function stageDirectory(
+  configDir: string,
+  targetDir: string,
+  write: (stagedDir: string) => Promise<number> | number,
+  options: StageOptions = {},
+): Promise<{ filesWritten: number; changes: FileChanges }> {
+  const stagedDir = createStagingDir(configDir);
+  try {
+    const filesWritten = await write(stagedDir);
+    const changes = diffDirectories(stagedDir, targetDir, options);
+    if (!options.dryRun) {
+      const keep = options.keep ?? [];
+      const staged = listFiles(stagedDir);
+      const owned = ownedFiles(targetDir, keep);
+      if (options.prune) {
+        const ownedSet = new Set(owned);
+        const userFiles = listFiles(targetDir, keep)
+          .filter((file) => file !== OWNED_FILES && !ownedSet.has(file) && !staged.includes(file));
+        writeOwnedFiles(stagedDir, staged);
+        swapDirectory(stagedDir, targetDir, [...keep, ...userFiles]);
+      } else {
+        const kept = owned.filter((file) => existsSync(join(targetDir, file)));
+        writeOwnedFiles(stagedDir, [...new Set([...kept, ...staged])].sort());
+        mergeDirectory(stagedDir, targetDir);
+      }
+    }
+    return { filesWritten, changes };
+  } finally {
+    rmSync(stagedDir, { recursive: true, force: true });
+  }
+}
+
+export function stageFile(
+  configDir: string,
+  targetPath: string,
+  content: string,
+  options: StageOptions = {},
+): FileChanges {
+  const name = basename(targetPath);
+  const changes: FileChanges = { added: [], modified: [], deleted: [] };
+  if (!existsSync(targetPath)) {
+    changes.added.push(name);
+  } else if (readFileSync(targetPath, "utf-8") !== content) {
+    changes.modified.push(name);
+  }
+  if (options.dryRun) return changes;
+
+  const stagedDir = createStagingDir(configDir);
+  try {
+    const stagedPath = join(stagedDir, name);
+    writeFileSync(stagedPath, content, "utf-8");
+    mkdirSync(dirname(targetPath), { recursive: true });
+    renameSync(stagedPath, targetPath);
+  } finally {
+    rmSync(stagedDir, { recursive: true, force: true });
+  }
+  return changes;
+}
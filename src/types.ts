@@ -1,4 +1,9 @@
-export interface GitHubSource {
+export interface PathFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface GitHubSource extends PathFilters {
   type: "github";
   url: string;
   owner: string;
@@ -9,31 +14,233 @@ export interface GitHubSource {
   addedAt: string;
 }
 
-export interface FileSource {
+export interface GitLabSource extends PathFilters {
+  type: "gitlab";
+  url: string;
+  host: string;
+  project: string;
+  branch: string;
+  subpath: string;
+  localPath: string;
+  addedAt: string;
+}
+
+export interface BitbucketSource extends PathFilters {
+  type: "bitbucket";
+  url: string;
+  workspace: string;
+  repo: string;
+  branch: string;
+  subpath: string;
+  localPath: string;
+  addedAt: string;
+}
+
+export interface GitSource extends PathFilters {
+  type: "git";
+  url: string;
+  branch: string;
+  subpath: string;
+  localPath: string;
+  addedAt: string;
+}
+
+export interface FileSource extends PathFilters {
   type: "file";
   url: string;
   localPath: string;
+  split?: boolean;
+  addedAt: string;
+}
+
+export interface WebSource extends PathFilters {
+  type: "web";
+  // Page the crawl starts from
+  url: string;
+  // Path prefix that crawled pages must be under, e.g. "/docs/"
+  prefix: string;
+  maxPages?: number;
+  localPath: string;
   addedAt: string;
 }
 
-export type Source = GitHubSource | FileSource;
+export interface NpmSource extends PathFilters {
+  type: "npm";
+  // "npm:<package>"
+  url: string;
+  package: string;
+  localPath: string;
+  // Added by `refdocs sync-deps`, which removes it again once the package is
+  // no longer a dependency
+  dependency?: boolean;
+  addedAt: string;
+}
+
+export type RepoSource = GitHubSource | GitLabSource | BitbucketSource | GitSource;
 
-export interface RefdocsConfig {
+export type Source = RepoSource | FileSource | WebSource | NpmSource;
+
+// Points at where a token lives; the token itself is never stored in config
+export interface CredentialRule {
+  host: string;
+  // Owner, group or workspace (prefix) the rule is limited to
+  owner?: string;
+  // "env:NAME", "gh", "git-credential" or "netrc"
+  from: string;
+}
+
+export interface BoostFields {
+  title: number;
+  headings: number;
+  body: number;
+}
+
+export interface RefdocsConfig extends PathFilters {
+  // Config schema version; configs without one are migrated from version 0
+  version?: number;
   paths: string[];
   manifest: string;
+  index?: string;
+  boostFields?: Partial<BoostFields>;
+  chunkMinTokens?: number;
+  chunkMaxTokens?: number;
+  budget?: number;
+  budgetManifest?: string;
+  formats?: ManifestFormat[];
+  // Frontmatter keys carried into manifest entries
+  frontmatter?: string[];
+  // Write a cleaned .md copy next to each .mdx file and catalog that instead
+  mdxCopies?: boolean;
+  // Formats converted to markdown when downloaded or cataloged
+  convert?: ConvertFormat[];
+  concurrency?: number;
+  maxArchiveMB?: number;
+  maxFileMB?: number;
+  // Seconds to wait for a response before retrying
+  timeout?: number;
+  retries?: number;
+  caFile?: string;
+  credentials?: CredentialRule[];
   sources?: Source[];
 }
 
+export type ManifestFormat = "json" | "markdown" | "llms-txt" | "text";
+
+export type ConvertFormat = "rst" | "adoc" | "html";
+
+// What a generated .md file was written from
+export type DocFormat = ConvertFormat | "mdx";
+
+export interface ManifestSection {
+  heading: string;
+  level: number;
+  slug: string;
+  startLine: number;
+  endLine: number;
+  children?: ManifestSection[];
+}
+
 export interface ManifestEntry {
   file: string;
+  // From frontmatter, subject to the `frontmatter` config allowlist
+  title?: string;
+  description?: string;
+  tags?: string[];
+  sidebarPosition?: number;
+  version?: string;
+  deprecated?: boolean;
+  // Allowed frontmatter keys without a field of their own, as written
+  frontmatter?: Record<string, unknown>;
+  // Set when refdocs wrote the file from a document in another format
+  format?: DocFormat;
   headings: string[];
   lines: number;
   summary: string;
+  sections?: ManifestSection[];
 }
 
 export interface Manifest {
+  version: number;
   generated: string;
   sources: number;
   files: number;
   entries: ManifestEntry[];
 }
+
+export interface BudgetedEntry {
+  file: string;
+  headings?: string[];
+  lines: number;
+  summary?: string;
+  sections?: ManifestSection[];
+}
+
+export interface ManifestGroup {
+  dir: string;
+  files: number;
+  entries?: BudgetedEntry[];
+}
+
+export interface BudgetedManifest {
+  generated: string;
+  sources: number;
+  files: number;
+  budget: number;
+  tokens: number;
+  compaction: string[];
+  entries?: BudgetedEntry[];
+  groups?: ManifestGroup[];
+}
+
+export interface LockEntry {
+  type: Source["type"];
+  url: string;
+  commit?: string;
+  // Package version (npm sources)
+  version?: string;
+  contentHash?: string;
+  // HTTP validators of the last download (file sources), sent back as
+  // If-None-Match / If-Modified-Since on the next update
+  etag?: string;
+  lastModified?: string;
+  // Hash of the source's subpath, filters and other settings the files
+  // were written with; a change makes the next update download again
+  settings?: string;
+  resolvedAt: string;
+}
+
+export interface Lockfile {
+  version: number;
+  sources: Record<string, LockEntry>;
+}
+
+export type FieldCounts = Record<keyof BoostFields, number>;
+
+export interface SearchChunk {
+  file: string;
+  heading: string;
+  anchor: string;
+  startLine: number;
+  endLine: number;
+  terms: Record<keyof BoostFields, Record<string, number>>;
+  length: FieldCounts;
+}
+
+export interface SearchIndex {
+  version: number;
+  generated: string;
+  boostFields: BoostFields;
+  avgLength: FieldCounts;
+  df: Record<string, number>;
+  chunks: SearchChunk[];
+}
+
+export interface SearchResult {
+  file: string;
+  heading: string;
+  anchor: string;
+  startLine: number;
+  endLine: number;
+  score: number;
+  snippet: string;
+}
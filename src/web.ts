@@ -0,0 +1,299 @@
+import { parse } from "node-html-parser";
+import { request } from "./http.js";
+
+export const DEFAULT_MAX_PAGES = 200;
+
+// Child sitemaps of a sitemap index that are read at most
+const MAX_SITEMAPS = 20;
+const USER_AGENT = "refdocs";
+
+export interface CrawlOptions {
+  // Path prefix that pages must be under, e.g. "/docs/"
+  prefix: string;
+  maxPages: number;
+  token?: string;
+  // Larger pages are skipped
+  maxPageBytes?: number;
+  onPage?: (pages: number) => void;
+}
+
+export interface CrawledPage {
+  url: string;
+  // Where the page is written, relative to the source's localPath
+  path: string;
+  html: string;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface Robots {
+  rules: RobotsRule[];
+  sitemaps: string[];
+}
+
+// The directory of the start page: pages outside it are not crawled
+export function defaultPrefix(url: string): string {
+  return new URL(url).pathname.replace(/[^/]*$/, "");
+}
+
+export function isUnderPrefix(pathname: string, prefix: string): boolean {
+  const base = prefix.replace(/\/+$/, "");
+  return pathname === base || pathname.startsWith(base + "/");
+}
+
+// A decoded path segment that can't climb out of the source directory
+function pathSegment(segment: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    decoded = segment;
+  }
+  decoded = decoded.replace(/[/\\]/g, "-");
+  return decoded === "." || decoded === ".." ? "_" : decoded;
+}
+
+/**
+ * Maps a page URL to a markdown path below the prefix: `/docs/guide` and
+ * `/docs/guide.html` become `guide.md`, and `/docs/` or `/docs/api/` become
+ * `index.md` and `api/index.md`.
+ */
+export function pagePath(pathname: string, prefix: string): string {
+  const relative = pathname.slice(prefix.replace(/\/+$/, "").length);
+  const segments = relative.split("/").filter(Boolean).map(pathSegment);
+  if (relative === "" || relative.endsWith("/")) segments.push("index");
+  const last = (segments.pop() ?? "index").replace(/\.(html?|php|aspx?)$/i, "");
+  return [...segments, `${last}.md`].join("/");
+}
+
+// A page's identity: fragments and query strings are dropped, so `#anchor`
+// links and tracking parameters don't fetch the same page twice
+function normalize(url: URL): string {
+  const copy = new URL(url);
+  copy.hash = "";
+  copy.search = "";
+  return copy.href;
+}
+
+/**
+ * Reads the rules of robots.txt that apply to refdocs: the group naming it,
+ * or else the `*` group. Sitemap lines are collected from every group.
+ */
+export function parseRobots(text: string): Robots {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+
+  for (const raw of text.split("\n")) {
+    const line = raw.replace(/#.*$/, "").trim();
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const [, field, value] = match;
+    switch (field.toLowerCase()) {
+      case "user-agent":
+        // Consecutive user-agent lines share one group of rules
+        if (!current || current.rules.length > 0) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        break;
+      case "allow":
+      case "disallow":
+        // An empty Disallow allows everything
+        if (current && value) current.rules.push({ allow: field.toLowerCase() === "allow", pattern: value });
+        break;
+      case "sitemap":
+        if (value) sitemaps.push(value);
+        break;
+    }
+  }
+
+  const group = groups.find((g) => g.agents.some((agent) => agent !== "*" && USER_AGENT.includes(agent)))
+    ?? groups.find((g) => g.agents.includes("*"));
+  return { rules: group?.rules ?? [], sitemaps };
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+// The longest matching rule wins, and Allow wins a tie
+export function isAllowed(robots: Robots, path: string): boolean {
+  let best: RobotsRule | undefined;
+  for (const rule of robots.rules) {
+    if (!patternMatches(rule.pattern, path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locs = [...xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*(.*?)\s*(?:\]\]>)?\s*<\/loc>/gs)].map((m) =>
+    m[1].replace(/&amp;/g, "&").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  );
+  return /<sitemapindex[\s>]/.test(xml) ? { pages: [], sitemaps: locs } : { pages: locs, sitemaps: [] };
+}
+
+export function extractLinks(html: string, pageUrl: string): string[] {
+  const root = parse(html);
+  const base = root.querySelector("base")?.getAttribute("href");
+  const baseUrl = base ? new URL(base, pageUrl).href : pageUrl;
+  const links: string[] = [];
+  for (const anchor of root.querySelectorAll("a[href]")) {
+    const href = anchor.getAttribute("href");
+    if (href === undefined || /\bnofollow\b/i.test(anchor.getAttribute("rel") ?? "")) continue;
+    try {
+      links.push(new URL(href, baseUrl).href);
+    } catch {
+      // Not a URL, e.g. a malformed href; skip it
+    }
+  }
+  return links;
+}
+
+// Identifies the crawler by the name robots.txt rules are matched against
+function requestHeaders(token?: string): Record<string, string> {
+  return { "User-Agent": USER_AGENT, ...(token ? { Authorization: `Bearer ${token}` } : {}) };
+}
+
+async function fetchText(url: string, token?: string): Promise<string | undefined> {
+  const response = await request(url, { headers: requestHeaders(token), redirect: "follow" });
+  if (!response.ok) {
+    await response.body?.cancel();
+    return undefined;
+  }
+  return response.text();
+}
+
+async function loadRobots(origin: string, token?: string): Promise<Robots> {
+  try {
+    const text = await fetchText(`${origin}/robots.txt`, token);
+    return text === undefined ? { rules: [], sitemaps: [] } : parseRobots(text);
+  } catch {
+    // An unreachable robots.txt places no restrictions
+    return { rules: [], sitemaps: [] };
+  }
+}
+
+// Page URLs listed in the site's sitemaps, following sitemap indexes. The
+// token is only sent to the site itself.
+async function sitemapPages(sitemaps: string[], origin: string, token?: string): Promise<string[]> {
+  const pages: string[] = [];
+  const pending = [...sitemaps];
+  for (let read = 0; read < MAX_SITEMAPS; read++) {
+    const next = pending.shift();
+    if (next === undefined) break;
+    let url: URL;
+    try {
+      url = new URL(next, origin);
+    } catch {
+      continue;
+    }
+    const xml = await fetchText(url.href, url.origin === origin ? token : undefined).catch(() => undefined);
+    if (xml === undefined) continue;
+    const sitemap = parseSitemap(xml);
+    pages.push(...sitemap.pages);
+    pending.push(...sitemap.sitemaps);
+  }
+  return pages;
+}
+
+/**
+ * Crawls a documentation site breadth-first from `startUrl`, staying on its
+ * origin and under `prefix`. Pages listed in the sitemap (the ones named in
+ * robots.txt, or /sitemap.xml) are queued too, so pages no link points to
+ * are found; paths robots.txt disallows are never fetched. Only HTML
+ * responses count as pages, and at most `maxPages` are returned.
+ */
+export async function crawlSite(startUrl: string, options: CrawlOptions): Promise<CrawledPage[]> {
+  const start = new URL(startUrl);
+  const { prefix, maxPages, token, maxPageBytes, onPage } = options;
+  if (!isUnderPrefix(start.pathname, prefix)) {
+    throw new Error(`Start URL ${startUrl} is outside the crawl prefix "${prefix}"`);
+  }
+
+  const inScope = (url: URL) => url.origin === start.origin && isUnderPrefix(url.pathname, prefix);
+  const robots = await loadRobots(start.origin, token);
+  const seen = new Set<string>();
+  const queue: URL[] = [];
+  const enqueue = (href: string) => {
+    let url: URL;
+    try {
+      url = new URL(href);
+    } catch {
+      return;
+    }
+    const key = normalize(url);
+    if (seen.has(key) || !inScope(url) || !isAllowed(robots, url.pathname)) return;
+    seen.add(key);
+    queue.push(new URL(key));
+  };
+
+  enqueue(start.href);
+  if (queue.length === 0) {
+    throw new Error(`robots.txt of ${start.origin} does not allow crawling ${start.pathname}`);
+  }
+  const sitemaps = robots.sitemaps.length > 0 ? robots.sitemaps : [`${start.origin}/sitemap.xml`];
+  for (const page of await sitemapPages(sitemaps, start.origin, token)) enqueue(page);
+
+  const pages: CrawledPage[] = [];
+  const written = new Set<string>();
+  while (pages.length < maxPages) {
+    const url = queue.shift();
+    if (!url) break;
+    const isStart = url.href === normalize(start);
+    let response: Response;
+    try {
+      response = await request(url.href, { headers: requestHeaders(token), redirect: "follow" });
+    } catch (err) {
+      // One unreachable page doesn't end the crawl; the start page must load
+      if (isStart) throw err;
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      if (isStart) throw new Error(`HTTP ${response.status} fetching ${startUrl}`);
+      continue;
+    }
+
+    // A redirect may leave the prefix, land on a disallowed path or on a page
+    // already crawled
+    const final = new URL(response.url || url.href);
+    const path = pagePath(final.pathname, prefix);
+    const tooLarge = maxPageBytes !== undefined && Number(response.headers.get("content-length")) > maxPageBytes;
+    const isHtml = /^(text\/html|application\/xhtml\+xml)/i.test(response.headers.get("content-type") ?? "");
+    if (!inScope(final) || !isAllowed(robots, final.pathname) || written.has(path) || !isHtml || tooLarge) {
+      await response.body?.cancel();
+      continue;
+    }
+    let html: string;
+    try {
+      html = await response.text();
+    } catch (err) {
+      if (isStart) throw err;
+      continue;
+    }
+    if (maxPageBytes !== undefined && Buffer.byteLength(html) > maxPageBytes) continue;
+
+    written.add(path);
+    pages.push({ url: final.href, path, html });
+    onPage?.(pages.length);
+    for (const link of extractLinks(html, final.href)) enqueue(link);
+  }
+
+  if (pages.length === 0) {
+    throw new Error(`No HTML pages found at ${startUrl}`);
+  }
+  return pages;
+}
@@ -1,13 +1,69 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { readFileSync, mkdtempSync, rmSync, existsSync, writeFileSync, mkdirSync } from "node:fs";
+import { readFileSync, mkdtempSync, rmSync, existsSync, writeFileSync, mkdirSync, readdirSync } from "node:fs";
 import { join } from "node:path";
+import { execFileSync } from "node:child_process";
+import { Readable } from "node:stream";
+import { gzipSync } from "node:zlib";
+import tar from "tar-stream";
 import { tmpdir } from "node:os";
-import { extractMarkdownFiles, updateSources, addLocalPath, removePath, isPathCovered } from "../src/add.js";
-import type { RefdocsConfig } from "../src/types.js";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import {
+  extractMarkdownFiles,
+  updateSources,
+  installSources,
+  addLocalPath,
+  removePath,
+  collectGarbage,
+  isPathCovered,
+  matchesSourceKey,
+  detectProvider,
+  sourceKey,
+  isFileUrl,
+  rawFileUrl,
+} from "../src/add.js";
+import type { SyncProgress } from "../src/add.js";
+import { downloadTarball, resolveCommitSha } from "../src/github.js";
+import { loadLock, saveLock, hashContent, LOCK_FILENAME } from "../src/lock.js";
+import { listFiles, OWNED_FILES } from "../src/staging.js";
+import type { RefdocsConfig, GitHubSource } from "../src/types.js";
 
 const FIXTURE_PATH = join(import.meta.dirname, "fixtures", "test-repo.tar.gz");
 const MDX_FIXTURE_PATH = join(import.meta.dirname, "fixtures", "test-repo-mdx.tar.gz");
 
+function githubSource(owner: string, repo: string, localPath: string): GitHubSource {
+  return {
+    type: "github",
+    url: `https://github.com/${owner}/${repo}`,
+    owner,
+    repo,
+    branch: "HEAD",
+    subpath: "",
+    localPath,
+    addedAt: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+interface CraftedEntry {
+  name: string;
+  type?: "file" | "symlink" | "link";
+  linkname?: string;
+  content?: string;
+}
+
+// Builds a gzipped tarball with arbitrary (including malicious) entries
+async function craftTarball(entries: CraftedEntry[]): Promise<Buffer> {
+  const pack = tar.pack();
+  for (const { name, type = "file", linkname, content = "" } of entries) {
+    pack.entry({ name, type, linkname }, type === "file" ? content : undefined);
+  }
+  pack.finalize();
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) chunks.push(chunk as Buffer);
+  return gzipSync(Buffer.concat(chunks));
+}
+
 describe("extractMarkdownFiles", () => {
   let tmpDir: string;
   let tarball: Buffer;
@@ -83,6 +139,104 @@ describe("extractMarkdownFiles", () => {
     expect(existsSync(join(tmpDir, "out", "package.json"))).toBe(false);
   });
 
+  it("skips files rejected by the filter", async () => {
+    const seen: string[] = [];
+    const count = await extractMarkdownFiles(tarball, "docs", join(tmpDir, "out"), {
+      filter: (path) => {
+        seen.push(path);
+        return !path.startsWith("nested/");
+      },
+    });
+    expect(count).toBe(2);
+    expect(seen.sort()).toEqual(["api.md", "guide.md", "nested/advanced.md"]);
+    expect(existsSync(join(tmpDir, "out", "nested", "advanced.md"))).toBe(false);
+  });
+
+  it("extracts from a stream delivered in small chunks", async () => {
+    const chunks = [];
+    for (let i = 0; i < tarball.length; i += 64) chunks.push(tarball.subarray(i, i + 64));
+    const count = await extractMarkdownFiles(Readable.from(chunks), "docs", join(tmpDir, "out"));
+    expect(count).toBe(3);
+    expect(readFileSync(join(tmpDir, "out", "guide.md"), "utf-8")).toBe("# Guide\n\nA user guide.\n");
+  });
+
+  it("rejects when the archive stream fails", async () => {
+    async function* truncated() {
+      yield tarball.subarray(0, 100);
+      throw new Error("Archive is larger than the 1 MB limit");
+    }
+    await expect(extractMarkdownFiles(Readable.from(truncated()), "", join(tmpDir, "out")))
+      .rejects.toThrow("Archive is larger than the 1 MB limit");
+  });
+
+  it("rejects entries that resolve outside the output directory", async () => {
+    const out = join(tmpDir, "nested", "out");
+    const escaping = await craftTarball([
+      { name: "repo/guide.md", content: "# Guide\n" },
+      { name: "repo/../../evil.md", content: "# Evil\n" },
+    ]);
+    await expect(extractMarkdownFiles(escaping, "", out)).rejects.toThrow('Refusing to extract "repo/../../evil.md"');
+    expect(existsSync(join(tmpDir, "evil.md"))).toBe(false);
+
+    const viaSubpath = await craftTarball([{ name: "repo/docs/../../../evil.md", content: "# Evil\n" }]);
+    await expect(extractMarkdownFiles(viaSubpath, "docs", out)).rejects.toThrow("resolves outside the output directory");
+    expect(existsSync(join(tmpDir, "nested", "evil.md"))).toBe(false);
+  });
+
+  it("skips symlink and hardlink entries", async () => {
+    const crafted = await craftTarball([
+      { name: "repo/passwd.md", type: "symlink", linkname: "/etc/passwd" },
+      { name: "repo/hard.md", type: "link", linkname: "repo/guide.md" },
+      { name: "repo/guide.md", content: "# Guide\n" },
+    ]);
+    const count = await extractMarkdownFiles(crafted, "", join(tmpDir, "out"));
+    expect(count).toBe(1);
+    expect(readdirSync(join(tmpDir, "out"))).toEqual(["guide.md"]);
+  });
+
+  it("skips files larger than maxFileBytes", async () => {
+    const crafted = await craftTarball([
+      { name: "repo/small.md", content: "# Small\n" },
+      { name: "repo/huge.md", content: "x".repeat(2048) },
+    ]);
+    const count = await extractMarkdownFiles(crafted, "", join(tmpDir, "out"), { maxFileBytes: 1024 });
+    expect(count).toBe(1);
+    expect(existsSync(join(tmpDir, "out", "huge.md"))).toBe(false);
+  });
+
+  it("writes files in a convert format as markdown", async () => {
+    const crafted = await craftTarball([
+      { name: "repo/docs/guide.rst", content: "Guide\n=====\n\nText\n" },
+      { name: "repo/docs/notes.adoc", content: "= Notes\n" },
+      { name: "repo/docs/page.html", content: "<h1>Page</h1>" },
+    ]);
+    const filtered: string[] = [];
+    const count = await extractMarkdownFiles(crafted, "docs", join(tmpDir, "out"), {
+      convert: ["rst", "html"],
+      filter: (path) => {
+        filtered.push(path);
+        return true;
+      },
+    });
+    expect(count).toBe(2);
+    expect(readdirSync(join(tmpDir, "out")).sort()).toEqual(["guide.md", "page.md"]);
+    expect(readFileSync(join(tmpDir, "out", "guide.md"), "utf-8")).toBe(
+      "<!-- Generated by refdocs from guide.rst; edit that file instead. -->\n\n# Guide\n\nText\n",
+    );
+    expect(filtered).toEqual(["guide.md", "page.md"]);
+  });
+
+  it("prefers a markdown file over a converted one of the same name", async () => {
+    for (const order of [["md", "rst"], ["rst", "md"]]) {
+      const crafted = await craftTarball(
+        order.map((ext) => ({ name: `repo/guide.${ext}`, content: ext === "md" ? "# Real\n" : "Converted\n=========\n" })),
+      );
+      const out = join(tmpDir, order.join("-"));
+      await extractMarkdownFiles(crafted, "", out, { convert: ["rst"] });
+      expect(readFileSync(join(out, "guide.md"), "utf-8")).toBe("# Real\n");
+    }
+  });
+
   it("filters .mdx files by subpath", async () => {
     const mdxTarball = readFileSync(MDX_FIXTURE_PATH);
     const count = await extractMarkdownFiles(mdxTarball, "docs", join(tmpDir, "out"));
@@ -98,10 +252,8 @@ vi.mock("../src/github.js", async (importOriginal) => {
   const actual = await importOriginal<typeof import("../src/github.js")>();
   return {
     ...actual,
-    downloadTarball: vi.fn(async () => {
-      const buf = readFileSync(FIXTURE_PATH);
-      return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength);
-    }),
+    downloadTarball: vi.fn(async () => Readable.from([readFileSync(FIXTURE_PATH)])),
+    resolveCommitSha: vi.fn(async () => "0123456789abcdef0123456789abcdef01234567"),
   };
 });
 
@@ -188,6 +340,368 @@ describe("updateSources", () => {
 
     await expect(updateSources(config, tmpDir)).rejects.toThrow("No sources configured");
   });
+
+  it("records resolved commits in the lockfile", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "docs/test-repo")],
+    };
+
+    const results = await updateSources(config, tmpDir);
+    expect(results[0].lock?.commit).toBe("0123456789abcdef0123456789abcdef01234567");
+
+    const lock = loadLock(tmpDir);
+    expect(lock.sources["github:test/repo/"].commit).toBe("0123456789abcdef0123456789abcdef01234567");
+  });
+
+  it("prunes files deleted upstream and reports the changes", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [{ ...githubSource("test", "repo", "docs/test-repo"), subpath: "docs" }],
+    };
+    const dir = join(tmpDir, "docs/test-repo");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "guide.md"), "# Old guide\n");
+    writeFileSync(join(dir, "renamed.md"), "# Gone upstream\n");
+    writeFileSync(join(dir, "mine.md"), "# My notes\n");
+    writeFileSync(join(dir, OWNED_FILES), JSON.stringify(["guide.md", "renamed.md"]));
+
+    const results = await updateSources(config, tmpDir);
+    expect(results[0].changes).toEqual({
+      added: ["api.md", "nested/advanced.md"],
+      modified: ["guide.md"],
+      deleted: ["renamed.md"],
+    });
+    expect(existsSync(join(dir, "renamed.md"))).toBe(false);
+    expect(readFileSync(join(dir, "mine.md"), "utf-8")).toBe("# My notes\n");
+    expect(readFileSync(join(dir, "guide.md"), "utf-8")).toBe("# Guide\n\nA user guide.\n");
+    expect(readdirSync(tmpDir).filter((f) => f.startsWith(".staging-"))).toEqual([]);
+  });
+
+  it("leaves files and the lockfile untouched on a dry run", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [{ ...githubSource("test", "repo", "docs/test-repo"), subpath: "docs" }],
+    };
+    const dir = join(tmpDir, "docs/test-repo");
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "renamed.md"), "# Gone upstream\n");
+    writeFileSync(join(dir, OWNED_FILES), JSON.stringify(["renamed.md"]));
+
+    const results = await updateSources(config, tmpDir, undefined, { dryRun: true });
+    expect(results[0].changes.added).toEqual(["api.md", "guide.md", "nested/advanced.md"]);
+    expect(results[0].changes.deleted).toEqual(["renamed.md"]);
+    expect(readdirSync(dir)).toEqual([OWNED_FILES, "renamed.md"]);
+    expect(existsSync(join(tmpDir, LOCK_FILENAME))).toBe(false);
+  });
+
+  it("keeps the directories of sources nested inside the updated one", async () => {
+    const outer = githubSource("test", "outer", "docs/outer");
+    const inner = githubSource("test", "inner", "docs/outer/vendor/inner");
+    const config: RefdocsConfig = { paths: ["docs/outer"], manifest: "manifest.json", sources: [outer, inner] };
+    mkdirSync(join(tmpDir, "docs/outer/vendor/inner"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs/outer/vendor/inner/page.md"), "# Inner\n");
+
+    const results = await updateSources(config, tmpDir, undefined, { source: "test/outer" });
+    expect(results[0].changes.deleted).toEqual([]);
+    expect(existsSync(join(tmpDir, "docs/outer/vendor/inner/page.md"))).toBe(true);
+    expect(existsSync(join(tmpDir, "docs/outer/README.md"))).toBe(true);
+  });
+
+  it("only updates the source matching --source", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/a", "docs/b"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "a", "docs/a"), githubSource("test", "b", "docs/b")],
+    };
+
+    const results = await updateSources(config, tmpDir, undefined, { source: "test/b" });
+    expect(results).toHaveLength(1);
+    expect(results[0].source.localPath).toBe("docs/b");
+    expect(Object.keys(loadLock(tmpDir).sources)).toEqual(["github:test/b/"]);
+  });
+
+  it("keeps going when a source fails and leaves it out of the lockfile", async () => {
+    vi.mocked(resolveCommitSha).mockRejectedValueOnce(new Error("GitHub API error: 500 Internal Server Error"));
+    const config: RefdocsConfig = {
+      paths: ["docs/a", "docs/b"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "a", "docs/a"), githubSource("test", "b", "docs/b")],
+    };
+
+    const results = await updateSources(config, tmpDir, undefined, { concurrency: 1 });
+    expect(results[0].error?.message).toBe("GitHub API error: 500 Internal Server Error");
+    expect(results[0].filesWritten).toBe(0);
+    expect(results[1].error).toBeUndefined();
+    expect(results[1].filesWritten).toBe(4);
+    expect(Object.keys(loadLock(tmpDir).sources)).toEqual(["github:test/b/"]);
+  });
+
+  it("limits how many sources are fetched at once", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fixture = readFileSync(FIXTURE_PATH);
+    vi.mocked(downloadTarball).mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((r) => setTimeout(r, 10));
+      inFlight--;
+      return Readable.from([fixture]);
+    });
+    const config: RefdocsConfig = {
+      paths: ["docs"],
+      manifest: "manifest.json",
+      sources: ["a", "b", "c", "d", "e"].map((name) => githubSource("test", name, `docs/${name}`)),
+    };
+
+    const results = await updateSources(config, tmpDir, undefined, { concurrency: 2 });
+    expect(results.map((r) => r.source.localPath)).toEqual(["docs/a", "docs/b", "docs/c", "docs/d", "docs/e"]);
+    expect(maxInFlight).toBe(2);
+    vi.mocked(downloadTarball).mockRestore();
+  });
+
+  it("reports progress for each source", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "docs/test-repo")],
+    };
+    const events: SyncProgress[] = [];
+
+    await updateSources(config, tmpDir, undefined, { onProgress: (e) => events.push(e) });
+    const phases = [...new Set(events.map((e) => e.phase))];
+    expect(phases).toEqual(["resolving", "downloading", "extracting", "done"]);
+    expect(events.flatMap((e) => (e.phase === "extracting" ? [e.files] : [])).at(-1)).toBe(4);
+    expect(events.at(-1)).toMatchObject({ phase: "done", result: { filesWritten: 4 } });
+  });
+
+  it("skips sources whose commit has not changed since the last update", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "docs/test-repo")],
+    };
+    await updateSources(config, tmpDir);
+    vi.mocked(downloadTarball).mockClear();
+
+    const results = await updateSources(config, tmpDir);
+    expect(results[0].upToDate).toBe(true);
+    expect(results[0].changes).toEqual({ added: [], modified: [], deleted: [] });
+    expect(downloadTarball).not.toHaveBeenCalled();
+    expect(existsSync(join(tmpDir, "docs/test-repo/README.md"))).toBe(true);
+  });
+
+  it("refuses to write a source outside the config dir", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "../../outside")],
+    };
+    const results = await updateSources(config, tmpDir);
+    expect(results[0].error?.message).toBe(
+      'localPath "../../outside" of https://github.com/test/repo must be inside .refdocs/',
+    );
+    expect(downloadTarball).not.toHaveBeenCalled();
+  });
+
+  it("downloads again after the lockfile moved ahead of the files on disk", async () => {
+    const source = githubSource("test", "repo", "docs/test-repo");
+    const config: RefdocsConfig = { paths: ["docs/test-repo"], manifest: "manifest.json", sources: [source] };
+    await updateSources(config, tmpDir);
+    // A teammate updated the source and committed the new lockfile
+    const bumped = "fedcba9876543210fedcba9876543210fedcba98";
+    const lock = loadLock(tmpDir);
+    lock.sources[sourceKey(source)].commit = bumped;
+    saveLock(lock, tmpDir);
+    vi.mocked(resolveCommitSha).mockResolvedValueOnce(bumped);
+    vi.mocked(downloadTarball).mockClear();
+
+    const results = await updateSources(config, tmpDir);
+    expect(results[0].upToDate).toBeUndefined();
+    expect(results[0].lock?.commit).toBe(bumped);
+    expect(downloadTarball).toHaveBeenCalledTimes(1);
+  });
+
+  it("downloads again when the source's subpath or filters change", async () => {
+    const source = githubSource("test", "repo", "docs/test-repo");
+    const config: RefdocsConfig = { paths: ["docs/test-repo"], manifest: "manifest.json", sources: [source] };
+    await updateSources(config, tmpDir);
+
+    const narrowed = await updateSources({ ...config, sources: [{ ...source, subpath: "docs", exclude: ["api.md"] }] }, tmpDir);
+    expect(narrowed[0].upToDate).toBeUndefined();
+    expect(listFiles(join(tmpDir, "docs/test-repo"))).toEqual([OWNED_FILES, "guide.md", "nested/advanced.md"]);
+
+    const filtered = await updateSources({ ...config, exclude: ["**/nested/**"] }, tmpDir);
+    expect(filtered[0].upToDate).toBeUndefined();
+    expect(existsSync(join(tmpDir, "docs/test-repo/docs/nested/advanced.md"))).toBe(false);
+    expect((await updateSources({ ...config, exclude: ["**/nested/**"] }, tmpDir))[0].upToDate).toBe(true);
+  });
+
+  it("downloads unchanged sources again with force or when their files are gone", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "docs/test-repo")],
+    };
+    await updateSources(config, tmpDir);
+    vi.mocked(downloadTarball).mockClear();
+
+    const forced = await updateSources(config, tmpDir, undefined, { force: true });
+    expect(forced[0].upToDate).toBeUndefined();
+
+    rmSync(join(tmpDir, "docs/test-repo"), { recursive: true });
+    const restored = await updateSources(config, tmpDir);
+    expect(restored[0].upToDate).toBeUndefined();
+    expect(restored[0].changes.added).toContain("README.md");
+    expect(downloadTarball).toHaveBeenCalledTimes(2);
+  });
+
+  it("downloads with the token of the matching credentials rule", async () => {
+    vi.stubEnv("ACME_TOKEN", "acme-secret");
+    vi.mocked(downloadTarball).mockClear();
+    const config: RefdocsConfig = {
+      paths: ["docs"],
+      manifest: "manifest.json",
+      sources: [githubSource("acme", "handbook", "docs/acme")],
+      credentials: [{ host: "github.com", owner: "acme", from: "env:ACME_TOKEN" }],
+    };
+
+    await updateSources(config, tmpDir);
+    expect(downloadTarball).toHaveBeenCalledWith("acme", "handbook", expect.any(String), "acme-secret", expect.anything());
+    vi.unstubAllEnvs();
+  });
+
+  it("leaves the existing files alone when a download is aborted", async () => {
+    vi.mocked(downloadTarball).mockImplementationOnce(async () => Readable.from((async function* () {
+      yield readFileSync(FIXTURE_PATH).subarray(0, 100);
+      throw new Error("Archive is larger than the 1 MB limit");
+    })()));
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "docs/test-repo")],
+    };
+    mkdirSync(join(tmpDir, "docs/test-repo"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs/test-repo/old.md"), "# Old\n");
+
+    const results = await updateSources(config, tmpDir);
+    expect(results[0].error?.message).toContain("larger than the 1 MB limit");
+    expect(readdirSync(join(tmpDir, "docs/test-repo"))).toEqual(["old.md"]);
+    expect(readdirSync(tmpDir).filter((f) => f.startsWith(".staging-"))).toEqual([]);
+  });
+
+  it("throws when --source matches nothing", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/a"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "a", "docs/a")],
+    };
+
+    await expect(updateSources(config, tmpDir, undefined, { source: "other/repo" }))
+      .rejects.toThrow('No source matching "other/repo"');
+  });
+});
+
+describe("installSources", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-install-"));
+    vi.mocked(downloadTarball).mockClear();
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+  });
+
+  it("downloads GitHub sources at the locked commit", async () => {
+    saveLock({
+      version: 1,
+      sources: {
+        "github:test/repo/": {
+          type: "github",
+          url: "https://github.com/test/repo",
+          commit: "fedcba9876543210fedcba9876543210fedcba98",
+          resolvedAt: "2025-01-01T00:00:00.000Z",
+        },
+      },
+    }, tmpDir);
+
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "docs/test-repo")],
+    };
+
+    const results = await installSources(config, tmpDir);
+    expect(results[0].filesWritten).toBe(4);
+    expect(downloadTarball).toHaveBeenCalledWith(
+      "test", "repo", "fedcba9876543210fedcba9876543210fedcba98", undefined,
+      expect.objectContaining({ maxBytes: 1024 * 1024 * 1024 }),
+    );
+    expect(loadLock(tmpDir).sources["github:test/repo/"].resolvedAt).toBe("2025-01-01T00:00:00.000Z");
+  });
+
+  it("locks sources that are not yet in the lockfile", async () => {
+    const config: RefdocsConfig = {
+      paths: ["docs/test-repo"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "repo", "docs/test-repo")],
+    };
+
+    await installSources(config, tmpDir);
+    expect(loadLock(tmpDir).sources["github:test/repo/"].commit).toBe("0123456789abcdef0123456789abcdef01234567");
+  });
+
+  it("fails file sources whose content no longer matches the lock", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("# Changed\n")));
+    saveLock({
+      version: 1,
+      sources: {
+        "file:https://example.com/llms.txt": {
+          type: "file",
+          url: "https://example.com/llms.txt",
+          contentHash: hashContent("# Original\n"),
+          resolvedAt: "2025-01-01T00:00:00.000Z",
+        },
+      },
+    }, tmpDir);
+
+    const config: RefdocsConfig = {
+      paths: ["docs"],
+      manifest: "manifest.json",
+      sources: [{ type: "file", url: "https://example.com/llms.txt", localPath: "docs/llms.txt", addedAt: "" }],
+    };
+
+    const results = await installSources(config, tmpDir);
+    expect(results[0].error?.message).toContain("no longer matches lock.json");
+    expect(existsSync(join(tmpDir, "docs", "llms.txt"))).toBe(false);
+  });
+});
+
+describe("matchesSourceKey", () => {
+  const source: GitHubSource = {
+    ...githubSource("laravel", "docs", "docs/laravel"),
+    url: "https://github.com/laravel/docs/tree/11.x/guides",
+    subpath: "guides",
+  };
+
+  it("matches the internal source key", () => {
+    expect(matchesSourceKey(source, "github:laravel/docs/guides")).toBe(true);
+  });
+
+  it("matches owner/repo/subpath", () => {
+    expect(matchesSourceKey(source, "laravel/docs/guides")).toBe(true);
+    expect(matchesSourceKey(source, "laravel/docs")).toBe(false);
+  });
+
+  it("matches the original URL", () => {
+    expect(matchesSourceKey(source, "https://github.com/laravel/docs/tree/11.x/guides/")).toBe(true);
+  });
 });
 
 describe("config updates via addFromGitHub", () => {
@@ -294,6 +808,16 @@ describe("addLocalPath", () => {
     expect(result.localPath).toBe("../mdx-docs");
   });
 
+  it("accepts a directory of files in an enabled convert format", () => {
+    const rstDir = join(tmpDir, "rst-docs");
+    mkdirSync(rstDir, { recursive: true });
+    writeFileSync(join(rstDir, "index.rst"), "Index\n=====\n");
+
+    expect(() => addLocalPath("rst-docs", configDir, baseConfig, tmpDir)).toThrow("No .md/.mdx files found");
+    const result = addLocalPath("rst-docs", configDir, { ...baseConfig, convert: ["rst"] }, tmpDir);
+    expect(result.localPath).toBe("../rst-docs");
+  });
+
   it("finds .md files in subdirectories", () => {
     const parentDir = join(tmpDir, "parent");
     const childDir = join(parentDir, "child");
@@ -363,6 +887,144 @@ describe("removePath", () => {
     expect(result.removed).toBe(false);
     expect(result.sourceRemoved).toBe(false);
   });
+
+  it("removes a source by key and deletes its files", () => {
+    mkdirSync(join(configDir, "docs/laravel"), { recursive: true });
+    writeFileSync(join(configDir, "docs/laravel/eloquent.md"), "# Eloquent");
+
+    const result = removePath("laravel/docs", configDir, baseConfig, tmpDir);
+    expect(result).toEqual({ removed: true, sourceRemoved: true, deleted: ["docs/laravel"] });
+    expect(existsSync(join(configDir, "docs/laravel"))).toBe(false);
+
+    const saved = JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8"));
+    expect(saved.paths).toEqual(["../my-docs"]);
+    expect(saved.sources).toEqual([]);
+  });
+
+  it("leaves files it did not download when removing a source", () => {
+    mkdirSync(join(configDir, "docs/laravel"), { recursive: true });
+    writeFileSync(join(configDir, "docs/laravel/eloquent.md"), "# Eloquent");
+    writeFileSync(join(configDir, "docs/laravel/mine.md"), "# My notes");
+    writeFileSync(join(configDir, "docs/laravel", OWNED_FILES), JSON.stringify(["eloquent.md"]));
+
+    removePath("laravel/docs", configDir, baseConfig, tmpDir);
+    expect(readdirSync(join(configDir, "docs/laravel"))).toEqual(["mine.md"]);
+  });
+
+  it("only deletes markdown from a directory without a file list", () => {
+    mkdirSync(join(configDir, "docs/laravel"), { recursive: true });
+    writeFileSync(join(configDir, "docs/laravel/eloquent.md"), "# Eloquent");
+    writeFileSync(join(configDir, "docs/laravel/todo.txt"), "my notes");
+
+    removePath("laravel/docs", configDir, baseConfig, tmpDir);
+    expect(readdirSync(join(configDir, "docs/laravel"))).toEqual(["todo.txt"]);
+  });
+
+  it("removes a source whose directory is covered by another path", () => {
+    const config: RefdocsConfig = {
+      paths: ["docs"],
+      manifest: "manifest.json",
+      sources: [githubSource("laravel", "docs", "docs/laravel/docs")],
+    };
+    mkdirSync(join(configDir, "docs/laravel/docs"), { recursive: true });
+
+    const result = removePath("https://github.com/laravel/docs", configDir, config, tmpDir);
+    expect(result.sourceRemoved).toBe(true);
+    expect(existsSync(join(configDir, "docs/laravel/docs"))).toBe(false);
+
+    const saved = JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8"));
+    expect(saved.paths).toEqual(["docs"]);
+  });
+
+  it("keeps files with keepFiles", () => {
+    mkdirSync(join(configDir, "docs/laravel"), { recursive: true });
+    writeFileSync(join(configDir, "docs/laravel/eloquent.md"), "# Eloquent");
+
+    const result = removePath("laravel/docs", configDir, baseConfig, tmpDir, { keepFiles: true });
+    expect(result.deleted).toEqual([]);
+    expect(existsSync(join(configDir, "docs/laravel/eloquent.md"))).toBe(true);
+  });
+
+  it("never deletes user-added local paths", () => {
+    mkdirSync(join(tmpDir, "my-docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "my-docs", "notes.md"), "# Notes");
+
+    const result = removePath("my-docs", configDir, baseConfig, tmpDir);
+    expect(result.deleted).toEqual([]);
+    expect(existsSync(join(tmpDir, "my-docs", "notes.md"))).toBe(true);
+  });
+
+  it("keeps directories of sources nested inside the removed one", () => {
+    const config: RefdocsConfig = {
+      paths: ["docs"],
+      manifest: "manifest.json",
+      sources: [githubSource("test", "outer", "docs/outer"), githubSource("test", "inner", "docs/outer/inner")],
+    };
+    mkdirSync(join(configDir, "docs/outer/inner"), { recursive: true });
+    writeFileSync(join(configDir, "docs/outer/page.md"), "# Outer");
+    writeFileSync(join(configDir, "docs/outer/inner/page.md"), "# Inner");
+
+    removePath("test/outer", configDir, config, tmpDir);
+    expect(existsSync(join(configDir, "docs/outer/page.md"))).toBe(false);
+    expect(existsSync(join(configDir, "docs/outer/inner/page.md"))).toBe(true);
+  });
+});
+
+describe("collectGarbage", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-gc-"));
+    for (const dir of ["docs/laravel/docs", "docs/old/repo", "docs/example.com", "mine", ".staging-abc123"]) {
+      mkdirSync(join(tmpDir, dir), { recursive: true });
+    }
+    writeFileSync(join(tmpDir, "docs/laravel/docs/eloquent.md"), "# Eloquent");
+    writeFileSync(join(tmpDir, "docs/old/repo/page.md"), "# Old");
+    writeFileSync(join(tmpDir, "docs/old/repo", OWNED_FILES), JSON.stringify(["page.md"]));
+    writeFileSync(join(tmpDir, "docs/example.com/llms.txt"), "# Kept");
+    writeFileSync(join(tmpDir, "docs/example.com/removed.md"), "# Removed");
+    writeFileSync(join(tmpDir, "docs/README.md"), "# Not written by refdocs");
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const config: RefdocsConfig = {
+    paths: ["docs", "mine"],
+    manifest: "manifest.json",
+    sources: [
+      githubSource("laravel", "docs", "docs/laravel/docs"),
+      { type: "file", url: "https://example.com/llms.txt", localPath: "docs/example.com/llms.txt", addedAt: "2025-01-01T00:00:00.000Z" },
+    ],
+  };
+
+  it("deletes source directories no source refers to", () => {
+    const result = collectGarbage(config, tmpDir);
+    expect(result).toEqual({ deleted: ["docs/old/repo", ".staging-abc123"], skipped: ["docs/example.com/removed.md"] });
+    expect(existsSync(join(tmpDir, "docs/old"))).toBe(false);
+    expect(existsSync(join(tmpDir, "docs/example.com/removed.md"))).toBe(true);
+    expect(existsSync(join(tmpDir, "docs/laravel/docs/eloquent.md"))).toBe(true);
+    expect(existsSync(join(tmpDir, "docs/example.com/llms.txt"))).toBe(true);
+    expect(existsSync(join(tmpDir, "docs/README.md"))).toBe(true);
+    expect(existsSync(join(tmpDir, "mine"))).toBe(true);
+  });
+
+  it("only reports orphans on a dry run", () => {
+    expect(collectGarbage(config, tmpDir, { dryRun: true }).deleted).toContain("docs/old/repo");
+    expect(existsSync(join(tmpDir, "docs/old/repo/page.md"))).toBe(true);
+  });
+
+  it("leaves directories refdocs did not write alone", () => {
+    mkdirSync(join(tmpDir, "docs/my-notes"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs/my-notes/x.md"), "# Mine");
+    writeFileSync(join(tmpDir, "docs/old/repo/mine.md"), "# Mine too");
+    const result = collectGarbage({ paths: ["docs"], manifest: "manifest.json" }, tmpDir);
+
+    expect(result.skipped).toContain("docs/my-notes");
+    expect(readFileSync(join(tmpDir, "docs/my-notes/x.md"), "utf-8")).toBe("# Mine");
+    expect(readdirSync(join(tmpDir, "docs/old/repo"))).toEqual(["mine.md"]);
+  });
 });
 
 describe("isPathCovered", () => {
@@ -392,6 +1054,53 @@ describe("isPathCovered", () => {
   });
 });
 
+describe("addFromUrl with include/exclude filters", () => {
+  let tmpDir: string;
+  let configDir: string;
+  const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json", exclude: ["api.md"] };
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-filters-"));
+    configDir = join(tmpDir, ".refdocs");
+    mkdirSync(configDir, { recursive: true });
+    writeFileSync(join(configDir, "config.json"), JSON.stringify(config));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("stores the filters on the source and applies them with the config filters", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+
+    const result = await addFromUrl(
+      "https://github.com/test-owner/test-repo",
+      { include: ["docs/**"], exclude: ["nested"] },
+      configDir,
+      config,
+    );
+
+    expect(result.filesWritten).toBe(1);
+    expect(existsSync(join(configDir, "docs/test-owner/test-repo/docs/guide.md"))).toBe(true);
+    expect(existsSync(join(configDir, "docs/test-owner/test-repo/docs/api.md"))).toBe(false);
+    expect(existsSync(join(configDir, "docs/test-owner/test-repo/README.md"))).toBe(false);
+
+    const saved = JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8"));
+    expect(saved.sources[0].include).toEqual(["docs/**"]);
+    expect(saved.sources[0].exclude).toEqual(["nested"]);
+  });
+
+  it("leaves filters off the source when none are given", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+
+    await addFromUrl("https://github.com/test-owner/test-repo", { include: [], exclude: [] }, configDir, config);
+
+    const saved = JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8"));
+    expect(saved.sources[0]).not.toHaveProperty("include");
+    expect(saved.sources[0]).not.toHaveProperty("exclude");
+  });
+});
+
 describe("addFromGitHub overlapping paths", () => {
   let tmpDir: string;
   let configDir: string;
@@ -450,3 +1159,352 @@ describe("addFromGitHub overlapping paths", () => {
     expect(saved.paths).toContain("docs/honojs/website/docs");
   });
 });
+
+describe("detectProvider", () => {
+  it("detects hosted providers from the hostname", () => {
+    expect(detectProvider("https://github.com/owner/repo")).toBe("github");
+    expect(detectProvider("https://gitlab.com/group/project")).toBe("gitlab");
+    expect(detectProvider("https://gitlab.example.com/group/project")).toBe("gitlab");
+    expect(detectProvider("https://bitbucket.org/workspace/repo")).toBe("bitbucket");
+  });
+
+  it("falls back to git for clone URLs", () => {
+    expect(detectProvider("file:///srv/docs.git")).toBe("git");
+    expect(detectProvider("git@example.com:team/docs.git")).toBe("git");
+    expect(detectProvider("https://git.example.com/team/docs.git")).toBe("git");
+  });
+
+  it("rejects unknown hosts", () => {
+    expect(() => detectProvider("https://example.com/team/docs")).toThrow("Unrecognized repository host");
+  });
+});
+
+describe("sourceKey", () => {
+  it("includes host and subpath for GitLab sources", () => {
+    expect(sourceKey({
+      type: "gitlab",
+      url: "https://gitlab.example.com/team/docs",
+      host: "gitlab.example.com",
+      project: "team/docs",
+      branch: "HEAD",
+      subpath: "guides",
+      localPath: "docs/team/docs/guides",
+      addedAt: "",
+    })).toBe("gitlab:gitlab.example.com/team/docs/guides");
+  });
+
+  it("keys git sources by remote URL", () => {
+    expect(sourceKey({
+      type: "git",
+      url: "file:///srv/docs.git",
+      branch: "HEAD",
+      subpath: "",
+      localPath: "docs/srv/docs",
+      addedAt: "",
+    })).toBe("git:file:///srv/docs.git/");
+  });
+});
+
+describe("addFromUrl with a git repository", () => {
+  let tmpDir: string;
+  let configDir: string;
+  let repoDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-addgit-"));
+    configDir = join(tmpDir, ".refdocs");
+    repoDir = join(tmpDir, "upstream");
+    mkdirSync(configDir, { recursive: true });
+    mkdirSync(join(repoDir, "docs"), { recursive: true });
+    writeFileSync(join(repoDir, "docs", "intro.md"), "# Intro\n");
+    execFileSync("git", ["init", "--quiet", repoDir]);
+    execFileSync("git", ["-C", repoDir, "add", "-A"]);
+    execFileSync("git", ["-C", repoDir, "-c", "user.email=t@example.com", "-c", "user.name=T", "commit", "--quiet", "-m", "init"]);
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("clones, extracts the subpath and records the commit", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const config: RefdocsConfig = { paths: [], manifest: "manifest.json" };
+
+    const result = await addFromUrl(`file://${repoDir}`, { subpath: "docs" }, configDir, config);
+    expect(result.source.type).toBe("git");
+    expect(result.filesWritten).toBe(1);
+    expect(existsSync(join(configDir, result.localPath, "intro.md"))).toBe(true);
+
+    const head = execFileSync("git", ["-C", repoDir, "rev-parse", "HEAD"], { encoding: "utf-8" }).trim();
+    expect(loadLock(configDir).sources[sourceKey(result.source)].commit).toBe(head);
+  });
+});
+
+describe("addFromUrl with a file URL", () => {
+  let tmpDir: string;
+  let configDir: string;
+  const config: RefdocsConfig = { paths: [], manifest: "manifest.json" };
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-addfile-"));
+    configDir = join(tmpDir, ".refdocs");
+    mkdirSync(configDir, { recursive: true });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("# Intro\n\nHello.\n\n# Usage\n\nRun it.\n")));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+  });
+
+  it("detects markdown and txt URLs", () => {
+    expect(isFileUrl("https://example.com/docs/llms-full.txt")).toBe(true);
+    expect(isFileUrl("https://raw.githubusercontent.com/o/r/main/README.md")).toBe(true);
+    expect(isFileUrl("https://github.com/owner/repo")).toBe(false);
+  });
+
+  it("treats repository URLs as repositories unless they point at a file page", () => {
+    expect(isFileUrl("https://github.com/o/r/tree/main/docs.md")).toBe(false);
+    expect(isFileUrl("https://github.com/o/r/blob/main/README.md")).toBe(true);
+    expect(rawFileUrl("https://github.com/o/r/blob/main/docs/intro.md"))
+      .toBe("https://raw.githubusercontent.com/o/r/main/docs/intro.md");
+    expect(rawFileUrl("https://gitlab.com/group/sub/project/-/blob/main/README.md"))
+      .toBe("https://gitlab.com/group/sub/project/-/raw/main/README.md");
+    expect(rawFileUrl("https://bitbucket.org/ws/repo/src/main/README.md"))
+      .toBe("https://bitbucket.org/ws/repo/raw/main/README.md");
+    expect(rawFileUrl("https://example.com/o/r/blob/main/README.md")).toBeUndefined();
+  });
+
+  it("downloads the raw file of a blob URL", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl("https://github.com/o/r/blob/main/README.md", {}, configDir, config);
+
+    expect(result.source).toMatchObject({
+      type: "file",
+      url: "https://raw.githubusercontent.com/o/r/main/README.md",
+      localPath: "docs/raw.githubusercontent.com/o/r/main/README.md",
+    });
+    expect(fetch).toHaveBeenCalledWith("https://raw.githubusercontent.com/o/r/main/README.md", expect.anything());
+  });
+
+  it("creates a file source stored under the host and path", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl("https://example.com/docs/llms-full.txt", {}, configDir, config);
+
+    expect(result.source).toMatchObject({ type: "file", localPath: "docs/example.com/docs/llms-full.txt" });
+    expect(readFileSync(join(configDir, result.localPath), "utf-8")).toContain("# Usage");
+
+    const saved = JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8"));
+    expect(saved.paths).toEqual(["docs/example.com/docs/llms-full.txt"]);
+    expect(loadLock(configDir).sources["file:https://example.com/docs/llms-full.txt"].contentHash)
+      .toBe(hashContent("# Intro\n\nHello.\n\n# Usage\n\nRun it.\n"));
+  });
+
+  it("sends the stored validators on update and skips on 304 Not Modified", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("# Intro\n", {
+      headers: { ETag: '"v1"', "Last-Modified": "Wed, 01 Jan 2025 00:00:00 GMT" },
+    })));
+    const result = await addFromUrl("https://example.com/llms.txt", {}, configDir, config);
+    expect(result.lock).toMatchObject({ etag: '"v1"', lastModified: "Wed, 01 Jan 2025 00:00:00 GMT" });
+
+    const fetchMock = vi.fn(async () => new Response(null, { status: 304 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const results = await updateSources({ ...config, sources: [result.source] }, configDir);
+    expect(results[0].upToDate).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith("https://example.com/llms.txt", expect.objectContaining({
+      headers: { "If-None-Match": '"v1"', "If-Modified-Since": "Wed, 01 Jan 2025 00:00:00 GMT" },
+    }));
+    expect(readFileSync(join(configDir, result.localPath), "utf-8")).toBe("# Intro\n");
+  });
+
+  it("treats unchanged content as up to date when the server ignores validators", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl("https://example.com/llms.txt", {}, configDir, config);
+
+    const results = await updateSources({ ...config, sources: [result.source] }, configDir);
+    expect(results[0].upToDate).toBe(true);
+  });
+
+  it("splits a bundle into one file per section", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl("https://example.com/llms-full.txt", { split: true }, configDir, config);
+
+    expect(result.filesWritten).toBe(2);
+    expect(result.localPath).toBe("docs/example.com/llms-full");
+    expect(readFileSync(join(configDir, result.localPath, "usage.md"), "utf-8")).toBe("# Usage\n\nRun it.\n");
+    expect(existsSync(join(configDir, result.localPath, "intro.md"))).toBe(true);
+  });
+});
+
+describe("addFromUrl with a web source", () => {
+  let tmpDir: string;
+  let configDir: string;
+  let server: Server;
+  let origin: string;
+  const config: RefdocsConfig = { paths: [], manifest: "manifest.json" };
+  const pages: Record<string, string> = {};
+
+  beforeEach(async () => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-addweb-"));
+    configDir = join(tmpDir, ".refdocs");
+    mkdirSync(configDir, { recursive: true });
+    pages["/docs/"] = '<main><h1>Docs</h1><a href="setup">Setup</a></main>';
+    pages["/docs/setup"] = "<title>Setup</title><main><p>Run <code>make</code>.</p></main>";
+    server = createServer((req, res) => {
+      const html = pages[req.url ?? ""];
+      if (html === undefined) res.writeHead(404).end();
+      else res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" }).end(html);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("crawls the site into markdown under the host and prefix", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl(`${origin}/docs/`, { type: "web" }, configDir, config);
+
+    expect(result.source).toMatchObject({ type: "web", prefix: "/docs/", localPath: "docs/127.0.0.1/docs" });
+    expect(result.filesWritten).toBe(2);
+    expect(readFileSync(join(configDir, result.localPath, "setup.md"), "utf-8")).toBe("# Setup\n\nRun `make`.\n");
+    expect(loadLock(configDir).sources[`web:${origin}/docs/`].contentHash).toMatch(/^sha256-/);
+  });
+
+  it("refreshes through updateSources and skips unchanged sites", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl(`${origin}/docs/`, { type: "web", maxPages: 5 }, configDir, config);
+    const sources = [result.source];
+
+    expect((await updateSources({ ...config, sources }, configDir))[0].upToDate).toBe(true);
+
+    pages["/docs/setup"] = "<main><h1>Setup</h1><p>Run <code>make install</code>.</p></main>";
+    const [updated] = await updateSources({ ...config, sources }, configDir);
+    expect(updated.changes).toEqual({ added: [], modified: ["setup.md"], deleted: [] });
+    expect(readFileSync(join(configDir, result.localPath, "setup.md"), "utf-8")).toContain("make install");
+  });
+});
+
+describe("npm sources", () => {
+  let tmpDir: string;
+  let configDir: string;
+  const config: RefdocsConfig = { paths: [], manifest: "manifest.json" };
+
+  function install(name: string, version: string, files: Record<string, string>) {
+    const dir = join(tmpDir, "node_modules", name);
+    rmSync(dir, { recursive: true, force: true });
+    for (const [file, content] of Object.entries({ ...files, "package.json": JSON.stringify({ name, version }) })) {
+      mkdirSync(join(dir, file, ".."), { recursive: true });
+      writeFileSync(join(dir, file), content);
+    }
+  }
+
+  function writePackageJson(dependencies: Record<string, string>, devDependencies: Record<string, string> = {}) {
+    writeFileSync(join(tmpDir, "package.json"), JSON.stringify({ name: "app", dependencies, devDependencies }));
+  }
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-addnpm-"));
+    configDir = join(tmpDir, ".refdocs");
+    mkdirSync(configDir, { recursive: true });
+    install("left-pad", "1.3.0", {
+      "README.md": "# left-pad\n",
+      "docs/usage.md": "# Usage\n",
+      "CHANGELOG.md": "# Changes\n",
+      "index.js": "module.exports = 1;\n",
+    });
+    install("@scope/kit", "2.0.0", { "readme.md": "# kit\n" });
+    writePackageJson({ "left-pad": "^1.3.0", "@scope/kit": "^2.0.0" }, { vitest: "^3.0.0" });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+  });
+
+  it("copies the README and docs of the installed package", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl("npm:left-pad", {}, configDir, config);
+
+    expect(result.source).toMatchObject({ type: "npm", url: "npm:left-pad", package: "left-pad", localPath: "docs/npm/left-pad" });
+    expect(result.filesWritten).toBe(2);
+    expect(readFileSync(join(configDir, "docs/npm/left-pad/docs/usage.md"), "utf-8")).toBe("# Usage\n");
+    expect(existsSync(join(configDir, "docs/npm/left-pad/CHANGELOG.md"))).toBe(false);
+    expect(loadLock(configDir).sources["npm:left-pad"]).toMatchObject({ type: "npm", version: "1.3.0" });
+  });
+
+  it("refreshes when the installed version changes", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    const result = await addFromUrl("npm:left-pad", {}, configDir, config);
+    const sources = [result.source];
+    expect((await updateSources({ ...config, sources }, configDir))[0].upToDate).toBe(true);
+
+    install("left-pad", "1.4.0", { "README.md": "# left-pad 1.4\n" });
+    const [updated] = await updateSources({ ...config, sources }, configDir);
+    expect(updated.changes).toEqual({ added: [], modified: ["README.md"], deleted: ["docs/usage.md"] });
+    expect(loadLock(configDir).sources["npm:left-pad"].version).toBe("1.4.0");
+  });
+
+  it("rejects versions in the spec and packages that aren't installed", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    await expect(addFromUrl("npm:left-pad@1.3.0", {}, configDir, config)).rejects.toThrow("leave it out");
+    await expect(addFromUrl("npm:right-pad", {}, configDir, config)).rejects.toThrow("right-pad is not installed");
+  });
+
+  it("falls back to the repository at the release tag", async () => {
+    const { addFromUrl } = await import("../src/add.js");
+    writeFileSync(join(tmpDir, "package-lock.json"), JSON.stringify({
+      lockfileVersion: 3,
+      packages: { "node_modules/remote-kit": { version: "9.9.9" } },
+    }));
+    const fetchMock = vi.fn(async () => Response.json({
+      name: "remote-kit",
+      version: "9.9.9",
+      repository: { type: "git", url: "git+https://github.com/test-owner/test-repo.git" },
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+    vi.mocked(resolveCommitSha).mockClear();
+
+    const result = await addFromUrl("npm:remote-kit", {}, configDir, config);
+    expect(fetchMock).toHaveBeenCalledWith("https://registry.npmjs.org/remote-kit/9.9.9", expect.anything());
+    expect(resolveCommitSha).toHaveBeenCalledWith("test-owner", "test-repo", "v9.9.9", undefined);
+    // Only the README and docs/ of the repository are kept
+    expect(result.filesWritten).toBe(4);
+    expect(existsSync(join(configDir, "docs/npm/remote-kit/docs/nested/advanced.md"))).toBe(true);
+    expect(loadLock(configDir).sources["npm:remote-kit"]).toMatchObject({
+      version: "9.9.9",
+      commit: "0123456789abcdef0123456789abcdef01234567",
+    });
+  });
+
+  it("syncs sources with the dependencies in package.json", async () => {
+    const { syncDependencies } = await import("../src/add.js");
+    const { addFromUrl } = await import("../src/add.js");
+    install("by-hand", "1.0.0", { "README.md": "# by-hand\n" });
+    const manual = (await addFromUrl("npm:by-hand", {}, configDir, config)).source;
+    const withManual = { ...config, paths: ["docs/npm/by-hand"], sources: [manual] };
+
+    const first = await syncDependencies(withManual, configDir);
+    expect(first.added).toEqual(["@scope/kit", "left-pad"]);
+    expect(first.results.every((r) => !r.error)).toBe(true);
+    expect(readFileSync(join(configDir, "docs/npm/@scope/kit/readme.md"), "utf-8")).toBe("# kit\n");
+
+    writePackageJson({ "left-pad": "^1.3.0" });
+    const saved = JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8"));
+    const second = await syncDependencies({ ...config, ...saved }, configDir);
+    expect(second).toMatchObject({ added: [], removed: ["@scope/kit"] });
+    expect(second.results.map((r) => r.upToDate)).toEqual([true, true]);
+    expect(existsSync(join(configDir, "docs/npm/@scope/kit"))).toBe(false);
+    expect(loadLock(configDir).sources["npm:@scope/kit"]).toBeUndefined();
+    // by-hand was never a dependency, but sync-deps didn't add it either
+    const after = JSON.parse(readFileSync(join(configDir, "config.json"), "utf-8"));
+    expect(after.paths).toEqual(["docs/npm/by-hand", "docs/npm/left-pad"]);
+    expect(after.sources.map((s: { package: string; dependency?: boolean }) => [s.package, s.dependency]))
+      .toEqual([["by-hand", undefined], ["left-pad", true]]);
+  });
+});
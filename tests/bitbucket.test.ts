@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { parseBitbucketUrl } from "../src/bitbucket.js";
+
+describe("parseBitbucketUrl", () => {
+  it("parses workspace/repo URL", () => {
+    expect(parseBitbucketUrl("https://bitbucket.org/atlassian/docs")).toEqual({
+      workspace: "atlassian",
+      repo: "docs",
+      branch: null,
+      subpath: "",
+    });
+  });
+
+  it("parses URL with branch and subpath", () => {
+    expect(parseBitbucketUrl("https://bitbucket.org/vendor/sdk/src/release/docs/api")).toEqual({
+      workspace: "vendor",
+      repo: "sdk",
+      branch: "release",
+      subpath: "docs/api",
+    });
+  });
+
+  it("strips .git suffix", () => {
+    expect(parseBitbucketUrl("https://bitbucket.org/vendor/sdk.git").repo).toBe("sdk");
+  });
+
+  it("rejects other hosts", () => {
+    expect(() => parseBitbucketUrl("https://github.com/owner/repo")).toThrow(
+      "Only bitbucket.org URLs are supported"
+    );
+  });
+
+  it("rejects URL with only a workspace", () => {
+    expect(() => parseBitbucketUrl("https://bitbucket.org/vendor")).toThrow(
+      "Could not parse workspace/repo"
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { compactManifest, DEFAULT_BUDGET_MANIFEST } from "../src/budget.js";
+import { buildManifestEntry, buildAndPersistManifest } from "../src/manifest.js";
+import type { Manifest, RefdocsConfig } from "../src/types.js";
+
+function manifestOf(count: number): Manifest {
+  const content = [
+    "# Database",
+    "",
+    "Laravel makes interacting with databases extremely simple across a variety of supported databases using raw SQL.",
+    "",
+    "## Configuration",
+    "",
+    "x".repeat(600),
+    "",
+    "### Read & Write Connections",
+    "",
+    "y".repeat(600),
+    "",
+  ].join("\n");
+  const entries = Array.from({ length: count }, (_, i) =>
+    buildManifestEntry(`docs/vendor-${i % 3}/page-${i}.md`, content),
+  );
+  return { version: 1, generated: "2025-01-01T00:00:00.000Z", sources: 3, files: count, entries };
+}
+
+describe("compactManifest", () => {
+  it("keeps everything when the manifest already fits", () => {
+    const manifest = manifestOf(2);
+    const result = compactManifest(manifest, 100_000);
+    expect(result.compaction).toEqual([]);
+    expect(result.entries![0].sections).toBeDefined();
+    expect(result.tokens).toBeLessThanOrEqual(100_000);
+  });
+
+  it("applies the least lossy steps first", () => {
+    const manifest = manifestOf(10);
+    const budget = compactManifest(manifest, Infinity).tokens - 1;
+
+    const result = compactManifest(manifest, budget);
+    expect(result.compaction).toEqual(["dropped sections"]);
+    expect(result.entries![0].headings).toEqual(["Database", "Configuration", "Read & Write Connections"]);
+    expect(result.tokens).toBeLessThanOrEqual(budget);
+  });
+
+  it("collapses deep headings and trims summaries before dropping them", () => {
+    const manifest = manifestOf(10);
+    const result = compactManifest(manifest, compactManifest(manifest, 1).tokens + 400);
+    expect(result.tokens).toBeLessThanOrEqual(result.budget);
+    expect(result.compaction.slice(0, 2)).toEqual(["dropped sections", "collapsed headings below h2"]);
+  });
+
+  it("groups entries by directory for small budgets", () => {
+    const result = compactManifest(manifestOf(30), 400);
+    expect(result.entries).toBeUndefined();
+    expect(result.groups!.map((g) => g.dir)).toEqual(["docs/vendor-0", "docs/vendor-1", "docs/vendor-2"]);
+    expect(result.groups![0].files).toBe(10);
+  });
+
+  it("returns the most compact form when the budget cannot be met", () => {
+    const result = compactManifest(manifestOf(30), 1);
+    expect(result.compaction.at(-1)).toBe("listed directories only");
+    expect(result.groups![0]).toEqual({ dir: "docs/vendor-0", files: 10 });
+    expect(result.tokens).toBeGreaterThan(1);
+  });
+});
+
+describe("buildAndPersistManifest with a budget", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-budget-"));
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "a.md"), "# A\n\nIntro.\n\n## Setup\n\nSteps.\n");
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("writes the compact manifest next to the full one", () => {
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json", budget: 500 };
+    const build = buildAndPersistManifest(config, tmpDir);
+
+    expect(build.budgeted?.budget).toBe(500);
+    expect(existsSync(join(tmpDir, "manifest.json"))).toBe(true);
+    const written = JSON.parse(readFileSync(join(tmpDir, DEFAULT_BUDGET_MANIFEST), "utf-8"));
+    expect(written.entries[0].file).toBe("docs/a.md");
+  });
+
+  it("lets the option override the config", () => {
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json", budgetManifest: "small.json" };
+    buildAndPersistManifest(config, tmpDir, { budget: 1 });
+    expect(JSON.parse(readFileSync(join(tmpDir, "small.json"), "utf-8")).budget).toBe(1);
+  });
+
+  it("skips the compact manifest without a budget", () => {
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+    expect(buildAndPersistManifest(config, tmpDir).budgeted).toBeUndefined();
+    expect(existsSync(join(tmpDir, DEFAULT_BUDGET_MANIFEST))).toBe(false);
+  });
+});
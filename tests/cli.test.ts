@@ -113,6 +113,64 @@ describe("CLI", () => {
       expect(stdout).toContain("heading");
       expect(stdout).toContain("total");
     });
+
+    it("filters by frontmatter tag and deprecation", () => {
+      const listDir = mkdtempSync(join(tmpdir(), "refdocs-list-"));
+      try {
+        mkdirSync(join(listDir, ".refdocs", "docs"), { recursive: true });
+        writeFileSync(join(listDir, ".refdocs", "config.json"), JSON.stringify({ version: 1, paths: ["docs"] }));
+        writeFileSync(join(listDir, ".refdocs", "docs", "queues.md"), "---\ntags: [jobs]\n---\n# Queues\n");
+        writeFileSync(join(listDir, ".refdocs", "docs", "beanstalk.md"), "---\ntags: [jobs]\ndeprecated: true\n---\n# Beanstalk\n");
+        writeFileSync(join(listDir, ".refdocs", "docs", "routing.md"), "# Routing\n");
+        run("manifest", listDir);
+
+        const tagged = run("list --tag jobs", listDir).stdout;
+        expect(tagged).toContain("docs/beanstalk.md (1 heading, 6 lines) [deprecated]");
+        expect(tagged).toContain("docs/queues.md");
+        expect(tagged).not.toContain("routing.md");
+
+        const current = run("list --tag jobs --no-deprecated", listDir).stdout;
+        expect(current).toContain("docs/queues.md");
+        expect(current).not.toContain("beanstalk.md");
+        expect(current).toContain("1 files total");
+      } finally {
+        rmSync(listDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("refdocs search", () => {
+    it("prints matching sections with line ranges", () => {
+      run("manifest", tmpDir);
+      const { stdout, exitCode } = run("search \"rate limit\"", tmpDir);
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain("docs/api.md#rate-limiting (lines 10-14)");
+    });
+
+    it("prints JSON with --json", () => {
+      run("manifest", tmpDir);
+      const { stdout, exitCode } = run("search installation --json", tmpDir);
+      expect(exitCode).toBe(0);
+      const results = JSON.parse(stdout);
+      expect(results[0]).toMatchObject({ file: "docs/guide.md", anchor: "installation" });
+    });
+  });
+
+  describe("refdocs read", () => {
+    it("prints one section with its breadcrumb", () => {
+      run("manifest", tmpDir);
+      const { stdout, exitCode } = run("read api.md#authentication", tmpDir);
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain("docs/api.md > API Reference > Authentication (lines 5-9)");
+      expect(stdout).toContain("Use Bearer tokens");
+      expect(stdout).not.toContain("Rate Limiting");
+    });
+
+    it("fails for unknown files", () => {
+      const { stderr, exitCode } = run("read nope.md", tmpDir);
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain('File "nope.md" not found');
+    });
   });
 
   describe("refdocs init", () => {
@@ -127,4 +185,76 @@ describe("CLI", () => {
       }
     });
   });
+
+  describe("refdocs migrate", () => {
+    it("moves a legacy .refdocs.json into .refdocs/config.json", () => {
+      const migrateDir = mkdtempSync(join(tmpdir(), "refdocs-migrate-"));
+      try {
+        writeFileSync(join(migrateDir, ".refdocs.json"), JSON.stringify({ paths: ["ref-docs"] }));
+        expect(run("list", migrateDir).stderr).toContain("refdocs migrate");
+
+        const { stdout, exitCode } = run("migrate", migrateDir);
+        expect(exitCode).toBe(0);
+        expect(stdout).toContain("Moved .refdocs.json to .refdocs/config.json");
+        expect(stdout).toContain("Migrated config from version 0 to 1");
+        expect(existsSync(join(migrateDir, ".refdocs", "config.json"))).toBe(true);
+        expect(run("migrate", migrateDir).stdout).toContain("already at version 1");
+      } finally {
+        rmSync(migrateDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("refdocs config validate", () => {
+    it("passes a config that only has warnings", () => {
+      const { stdout, exitCode } = run("config validate", tmpDir);
+      expect(exitCode).toBe(0);
+      expect(stdout).toContain("0 errors, 1 warning");
+      expect(stdout).toContain("warning: /version is 0; run `refdocs migrate`");
+    });
+
+    it("lists errors and warnings with their locations", () => {
+      const configDir = mkdtempSync(join(tmpdir(), "refdocs-config-"));
+      try {
+        mkdirSync(join(configDir, ".refdocs"));
+        writeFileSync(join(configDir, ".refdocs", "config.json"), JSON.stringify({
+          version: 1,
+          pahts: ["docs"],
+          sources: [{ type: "githb", url: "https://github.com/o/r" }],
+        }));
+        const { stdout, exitCode } = run("config validate", configDir);
+        expect(exitCode).toBe(1);
+        expect(stdout).toContain("1 error, 1 warning");
+        expect(stdout).toContain("error: /sources/0/type must be one of: github, gitlab, bitbucket, git, file");
+        expect(stdout).toContain('warning: /pahts is not a known key (did you mean "paths"?)');
+      } finally {
+        rmSync(configDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("refdocs auth status", () => {
+    it("shows the credential reference each source resolves to", () => {
+      const authDir = mkdtempSync(join(tmpdir(), "refdocs-auth-"));
+      try {
+        mkdirSync(join(authDir, ".refdocs"));
+        writeFileSync(join(authDir, ".refdocs", "config.json"), JSON.stringify({
+          paths: ["docs"],
+          credentials: [{ host: "docs.example.com", from: "env:REFDOCS_TEST_UNSET_TOKEN" }],
+          sources: [
+            { type: "file", url: "https://docs.example.com/llms.txt", localPath: "docs/a.txt", addedAt: "" },
+            { type: "file", url: "https://other.example.com/llms.txt", localPath: "docs/b.txt", addedAt: "" },
+          ],
+        }));
+        const { stdout, exitCode } = run("auth status", authDir);
+        expect(exitCode).toBe(0);
+        expect(stdout).toContain(
+          "https://docs.example.com/llms.txt: none, env:REFDOCS_TEST_UNSET_TOKEN (rule docs.example.com) has no token for docs.example.com",
+        );
+        expect(stdout).toContain("https://other.example.com/llms.txt: none");
+      } finally {
+        rmSync(authDir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -3,7 +3,20 @@ import { mkdtempSync, writeFileSync, mkdirSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { readFileSync, existsSync } from "node:fs";
-import { loadConfig, validateConfig, configExists, initConfig, CONFIG_FILENAME, CONFIG_DIR_NAME } from "../src/config.js";
+import {
+  loadConfig,
+  validateConfig,
+  configExists,
+  initConfig,
+  migrateConfig,
+  migrateProject,
+  CONFIG_FILENAME,
+  CONFIG_DIR_NAME,
+  CONFIG_VERSION,
+  LEGACY_CONFIG_FILENAME,
+  validateConfigFile,
+} from "../src/config.js";
+import { checkConfig, formatIssue, CONFIG_SCHEMA_URL } from "../src/schema.js";
 
 describe("validateConfig", () => {
   it("returns no errors for valid config", () => {
@@ -27,17 +40,72 @@ describe("validateConfig", () => {
 
   it("rejects invalid paths", () => {
     const errors = validateConfig({ paths: "not-array" });
-    expect(errors).toContain('"paths" must be an array of strings');
+    expect(errors).toContain("/paths must be an array");
   });
 
   it("rejects non-string items in paths", () => {
     const errors = validateConfig({ paths: [123] });
-    expect(errors).toContain('"paths" must be an array of strings');
+    expect(errors).toContain("/paths/0 must be a string");
   });
 
   it("rejects non-string manifest", () => {
     const errors = validateConfig({ manifest: 123 });
-    expect(errors).toContain('"manifest" must be a string');
+    expect(errors).toContain('/manifest must be a string');
+  });
+
+  it("rejects invalid chunk sizes", () => {
+    expect(validateConfig({ chunkMinTokens: 100, chunkMaxTokens: 800 })).toEqual([]);
+    expect(validateConfig({ chunkMaxTokens: "800" })).toContain('/chunkMaxTokens must be a non-negative integer');
+  });
+
+  it("rejects non-string include/exclude patterns", () => {
+    expect(validateConfig({ include: ["docs/**"], exclude: ["CHANGELOG.md"] })).toEqual([]);
+    expect(validateConfig({ exclude: "CHANGELOG.md" })).toEqual(["/exclude must be an array"]);
+  });
+
+  it("rejects unknown manifest formats", () => {
+    expect(validateConfig({ formats: ["json", "llms-txt"] })).toEqual([]);
+    expect(validateConfig({ formats: ["yaml"] })).toEqual([
+      "/formats/0 must be one of: json, markdown, llms-txt, text",
+    ]);
+  });
+
+  it("rejects non-positive concurrency and archive limits", () => {
+    expect(validateConfig({ concurrency: 8, maxArchiveMB: 200, maxFileMB: 2 })).toEqual([]);
+    expect(validateConfig({ concurrency: 0, maxArchiveMB: "big" })).toEqual([
+      "/concurrency must be a positive integer",
+      "/maxArchiveMB must be a positive integer",
+    ]);
+  });
+
+  it("only accepts credential references, never tokens", () => {
+    expect(validateConfig({ credentials: [{ host: "github.com", owner: "acme", from: "env:ACME_TOKEN" }] })).toEqual([]);
+    expect(validateConfig({ credentials: [{ host: "github.com", from: "ghp_secret" }, "gh"] })).toEqual([
+      '/credentials/0/from must be "env:NAME" or one of: gh, git-credential, netrc',
+      "/credentials/1 must be an object",
+    ]);
+  });
+
+  it("validates network settings", () => {
+    expect(validateConfig({ timeout: 60, retries: 0, caFile: "certs/corp.pem" })).toEqual([]);
+    expect(validateConfig({ timeout: 0, retries: -1, caFile: true })).toEqual([
+      "/timeout must be a positive integer",
+      "/retries must be a non-negative integer",
+      "/caFile must be a string",
+    ]);
+  });
+
+  it("validates each source against its type", () => {
+    const github = { type: "github", url: "https://github.com/o/r", owner: "o", repo: "r", branch: "main", subpath: "", localPath: "docs/o/r", addedAt: "" };
+    expect(validateConfig({ sources: [github] })).toEqual([]);
+
+    const { owner: _owner, ...missingOwner } = github;
+    expect(validateConfig({ sources: [missingOwner, { ...github, type: "githbu" }, { ...github, split: "yes" }] })).toEqual([
+      "/sources/0/owner is required",
+      "/sources/1/type must be one of: github, gitlab, bitbucket, git, file, web, npm",
+    ]);
+    expect(validateConfig({ sources: [{ type: "file", url: "https://example.com/llms.txt", localPath: "docs/llms.txt", addedAt: "", split: "yes" }] }))
+      .toEqual(["/sources/0/split must be a boolean"]);
   });
 });
 
@@ -53,7 +121,8 @@ describe("loadConfig", () => {
   });
 
   it("returns defaults when no config file exists", () => {
-    const { config, configDir } = loadConfig(tmpDir);
+    const { config, configDir, warnings } = loadConfig(tmpDir);
+    expect(warnings).toEqual([]);
     expect(config.paths).toEqual(["docs"]);
     expect(config.manifest).toBe("manifest.json");
     expect(configDir).toBe(join(tmpDir, CONFIG_DIR_NAME));
@@ -92,6 +161,181 @@ describe("loadConfig", () => {
     );
     expect(() => loadConfig(tmpDir)).toThrow(`Invalid ${CONFIG_DIR_NAME}/${CONFIG_FILENAME}`);
   });
+
+  it("loads a config with unknown keys and returns them as warnings", () => {
+    mkdirSync(join(tmpDir, CONFIG_DIR_NAME), { recursive: true });
+    writeFileSync(
+      join(tmpDir, CONFIG_DIR_NAME, CONFIG_FILENAME),
+      JSON.stringify({ paths: ["docs"], manfiest: "m.json" })
+    );
+    expect(loadConfig(tmpDir).warnings).toEqual(['/manfiest is not a known key (did you mean "manifest"?)']);
+  });
+
+  it("migrates an unversioned config in memory", () => {
+    mkdirSync(join(tmpDir, CONFIG_DIR_NAME), { recursive: true });
+    const configPath = join(tmpDir, CONFIG_DIR_NAME, CONFIG_FILENAME);
+    const source = { url: "https://github.com/o/r", owner: "o", repo: "r", branch: "main", subpath: "", localPath: "docs/o/r", addedAt: "" };
+    writeFileSync(configPath, JSON.stringify({ paths: ["docs"], sources: [source] }));
+
+    const { config } = loadConfig(tmpDir);
+    expect(config.version).toBe(CONFIG_VERSION);
+    expect(config.sources?.[0].type).toBe("github");
+    expect(JSON.parse(readFileSync(configPath, "utf-8")).version).toBeUndefined();
+  });
+
+  it("rejects a config from a newer version", () => {
+    mkdirSync(join(tmpDir, CONFIG_DIR_NAME), { recursive: true });
+    writeFileSync(
+      join(tmpDir, CONFIG_DIR_NAME, CONFIG_FILENAME),
+      JSON.stringify({ version: CONFIG_VERSION + 1, paths: ["docs"] })
+    );
+    expect(() => loadConfig(tmpDir)).toThrow("Upgrade refdocs");
+  });
+
+  it("points a legacy .refdocs.json at refdocs migrate", () => {
+    writeFileSync(join(tmpDir, LEGACY_CONFIG_FILENAME), JSON.stringify({ paths: ["ref-docs"] }));
+    expect(() => loadConfig(tmpDir)).toThrow("refdocs migrate");
+  });
+});
+
+describe("checkConfig", () => {
+  it("warns about unknown keys and suggests the closest known one", () => {
+    const result = checkConfig({ paths: ["docs"], chunkMaxTokns: 800, credentials: [{ host: "github.com", from: "gh", scope: "x" }] });
+    expect(result.errors).toEqual([]);
+    expect(result.warnings.map(formatIssue)).toEqual([
+      '/chunkMaxTokns is not a known key (did you mean "chunkMaxTokens"?)',
+      "/credentials/0/scope is not a known key",
+    ]);
+  });
+
+  it("rejects git URLs that start with a dash", () => {
+    const source = { type: "git", url: "--upload-pack=touch /tmp/x;.git", branch: "HEAD", subpath: "", localPath: "docs/x", addedAt: "" };
+    expect(checkConfig({ paths: ["docs"], sources: [source] }).errors.map(formatIssue))
+      .toEqual(['/sources/0/url must not start with "-"']);
+  });
+
+  it("rejects localPaths outside .refdocs/", () => {
+    const source = { type: "git", url: "https://example.com/repo.git", branch: "HEAD", subpath: "", addedAt: "" };
+    const sources = ["../../etc", "/tmp/docs", "docs/../..", "."].map((localPath) => ({ ...source, localPath }));
+    expect(checkConfig({ paths: ["docs"], sources }).errors.map(formatIssue)).toEqual([0, 1, 2, 3].map(
+      (i) => `/sources/${i}/localPath must be a relative path inside .refdocs/`,
+    ));
+  });
+
+  it("escapes keys in pointers", () => {
+    expect(checkConfig({ boostFields: { "a/b~c": 1 } }).warnings[0].pointer).toBe("/boostFields/a~1b~0c");
+  });
+});
+
+describe("validateConfigFile", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reports unparseable JSON as an error", () => {
+    const configPath = join(tmpDir, CONFIG_FILENAME);
+    writeFileSync(configPath, "{ paths: [");
+    const { errors } = validateConfigFile(configPath);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toMatch(/^Invalid JSON/);
+  });
+
+  it("warns when the config needs migrating", () => {
+    const configPath = join(tmpDir, CONFIG_FILENAME);
+    writeFileSync(configPath, JSON.stringify({ paths: ["docs"] }));
+    expect(validateConfigFile(configPath)).toEqual({
+      errors: [],
+      warnings: [{ pointer: "/version", message: "is 0; run `refdocs migrate` to upgrade the file to version 1" }],
+    });
+  });
+});
+
+describe("migrateConfig", () => {
+  it("leaves a current config untouched", () => {
+    const raw = { version: CONFIG_VERSION, paths: ["docs"] };
+    expect(migrateConfig(raw)).toEqual({ config: raw, from: CONFIG_VERSION, to: CONFIG_VERSION, applied: [] });
+  });
+
+  it("only types sources that look like GitHub repos", () => {
+    const { config, from, applied } = migrateConfig({
+      sources: [{ owner: "o", repo: "r" }, { url: "https://example.com/x.md" }, { type: "git", owner: "o", repo: "r" }],
+    });
+    expect(from).toBe(0);
+    expect(applied).toHaveLength(1);
+    expect(config.sources).toEqual([
+      { type: "github", owner: "o", repo: "r" },
+      { url: "https://example.com/x.md" },
+      { type: "git", owner: "o", repo: "r" },
+    ]);
+  });
+});
+
+describe("migrateProject", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("moves a legacy .refdocs.json into .refdocs/config.json", () => {
+    const legacyPath = join(tmpDir, LEGACY_CONFIG_FILENAME);
+    writeFileSync(legacyPath, JSON.stringify({
+      paths: ["ref-docs"],
+      index: ".refdocs-index.json",
+      chunkMaxTokens: 800,
+    }));
+
+    const result = migrateProject(tmpDir);
+    expect(result.legacyPath).toBe(legacyPath);
+    expect(result.from).toBe(0);
+    expect(existsSync(legacyPath)).toBe(false);
+
+    const written = JSON.parse(readFileSync(join(tmpDir, CONFIG_DIR_NAME, CONFIG_FILENAME), "utf-8"));
+    expect(written).toEqual({
+      version: CONFIG_VERSION,
+      paths: ["../ref-docs"],
+      manifest: "manifest.json",
+      index: "../.refdocs-index.json",
+      chunkMaxTokens: 800,
+    });
+    expect(loadConfig(tmpDir).config.paths).toEqual(["../ref-docs"]);
+  });
+
+  it("upgrades .refdocs/config.json in place", () => {
+    mkdirSync(join(tmpDir, CONFIG_DIR_NAME), { recursive: true });
+    const configPath = join(tmpDir, CONFIG_DIR_NAME, CONFIG_FILENAME);
+    const source = { url: "https://github.com/o/r", owner: "o", repo: "r", branch: "main", subpath: "", localPath: "docs/o/r", addedAt: "" };
+    writeFileSync(configPath, JSON.stringify({ paths: ["docs"], sources: [source] }));
+
+    const result = migrateProject(tmpDir);
+    expect(result).toMatchObject({ from: 0, to: CONFIG_VERSION });
+    const written = JSON.parse(readFileSync(configPath, "utf-8"));
+    expect(written.version).toBe(CONFIG_VERSION);
+    expect(written.sources[0].type).toBe("github");
+  });
+
+  it("does not rewrite a current config", () => {
+    mkdirSync(join(tmpDir, CONFIG_DIR_NAME), { recursive: true });
+    const configPath = join(tmpDir, CONFIG_DIR_NAME, CONFIG_FILENAME);
+    writeFileSync(configPath, `{"version":${CONFIG_VERSION},"paths":["docs"]}`);
+
+    expect(migrateProject(tmpDir).applied).toEqual([]);
+    expect(readFileSync(configPath, "utf-8")).toBe(`{"version":${CONFIG_VERSION},"paths":["docs"]}`);
+  });
+
+  it("throws when there is no config to migrate", () => {
+    expect(() => migrateProject(tmpDir)).toThrow("No .refdocs/config.json");
+  });
 });
 
 describe("configExists", () => {
@@ -134,6 +378,8 @@ describe("initConfig", () => {
     expect(existsSync(join(tmpDir, CONFIG_DIR_NAME))).toBe(true);
 
     const written = JSON.parse(readFileSync(configPath, "utf-8"));
+    expect(written.$schema).toBe(CONFIG_SCHEMA_URL);
+    expect(written.version).toBe(CONFIG_VERSION);
     expect(written.paths).toEqual(["docs"]);
     expect(written.manifest).toBe("manifest.json");
   });
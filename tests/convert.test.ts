@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, mkdirSync, rmSync, readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  convertToMarkdown,
+  generatedFrom,
+  isGeneratedCopy,
+  markdownPath,
+  sourceFormat,
+  syncGeneratedCopies,
+  withMarker,
+} from "../src/convert.js";
+import { rstToMarkdown } from "../src/rst.js";
+import { asciidocToMarkdown } from "../src/asciidoc.js";
+import { htmlToMarkdown } from "../src/html.js";
+
+describe("rstToMarkdown", () => {
+  it("numbers heading levels in the order underline styles appear", () => {
+    const rst = "=====\nGuide\n=====\n\nInstall\n=======\n\nUsage\n-----\n\nMore\n====\n";
+    expect(rstToMarkdown(rst)).toBe("# Guide\n\n## Install\n\n### Usage\n\n## More\n");
+  });
+
+  it("turns code directives and literal blocks into fenced code", () => {
+    const rst = [
+      ".. code-block:: python",
+      "   :linenos:",
+      "",
+      "   def f():",
+      "       return 1",
+      "",
+      "Run this::",
+      "",
+      "    pip install thing",
+      "",
+    ].join("\n");
+    expect(rstToMarkdown(rst)).toBe(
+      "```python\ndef f():\n    return 1\n```\n\nRun this:\n\n```\npip install thing\n```\n",
+    );
+  });
+
+  it("quotes admonitions and drops comments and unknown directives", () => {
+    const rst = ".. note:: Mind the\n   gap.\n\n.. a comment\n   that continues\n\n.. toctree::\n   :maxdepth: 2\n\nText\n";
+    expect(rstToMarkdown(rst)).toBe("> **Note:** Mind the\n> gap.\n\nText\n");
+  });
+
+  it("rewrites inline markup", () => {
+    const rst = "Use ``run()`` from :func:`pkg.run` (see `the docs <https://x.dev>`_).\n";
+    expect(rstToMarkdown(rst)).toBe("Use `run()` from `pkg.run` (see [the docs](https://x.dev)).\n");
+  });
+});
+
+describe("asciidocToMarkdown", () => {
+  it("converts headings and drops attributes and comments", () => {
+    const adoc = "= Guide\n:toc:\n\n// hidden\n== Install\n\n////\nhidden too\n////\nText\n";
+    expect(asciidocToMarkdown(adoc)).toBe("# Guide\n\n## Install\n\nText\n");
+  });
+
+  it("turns source listings into fenced code", () => {
+    const adoc = "[source,bash]\n----\nnpm install thing\n----\n";
+    expect(asciidocToMarkdown(adoc)).toBe("```bash\nnpm install thing\n```\n");
+  });
+
+  it("quotes admonitions", () => {
+    expect(asciidocToMarkdown("NOTE: Requires Node 20.\n")).toBe("> **Note:** Requires Node 20.\n");
+    expect(asciidocToMarkdown("[WARNING]\n====\nNot as root.\n====\n")).toBe("> **Warning:** Not as root.\n");
+  });
+
+  it("rewrites lists, links and emphasis", () => {
+    const adoc = "* *one*\n** _nested_\n. first\n\nSee https://x.dev[the site] and <<install,Install>>.\n";
+    expect(asciidocToMarkdown(adoc)).toBe(
+      "- **one**\n  - *nested*\n1. first\n\nSee [the site](https://x.dev) and Install.\n",
+    );
+  });
+});
+
+describe("htmlToMarkdown", () => {
+  it("keeps the main content and drops navigation", () => {
+    const html = [
+      "<html><head><title>Routing</title><script>track()</script></head><body>",
+      "<nav><a href='/'>Home</a></nav>",
+      "<main><h2>Routes</h2><p>Define <code>GET</code> routes.</p><pre><code>app.get()</code></pre></main>",
+      "<footer>Copyright</footer>",
+      "</body></html>",
+    ].join("");
+    const markdown = htmlToMarkdown(html);
+    expect(markdown).toBe("# Routing\n\n## Routes\n\nDefine `GET` routes.\n\n```\napp.get()\n```\n");
+  });
+
+  it("doesn't add the title when the page has an h1", () => {
+    expect(htmlToMarkdown("<title>Site</title><body><h1>Page</h1><p>Text</p></body>")).toBe("# Page\n\nText\n");
+  });
+});
+
+describe("markers", () => {
+  it("marks converted markdown below any frontmatter", () => {
+    expect(withMarker("---\ntitle: A\n---\n# A\n", "docs/a.rst")).toBe(
+      "---\ntitle: A\n---\n<!-- Generated by refdocs from a.rst; edit that file instead. -->\n\n# A\n",
+    );
+  });
+
+  it("reads back the original file and its format", () => {
+    const markdown = convertToMarkdown("Guide\n=====\n", "docs/guide.rst", "rst");
+    expect(generatedFrom(markdown)).toBe("guide.rst");
+    expect(sourceFormat(markdown)).toBe("rst");
+    expect(sourceFormat(withMarker("# A\n", "a.mdx"))).toBe("mdx");
+    expect(sourceFormat("# A\n")).toBeUndefined();
+  });
+
+  it("maps every extension to a .md path", () => {
+    expect(markdownPath("docs/guide.asciidoc")).toBe("docs/guide.md");
+    expect(markdownPath("docs/index.HTML")).toBe("docs/index.md");
+  });
+});
+
+describe("syncGeneratedCopies", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-convert-"));
+    mkdirSync(join(tmpDir, "docs"));
+    writeFileSync(join(tmpDir, "docs", "install.mdx"), "import X from 'x';\n\n# Install\n\n<X />\nRun it.\n");
+    writeFileSync(join(tmpDir, "docs", "api.mdx"), "# API\n");
+    writeFileSync(join(tmpDir, "docs", "api.md"), "# Hand-written API notes\n");
+    writeFileSync(join(tmpDir, "docs", "guide.rst"), "Guide\n=====\n\nText\n");
+    writeFileSync(join(tmpDir, "docs", "notes.adoc"), "= Notes\n");
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const files = ["docs/api.md", "docs/api.mdx", "docs/guide.rst", "docs/install.mdx", "docs/notes.adoc"];
+
+  it("writes copies and catalogs them instead of the .mdx files", () => {
+    expect(syncGeneratedCopies(files, tmpDir, { mdxCopies: true })).toEqual({
+      files: ["docs/api.md", "docs/api.mdx", "docs/install.md"],
+      copies: ["docs/install.md"],
+    });
+    expect(isGeneratedCopy(join(tmpDir, "docs", "install.md"))).toBe(true);
+    // A document refdocs didn't write is left alone
+    expect(readFileSync(join(tmpDir, "docs", "api.md"), "utf-8")).toBe("# Hand-written API notes\n");
+  });
+
+  it("converts only the enabled formats", () => {
+    expect(syncGeneratedCopies(files, tmpDir, { convert: ["rst"] }).files).toEqual([
+      "docs/api.md",
+      "docs/api.mdx",
+      "docs/guide.md",
+      "docs/install.mdx",
+    ]);
+    expect(readFileSync(join(tmpDir, "docs", "guide.md"), "utf-8")).toBe(
+      "<!-- Generated by refdocs from guide.rst; edit that file instead. -->\n\n# Guide\n\nText\n",
+    );
+    expect(existsSync(join(tmpDir, "docs", "notes.md"))).toBe(false);
+  });
+
+  it("deletes its copies when disabled", () => {
+    const { copies } = syncGeneratedCopies(files, tmpDir, { mdxCopies: true, convert: ["rst"] });
+    const withCopies = [...files, "docs/guide.md", "docs/install.md"].sort();
+    expect(syncGeneratedCopies(withCopies, tmpDir, { copies }).files).toEqual(["docs/api.md", "docs/api.mdx", "docs/install.mdx"]);
+    expect(existsSync(join(tmpDir, "docs", "install.md"))).toBe(false);
+    expect(existsSync(join(tmpDir, "docs", "guide.md"))).toBe(false);
+    expect(existsSync(join(tmpDir, "docs", "api.md"))).toBe(true);
+  });
+
+  it("only deletes copies it wrote", () => {
+    writeFileSync(join(tmpDir, "docs", "install.md"), withMarker("# Install\n", "install.mdx"));
+    writeFileSync(join(tmpDir, "docs", "guide.md"), convertToMarkdown("Guide\n=====\n", "guide.rst", "rst"));
+    syncGeneratedCopies([...files, "docs/guide.md", "docs/install.md"].sort(), tmpDir, {});
+    expect(existsSync(join(tmpDir, "docs", "install.md"))).toBe(true);
+    expect(existsSync(join(tmpDir, "docs", "guide.md"))).toBe(true);
+  });
+
+  it("deletes earlier copies whose original is gone", () => {
+    const { copies } = syncGeneratedCopies(files, tmpDir, { mdxCopies: true, convert: ["rst"] });
+    rmSync(join(tmpDir, "docs", "install.mdx"));
+    // Converted markdown a repository source downloaded has no original either
+    writeFileSync(join(tmpDir, "docs", "setup.md"), convertToMarkdown("Setup\n=====\n", "setup.rst", "rst"));
+
+    const remaining = ["docs/api.md", "docs/api.mdx", "docs/guide.md", "docs/guide.rst", "docs/install.md", "docs/setup.md"];
+    expect(syncGeneratedCopies(remaining, tmpDir, { mdxCopies: true, convert: ["rst"], copies }).files)
+      .toEqual(["docs/api.md", "docs/api.mdx", "docs/guide.md", "docs/setup.md"]);
+    expect(existsSync(join(tmpDir, "docs", "install.md"))).toBe(false);
+    expect(existsSync(join(tmpDir, "docs", "setup.md"))).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  isCredentialReference,
+  credentialTarget,
+  resolveCredential,
+  readCredential,
+  parseNetrc,
+} from "../src/credentials.js";
+import type { GitHubSource, FileSource, RefdocsConfig } from "../src/types.js";
+
+const acme: GitHubSource = {
+  type: "github",
+  url: "https://github.com/acme/handbook",
+  owner: "acme",
+  repo: "handbook",
+  branch: "HEAD",
+  subpath: "",
+  localPath: "docs/acme/handbook",
+  addedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const file: FileSource = {
+  type: "file",
+  url: "https://docs.example.com/private/llms.txt",
+  localPath: "docs/docs.example.com/private/llms.txt",
+  addedAt: "2025-01-01T00:00:00.000Z",
+};
+
+function configWith(credentials: RefdocsConfig["credentials"]): RefdocsConfig {
+  return { paths: ["docs"], manifest: "manifest.json", credentials };
+}
+
+describe("isCredentialReference", () => {
+  it("accepts references and rejects literal tokens", () => {
+    expect(isCredentialReference("env:ACME_TOKEN")).toBe(true);
+    expect(isCredentialReference("gh")).toBe(true);
+    expect(isCredentialReference("netrc")).toBe(true);
+    expect(isCredentialReference("ghp_0123456789abcdef")).toBe(false);
+    expect(isCredentialReference("env:")).toBe(false);
+  });
+});
+
+describe("credentialTarget", () => {
+  it("derives host and owner from the source", () => {
+    expect(credentialTarget(acme)).toEqual({ host: "github.com", owner: "acme" });
+    expect(credentialTarget(file)).toEqual({ host: "docs.example.com", owner: "private/llms.txt" });
+    expect(credentialTarget({ ...acme, type: "git", url: "git@host:a/b.git" } as never)).toBeUndefined();
+  });
+});
+
+describe("resolveCredential", () => {
+  it("prefers owner rules over host rules", async () => {
+    const config = configWith([
+      { host: "github.com", from: "env:GENERIC" },
+      { host: "github.com", owner: "acme", from: "env:ACME_TOKEN" },
+    ]);
+    const env = { GENERIC: "generic", ACME_TOKEN: "acme-secret" };
+    expect(await resolveCredential(acme, config, env)).toMatchObject({ token: "acme-secret", from: "env:ACME_TOKEN" });
+    expect(await resolveCredential({ ...acme, owner: "other" }, config, env)).toMatchObject({ token: "generic" });
+  });
+
+  it("falls through rules without a token to the provider env var", async () => {
+    const config = configWith([{ host: "github.com", owner: "acme", from: "env:MISSING" }]);
+    expect(await resolveCredential(acme, config, { GITHUB_TOKEN: "default" })).toEqual({
+      token: "default",
+      from: "env:GITHUB_TOKEN",
+    });
+    expect(await resolveCredential(acme, config, {})).toMatchObject({ from: "env:MISSING" });
+  });
+
+  it("only sends tokens to file URLs with a matching rule", async () => {
+    expect((await resolveCredential(file, configWith([]), { GITHUB_TOKEN: "x" })).token).toBeUndefined();
+    const config = configWith([{ host: "docs.example.com", owner: "private", from: "env:DOCS_TOKEN" }]);
+    expect((await resolveCredential(file, config, { DOCS_TOKEN: "docs" })).token).toBe("docs");
+  });
+});
+
+describe("netrc", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-credentials-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  it("parses machine and default entries", () => {
+    const netrc = [
+      "# work",
+      "machine gitlab.example.com login ci password glpat-secret",
+      "default login anonymous password fallback",
+    ].join("\n");
+    expect(parseNetrc(netrc, "gitlab.example.com")).toBe("glpat-secret");
+    expect(parseNetrc(netrc, "other.example.com")).toBe("fallback");
+    expect(parseNetrc("machine a login x password y", "b")).toBeUndefined();
+  });
+
+  it("reads the file named by NETRC", async () => {
+    const path = join(tmpDir, "netrc");
+    writeFileSync(path, "machine github.com login me password from-netrc\n");
+    expect(await readCredential("netrc", { host: "github.com", owner: "acme" }, { NETRC: path })).toBe("from-netrc");
+  });
+
+  it("asks git credential helpers", async () => {
+    const gitconfig = join(tmpDir, "gitconfig");
+    writeFileSync(gitconfig, '[credential]\n\thelper = "!f() { echo username=x; echo password=from-helper; }; f"\n');
+    vi.stubEnv("GIT_CONFIG_GLOBAL", gitconfig);
+    vi.stubEnv("GIT_CONFIG_NOSYSTEM", "1");
+    expect(await readCredential("git-credential", { host: "github.com", owner: "acme" })).toBe("from-helper");
+  });
+});
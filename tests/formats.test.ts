@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  parseFormats,
+  formatFilename,
+  groupEntries,
+  renderMarkdown,
+  renderLlmsTxt,
+  renderText,
+} from "../src/formats.js";
+import { buildManifestEntry, buildAndPersistManifest } from "../src/manifest.js";
+import type { GitHubSource, Manifest, RefdocsConfig } from "../src/types.js";
+
+const source: GitHubSource = {
+  type: "github",
+  url: "https://github.com/laravel/docs",
+  owner: "laravel",
+  repo: "docs",
+  branch: "11.x",
+  subpath: "",
+  localPath: "docs/laravel",
+  addedAt: "2025-01-01T00:00:00.000Z",
+};
+
+const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json", sources: [source] };
+
+const database = [
+  "# Database",
+  "",
+  "Laravel makes interacting with databases simple.",
+  "",
+  "## Configuration",
+  "",
+  "x".repeat(500),
+].join("\n");
+
+function sampleManifest(): Manifest {
+  const entries = [
+    buildManifestEntry("docs/laravel/database.md", database),
+    buildManifestEntry("docs/notes/team guide.md", "Just some notes.\n"),
+  ];
+  return { version: 1, generated: "2025-01-01T00:00:00.000Z", sources: 1, files: 2, entries };
+}
+
+describe("parseFormats", () => {
+  it("parses a comma-separated list", () => {
+    expect(parseFormats("markdown, llms-txt,markdown")).toEqual(["markdown", "llms-txt"]);
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => parseFormats("json,yaml")).toThrow('Unknown format "yaml"');
+  });
+});
+
+describe("formatFilename", () => {
+  it("uses the configured manifest for json", () => {
+    expect(formatFilename("json", { ...config, manifest: "catalog.json" })).toBe("catalog.json");
+    expect(formatFilename("llms-txt", config)).toBe("llms.txt");
+  });
+});
+
+describe("groupEntries", () => {
+  it("groups by source and falls back to the configured path", () => {
+    const groups = groupEntries(sampleManifest(), config);
+    expect(groups.map((g) => g.title)).toEqual(["laravel/docs", "docs"]);
+    expect(groups[0].entries[0].file).toBe("docs/laravel/database.md");
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("lists files with linked sections", () => {
+    const md = renderMarkdown(sampleManifest(), config);
+    expect(md).toContain("## laravel/docs");
+    expect(md).toContain("- [Database](docs/laravel/database.md) (7 lines) Laravel makes interacting with databases simple.");
+    expect(md).toContain("  - [Configuration](docs/laravel/database.md#configuration) (lines 5-7)");
+    expect(md).toContain("[team guide](docs/notes/team%20guide.md)");
+  });
+});
+
+describe("renderLlmsTxt", () => {
+  it("follows the llms.txt layout", () => {
+    const txt = renderLlmsTxt(sampleManifest(), config, "my-app");
+    const lines = txt.split("\n");
+    expect(lines[0]).toBe("# my-app");
+    expect(lines[2]).toBe("> Reference documentation cataloged by refdocs: 2 files from 1 source.");
+    expect(txt).toContain("## laravel/docs\n\n- [Database](docs/laravel/database.md): Laravel makes interacting with databases simple.");
+  });
+});
+
+describe("renderText", () => {
+  it("prints one line per file", () => {
+    expect(renderText(sampleManifest())).toBe(
+      "docs/laravel/database.md (7 lines) Database | Configuration\n" +
+      "docs/notes/team guide.md (2 lines)\n",
+    );
+  });
+});
+
+describe("buildAndPersistManifest formats", () => {
+  let tmpDir: string;
+  let configDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-formats-"));
+    configDir = join(tmpDir, ".refdocs");
+    mkdirSync(join(configDir, "docs/laravel"), { recursive: true });
+    writeFileSync(join(configDir, "docs/laravel/database.md"), database);
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("writes configured formats next to the JSON manifest", () => {
+    const build = buildAndPersistManifest({ ...config, formats: ["json", "markdown", "llms-txt"] }, configDir);
+    expect(build.outputs).toEqual(["manifest.md", "llms.txt"]);
+    expect(existsSync(join(configDir, "manifest.json"))).toBe(true);
+    expect(readFileSync(join(configDir, "manifest.md"), "utf-8")).toContain("# Documentation index");
+    expect(existsSync(join(configDir, "manifest.txt"))).toBe(false);
+  });
+
+  it("lets the formats option override the config", () => {
+    const build = buildAndPersistManifest({ ...config, formats: ["markdown"] }, configDir, { formats: ["text"] });
+    expect(build.outputs).toEqual(["manifest.txt"]);
+    expect(existsSync(join(configDir, "manifest.md"))).toBe(false);
+  });
+});
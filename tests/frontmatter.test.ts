@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { parseFrontmatter, extractMetadata } from "../src/frontmatter.js";
+
+describe("parseFrontmatter", () => {
+  it("parses a YAML block and counts its lines", () => {
+    const content = "---\ntitle: Routing\ntags:\n  - http\n  - routing\n---\n\n# Routing\n";
+    expect(parseFrontmatter(content)).toEqual({
+      data: { title: "Routing", tags: ["http", "routing"] },
+      lines: 6,
+    });
+  });
+
+  it("accepts ... as the closing delimiter", () => {
+    expect(parseFrontmatter("---\ntitle: A\n...\nBody").data).toEqual({ title: "A" });
+  });
+
+  it("parses folded and quoted values", () => {
+    const content = '---\ndescription: >\n  Spans two\n  lines.\nsummary: "a: b"\n---\n';
+    expect(parseFrontmatter(content).data).toEqual({ description: "Spans two lines.\n", summary: "a: b" });
+  });
+
+  it("keeps versions as written", () => {
+    expect(parseFrontmatter("---\nversion: 2.0\n---\n").data.version).toBe("2.0");
+    expect(parseFrontmatter("---\nversion: v3\n---\n").data.version).toBe("v3");
+  });
+
+  it("ignores a document that opens with a horizontal rule", () => {
+    const content = "---\n\nSome intro text.\n\n---\n\n# Title\n";
+    expect(parseFrontmatter(content)).toEqual({ data: {}, lines: 0 });
+  });
+
+  it("ignores unterminated and malformed blocks", () => {
+    expect(parseFrontmatter("---\ntitle: A\n\n# Title\n").lines).toBe(0);
+    expect(parseFrontmatter("---\ntitle: [unclosed\n---\n").lines).toBe(0);
+  });
+
+  it("returns nothing without frontmatter", () => {
+    expect(parseFrontmatter("# Title\n---\ntitle: no\n---\n")).toEqual({ data: {}, lines: 0 });
+  });
+});
+
+describe("extractMetadata", () => {
+  it("maps the well-known keys to entry fields", () => {
+    expect(extractMetadata({
+      title: " Queues ",
+      description: "Background jobs.",
+      tags: ["jobs", { label: "async", permalink: "/tags/async" }],
+      sidebar_position: "3",
+      version: "11.x",
+      deprecated: "Use Horizon instead",
+      slug: "/queues",
+    })).toEqual({
+      title: "Queues",
+      description: "Background jobs.",
+      tags: ["jobs", "async"],
+      sidebarPosition: 3,
+      version: "11.x",
+      deprecated: true,
+    });
+  });
+
+  it("accepts comma-separated tags", () => {
+    expect(extractMetadata({ tags: "a, b," }).tags).toEqual(["a", "b"]);
+  });
+
+  it("skips values of the wrong shape", () => {
+    expect(extractMetadata({ title: 42, tags: [], sidebar_position: "first", deprecated: false })).toEqual({});
+  });
+
+  it("only carries allowed keys, copying unknown ones as written", () => {
+    expect(extractMetadata({ title: "A", slug: "/a", sidebar_label: "Alpha" }, ["slug", "sidebar_label"])).toEqual({
+      frontmatter: { slug: "/a", sidebar_label: "Alpha" },
+    });
+  });
+});
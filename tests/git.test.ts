@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { isGitUrl, parseGitUrl, fetchGitArchive, resolveGitCommit } from "../src/git.js";
+import { extractMarkdownFiles } from "../src/add.js";
+
+describe("isGitUrl", () => {
+  it("recognizes git-specific schemes", () => {
+    expect(isGitUrl("git@github.com:owner/repo.git")).toBe(true);
+    expect(isGitUrl("ssh://git@host/owner/repo")).toBe(true);
+    expect(isGitUrl("file:///srv/repos/docs.git")).toBe(true);
+    expect(isGitUrl("https://git.example.com/docs.git")).toBe(true);
+  });
+
+  it("ignores plain web URLs", () => {
+    expect(isGitUrl("https://github.com/owner/repo")).toBe(false);
+  });
+});
+
+describe("parseGitUrl", () => {
+  it("derives the name from the last two path segments", () => {
+    expect(parseGitUrl("https://git.example.com/team/docs.git").name).toBe("team/docs");
+    expect(parseGitUrl("git@host.example:team/docs.git").name).toBe("team/docs");
+    expect(parseGitUrl("file:///srv/docs.git").name).toBe("srv/docs");
+  });
+
+  it("rejects URLs without a path", () => {
+    expect(() => parseGitUrl("file:///")).toThrow("Could not parse repository name");
+  });
+
+  it("rejects URLs git would read as options", () => {
+    expect(() => parseGitUrl("--upload-pack=touch /tmp/x;.git")).toThrow("Invalid git URL");
+  });
+});
+
+describe("fetchGitArchive", () => {
+  let tmpDir: string;
+  let repoDir: string;
+  let firstCommit: string;
+
+  function git(...args: string[]): string {
+    return execFileSync("git", ["-C", repoDir, ...args], { encoding: "utf-8" }).trim();
+  }
+
+  beforeAll(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-git-"));
+    repoDir = join(tmpDir, "repo");
+    mkdirSync(join(repoDir, "docs"), { recursive: true });
+    execFileSync("git", ["init", "--quiet", "--initial-branch=main", repoDir]);
+    git("config", "user.email", "test@example.com");
+    git("config", "user.name", "Test");
+    writeFileSync(join(repoDir, "README.md"), "# Readme\n");
+    writeFileSync(join(repoDir, "docs", "guide.md"), "# Guide v1\n");
+    git("add", "-A");
+    git("commit", "--quiet", "-m", "first");
+    firstCommit = git("rev-parse", "HEAD");
+    writeFileSync(join(repoDir, "docs", "guide.md"), "# Guide v2\n");
+    git("commit", "--quiet", "-am", "second");
+  });
+
+  afterAll(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("archives the branch tip of a file:// repo", async () => {
+    const archive = await fetchGitArchive(`file://${repoDir}`);
+    expect(archive.commit).toBe(git("rev-parse", "HEAD"));
+
+    const out = join(tmpDir, "tip");
+    const count = await extractMarkdownFiles(archive.tarball, "docs", out);
+    expect(count).toBe(1);
+    expect(readFileSync(join(out, "guide.md"), "utf-8")).toBe("# Guide v2\n");
+  });
+
+  it("archives a pinned commit", async () => {
+    const archive = await fetchGitArchive(`file://${repoDir}`, undefined, firstCommit);
+    expect(archive.commit).toBe(firstCommit);
+
+    const out = join(tmpDir, "pinned");
+    await extractMarkdownFiles(archive.tarball, "", out);
+    expect(existsSync(join(out, "README.md"))).toBe(true);
+    expect(readFileSync(join(out, "docs", "guide.md"), "utf-8")).toBe("# Guide v1\n");
+  });
+
+  it("stops streaming once the archive passes the byte limit", async () => {
+    const archive = await fetchGitArchive(`file://${repoDir}`, undefined, undefined, { maxBytes: 10 });
+    await expect(extractMarkdownFiles(archive.tarball, "", join(tmpDir, "limited"))).rejects.toThrow("larger than the");
+  });
+
+  it("resolves branches and tags without cloning", async () => {
+    git("tag", "-a", "v1", "-m", "v1", firstCommit);
+    expect(await resolveGitCommit(`file://${repoDir}`)).toBe(git("rev-parse", "HEAD"));
+    expect(await resolveGitCommit(`file://${repoDir}`, "main")).toBe(git("rev-parse", "HEAD"));
+    expect(await resolveGitCommit(`file://${repoDir}`, "v1")).toBe(firstCommit);
+    await expect(resolveGitCommit(`file://${repoDir}`, "missing")).rejects.toThrow("Could not resolve missing");
+  });
+
+  it("never passes the remote as an option", async () => {
+    const marker = join(tmpDir, "pwned");
+    const remote = `--upload-pack=touch ${marker};.git`;
+    await expect(resolveGitCommit(remote)).rejects.toThrow("git ls-remote failed");
+    await expect(fetchGitArchive(remote)).rejects.toThrow("git clone failed");
+    await expect(fetchGitArchive(remote, undefined, firstCommit)).rejects.toThrow("strange pathname");
+    expect(existsSync(marker)).toBe(false);
+  });
+
+  it("throws a readable error for missing repositories", async () => {
+    await expect(fetchGitArchive(`file://${join(tmpDir, "missing")}`)).rejects.toThrow("git clone failed");
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect } from "vitest";
-import { parseGitHubUrl } from "../src/github.js";
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { parseGitHubUrl, downloadTarball } from "../src/github.js";
 
 describe("parseGitHubUrl", () => {
   it("parses owner/repo URL", () => {
@@ -84,3 +84,21 @@ describe("parseGitHubUrl", () => {
     expect(result.repo).toBe("repo");
   });
 });
+
+describe("downloadTarball", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("explains when the rate limit resets instead of a bare 403", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 45 * 60;
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", {
+      status: 403,
+      headers: { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": String(reset) },
+    })));
+
+    await expect(downloadTarball("owner", "repo")).rejects.toThrow(
+      /^GitHub API rate limit exceeded; it resets at .+ \(in 45 minutes\)\. Set GITHUB_TOKEN to raise the limit\.$/,
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { parseGitLabUrl } from "../src/gitlab.js";
+
+describe("parseGitLabUrl", () => {
+  it("parses group/project URL", () => {
+    expect(parseGitLabUrl("https://gitlab.com/gitlab-org/gitlab")).toEqual({
+      host: "gitlab.com",
+      project: "gitlab-org/gitlab",
+      branch: null,
+      subpath: "",
+    });
+  });
+
+  it("parses nested subgroups", () => {
+    const result = parseGitLabUrl("https://gitlab.com/group/sub/project");
+    expect(result.project).toBe("group/sub/project");
+  });
+
+  it("parses URL with branch and subpath", () => {
+    expect(parseGitLabUrl("https://gitlab.example.com/team/docs/-/tree/main/content/guides")).toEqual({
+      host: "gitlab.example.com",
+      project: "team/docs",
+      branch: "main",
+      subpath: "content/guides",
+    });
+  });
+
+  it("keeps the port of self-hosted instances", () => {
+    expect(parseGitLabUrl("https://git.internal:8443/team/docs").host).toBe("git.internal:8443");
+  });
+
+  it("strips .git suffix and trailing slash", () => {
+    expect(parseGitLabUrl("https://gitlab.com/team/docs.git").project).toBe("team/docs");
+    expect(parseGitLabUrl("https://gitlab.com/team/docs/").project).toBe("team/docs");
+  });
+
+  it("rejects invalid URLs", () => {
+    expect(() => parseGitLabUrl("not-a-url")).toThrow("Invalid URL");
+  });
+
+  it("rejects URL with only a group", () => {
+    expect(() => parseGitLabUrl("https://gitlab.com/team")).toThrow("Could not parse group/project");
+  });
+});
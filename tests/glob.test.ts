@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { globToRegExp, matchesGlob, matchesFilters, isPathIncluded } from "../src/glob.js";
+import type { GitHubSource, RefdocsConfig } from "../src/types.js";
+
+describe("globToRegExp", () => {
+  it("keeps single stars within one segment", () => {
+    expect(globToRegExp("docs/*.md").test("docs/guide.md")).toBe(true);
+    expect(globToRegExp("docs/*.md").test("docs/sub/guide.md")).toBe(false);
+  });
+
+  it("lets double stars span directories, including none", () => {
+    expect(globToRegExp("docs/**/*.md").test("docs/guide.md")).toBe(true);
+    expect(globToRegExp("docs/**/*.md").test("docs/a/b/guide.md")).toBe(true);
+  });
+
+  it("supports ? and brace alternatives", () => {
+    expect(globToRegExp("v?/*.{md,mdx}").test("v2/page.mdx")).toBe(true);
+    expect(globToRegExp("v?/*.{md,mdx}").test("v10/page.md")).toBe(false);
+  });
+
+  it("escapes regex characters", () => {
+    expect(globToRegExp("a+b.md").test("a+b.md")).toBe(true);
+    expect(globToRegExp("a+b.md").test("aab.md")).toBe(false);
+  });
+});
+
+describe("matchesGlob", () => {
+  it("matches patterns without a slash against any segment", () => {
+    expect(matchesGlob("docs/CHANGELOG.md", "CHANGELOG.md")).toBe(true);
+    expect(matchesGlob("packages/x/node_modules/y/README.md", "node_modules")).toBe(true);
+    expect(matchesGlob("docs/changelog-notes.md", "CHANGELOG.md")).toBe(false);
+  });
+
+  it("matches everything inside a matching directory", () => {
+    expect(matchesGlob("docs/ja/guide/intro.md", "docs/ja/**")).toBe(true);
+    expect(matchesGlob("docs/ja/guide/intro.md", "docs/ja")).toBe(true);
+    expect(matchesGlob("docs/en/guide/intro.md", "docs/ja")).toBe(false);
+  });
+
+  it("anchors patterns with a slash at the root", () => {
+    expect(matchesGlob("site/docs/ja/intro.md", "docs/ja/**")).toBe(false);
+    expect(matchesGlob("site/docs/ja/intro.md", "**/ja/**")).toBe(true);
+  });
+});
+
+describe("matchesFilters", () => {
+  it("includes everything without filters", () => {
+    expect(matchesFilters("any/file.md", {})).toBe(true);
+  });
+
+  it("requires a matching include and lets excludes win", () => {
+    const filters = { include: ["guide/**"], exclude: ["**/draft-*.md"] };
+    expect(matchesFilters("guide/intro.md", filters)).toBe(true);
+    expect(matchesFilters("api/intro.md", filters)).toBe(false);
+    expect(matchesFilters("guide/draft-routing.md", filters)).toBe(false);
+  });
+});
+
+describe("isPathIncluded", () => {
+  const source: GitHubSource = {
+    type: "github",
+    url: "https://github.com/vuejs/docs",
+    owner: "vuejs",
+    repo: "docs",
+    branch: "main",
+    subpath: "src",
+    localPath: "docs/vuejs/docs/src",
+    addedAt: "2025-01-01T00:00:00.000Z",
+    exclude: ["ja"],
+  };
+
+  const config: RefdocsConfig = {
+    paths: ["docs"],
+    manifest: "manifest.json",
+    exclude: ["CHANGELOG.md"],
+    sources: [source],
+  };
+
+  it("applies config filters to every file", () => {
+    expect(isPathIncluded("docs/local/CHANGELOG.md", config)).toBe(false);
+    expect(isPathIncluded("docs/local/guide.md", config)).toBe(true);
+  });
+
+  it("applies source filters relative to the source directory", () => {
+    expect(isPathIncluded("docs/vuejs/docs/src/ja/guide.md", config)).toBe(false);
+    expect(isPathIncluded("docs/vuejs/docs/src/guide.md", config)).toBe(true);
+    expect(isPathIncluded("docs/local/ja/guide.md", config)).toBe(true);
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import { connect } from "node:net";
+import type { AddressInfo } from "node:net";
+import {
+  bodyStream,
+  conditionalHeaders,
+  cacheValidators,
+  configureHttp,
+  request,
+  rateLimitMessage,
+  proxyFor,
+} from "../src/http.js";
+
+function streamedResponse(chunks: string[], headers: Record<string, string> = {}): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers });
+}
+
+async function collect(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk as Buffer));
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+describe("bodyStream", () => {
+  it("streams the body and reports bytes received", async () => {
+    const progress: number[] = [];
+    const stream = bodyStream(streamedResponse(["abc", "defg"]), { onProgress: (n) => progress.push(n) });
+    expect(await collect(stream)).toBe("abcdefg");
+    expect(progress).toEqual([3, 7]);
+  });
+
+  it("errors once the body grows past maxBytes", async () => {
+    const stream = bodyStream(streamedResponse(["abc", "defg"]), { maxBytes: 5 });
+    await expect(collect(stream)).rejects.toThrow("Archive is larger than");
+  });
+
+  it("rejects up front when Content-Length is over the limit", () => {
+    const response = streamedResponse(["abc"], { "Content-Length": String(3 * 1024 * 1024) });
+    expect(() => bodyStream(response, { maxBytes: 1024 * 1024 })).toThrow("larger than the 1 MB limit");
+  });
+});
+
+describe("conditional requests", () => {
+  it("turns stored validators into request headers and back", () => {
+    expect(conditionalHeaders({ etag: '"abc"' })).toEqual({ "If-None-Match": '"abc"' });
+    expect(conditionalHeaders(undefined)).toEqual({});
+    const response = new Response("", { headers: { ETag: '"abc"', "Last-Modified": "Wed, 01 Jan 2025 00:00:00 GMT" } });
+    expect(cacheValidators(response)).toEqual({ etag: '"abc"', lastModified: "Wed, 01 Jan 2025 00:00:00 GMT" });
+  });
+});
+
+describe("request", () => {
+  beforeEach(() => {
+    configureHttp({ retryDelayMs: 1 });
+  });
+
+  afterEach(() => {
+    configureHttp({});
+    vi.unstubAllGlobals();
+  });
+
+  it("retries server errors with backoff", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response("", { status: 503 }))
+      .mockResolvedValueOnce(new Response("", { status: 502 }))
+      .mockResolvedValueOnce(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await request("https://example.com/a");
+    expect(await response.text()).toBe("ok");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("returns the last response once retries run out", async () => {
+    const fetchMock = vi.fn(async () => new Response("", { status: 500 }));
+    vi.stubGlobal("fetch", fetchMock);
+    configureHttp({ retryDelayMs: 1, retries: 2 });
+
+    expect((await request("https://example.com/a")).status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchMock = vi.fn(async () => new Response("", { status: 404 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await request("https://example.com/a")).status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries network errors and then reports the cause", async () => {
+    const fetchMock = vi.fn(async () => {
+      throw new TypeError("fetch failed", { cause: new Error("getaddrinfo ENOTFOUND example.com") });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(request("https://example.com/a")).rejects.toThrow(
+      "Request to https://example.com/a failed: getaddrinfo ENOTFOUND example.com",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("times out requests that get no response", async () => {
+    vi.stubGlobal("fetch", vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+    })));
+    configureHttp({ timeoutMs: 20, retries: 0 });
+
+    await expect(request("https://example.com/slow")).rejects.toThrow("Request to https://example.com/slow timed out");
+  });
+
+  it("times out bodies that stop arriving", async () => {
+    const server = createServer((_req, res) => {
+      res.writeHead(200, { "content-length": "100" });
+      res.write("partial");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/stalled`;
+    configureHttp({ timeoutMs: 50, retries: 0 });
+    try {
+      await expect((await request(url)).text()).rejects.toThrow(`Download from ${url} stalled`);
+      await expect(collect(bodyStream(await request(url)))).rejects.toThrow(`Download from ${url} stalled`);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  it("waits out a short Retry-After", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response("", { status: 429, headers: { "Retry-After": "0" } }))
+      .mockResolvedValueOnce(new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect((await request("https://example.com/a")).status).toBe(200);
+  });
+
+  it("returns rate limits that reset too far ahead without waiting", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 30 * 60;
+    const fetchMock = vi.fn(async () => new Response("", {
+      status: 403,
+      headers: { "X-RateLimit-Remaining": "0", "X-RateLimit-Reset": String(reset) },
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await request("https://api.github.com/repos/o/r/tarball");
+    expect(response.status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(rateLimitMessage(response)).toMatch(/^rate limit exceeded; it resets at .+ \(in 30 minutes\)$/);
+  });
+});
+
+describe("rateLimitMessage", () => {
+  it("ignores ordinary forbidden responses", () => {
+    expect(rateLimitMessage(new Response("", { status: 403 }))).toBeUndefined();
+  });
+});
+
+describe("proxyFor", () => {
+  it("picks the proxy for the scheme and honors NO_PROXY", () => {
+    const env = { HTTPS_PROXY: "http://proxy:3128", NO_PROXY: "localhost,.internal.example" };
+    expect(proxyFor("https://api.github.com/x", env)).toBe("http://proxy:3128");
+    expect(proxyFor("http://api.github.com/x", env)).toBeUndefined();
+    expect(proxyFor("https://git.internal.example/x", env)).toBeUndefined();
+    expect(proxyFor("https://internal.example/x", env)).toBeUndefined();
+    expect(proxyFor("https://localhost:8080/x", env)).toBeUndefined();
+    expect(proxyFor("https://api.github.com/x", { ...env, NO_PROXY: "*" })).toBeUndefined();
+  });
+});
+
+describe("request through a proxy", () => {
+  let target: Server;
+  let proxy: Server;
+  const tunnels: string[] = [];
+
+  beforeEach(async () => {
+    target = createServer((_req, res) => res.end("via proxy"));
+    proxy = createServer();
+    proxy.on("connect", (req, socket) => {
+      tunnels.push(req.url ?? "");
+      const [host, port] = (req.url ?? "").split(":");
+      const upstream = connect(Number(port), host, () => {
+        socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        upstream.pipe(socket);
+        socket.pipe(upstream);
+      });
+    });
+    await new Promise<void>((resolve) => target.listen(0, "127.0.0.1", resolve));
+    await new Promise<void>((resolve) => proxy.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    configureHttp({});
+    proxy.closeAllConnections();
+    target.closeAllConnections();
+    await new Promise((resolve) => proxy.close(resolve));
+    await new Promise((resolve) => target.close(resolve));
+  });
+
+  it("tunnels requests through HTTP_PROXY", async () => {
+    const targetPort = (target.address() as AddressInfo).port;
+    vi.stubEnv("HTTP_PROXY", `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`);
+    vi.stubEnv("NO_PROXY", "");
+    configureHttp({});
+
+    const response = await request(`http://127.0.0.1:${targetPort}/doc.md`);
+    expect(await response.text()).toBe("via proxy");
+    expect(tunnels).toEqual([`127.0.0.1:${targetPort}`]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { splitMarkdownBundle } from "../src/llms.js";
+
+describe("splitMarkdownBundle", () => {
+  it("splits on h1 headings", () => {
+    const bundle = "# Getting Started\n\nInstall it.\n\n# API\n\n## Auth\n\nTokens.\n";
+    const sections = splitMarkdownBundle(bundle);
+    expect(sections.map((s) => s.name)).toEqual(["getting-started", "api"]);
+    expect(sections[1].content).toBe("# API\n\n## Auth\n\nTokens.\n");
+  });
+
+  it("falls back to h2 when there is a single h1", () => {
+    const bundle = "# Project\n\n> Summary line.\n\n## Docs\n\n- [Guide](https://x/guide.md)\n\n## Examples\n\n- [Demo](https://x/demo.md)\n";
+    const sections = splitMarkdownBundle(bundle);
+    expect(sections.map((s) => s.name)).toEqual(["index", "docs", "examples"]);
+    expect(sections[0].content).toBe("# Project\n\n> Summary line.\n");
+    expect(sections[1].content.startsWith("# Docs\n")).toBe(true);
+  });
+
+  it("ignores headings inside fenced code blocks", () => {
+    const bundle = "# One\n\n```bash\n# not a heading\n```\n\n# Two\n\nText.\n";
+    expect(splitMarkdownBundle(bundle).map((s) => s.name)).toEqual(["one", "two"]);
+  });
+
+  it("deduplicates repeated titles", () => {
+    const bundle = "# Usage\n\nA\n\n# Usage\n\nB\n";
+    expect(splitMarkdownBundle(bundle).map((s) => s.name)).toEqual(["usage", "usage-2"]);
+  });
+
+  it("returns the whole document when there are no headings", () => {
+    expect(splitMarkdownBundle("plain text\n")).toEqual([{ name: "index", content: "plain text\n" }]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { loadLock, saveLock, hashContent, LOCK_FILENAME } from "../src/lock.js";
+
+describe("lockfile", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-lock-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("returns an empty lock when none exists", () => {
+    expect(loadLock(tmpDir)).toEqual({ version: 1, sources: {} });
+  });
+
+  it("round-trips entries sorted by key", () => {
+    saveLock({
+      version: 1,
+      sources: {
+        "github:b/b/": { type: "github", url: "https://github.com/b/b", commit: "bbb", resolvedAt: "" },
+        "github:a/a/": { type: "github", url: "https://github.com/a/a", commit: "aaa", resolvedAt: "" },
+      },
+    }, tmpDir);
+
+    const written = JSON.parse(readFileSync(join(tmpDir, LOCK_FILENAME), "utf-8"));
+    expect(Object.keys(written.sources)).toEqual(["github:a/a/", "github:b/b/"]);
+    expect(loadLock(tmpDir).sources["github:b/b/"].commit).toBe("bbb");
+  });
+
+  it("throws on a malformed lockfile", () => {
+    writeFileSync(join(tmpDir, LOCK_FILENAME), JSON.stringify({ version: 1 }));
+    expect(() => loadLock(tmpDir)).toThrow(`Invalid ${LOCK_FILENAME}`);
+  });
+});
+
+describe("hashContent", () => {
+  it("produces a stable sha256 digest", () => {
+    expect(hashContent("hello")).toBe(
+      "sha256-2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+    );
+    expect(hashContent(Buffer.from("hello"))).toBe(hashContent("hello"));
+  });
+});
@@ -1,18 +1,25 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { mkdtempSync, writeFileSync, mkdirSync, rmSync, readFileSync, existsSync } from "node:fs";
+import { mkdtempSync, writeFileSync, mkdirSync, rmSync, readFileSync, existsSync, utimesSync, symlinkSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import {
   findMarkdownFiles,
-  extractHeadings,
+  findCatalogedFiles,
   extractSummary,
   buildManifestEntry,
   buildManifest,
   buildAndPersistManifest,
   loadManifest,
+  MANIFEST_VERSION,
+  CACHE_FILENAME,
 } from "../src/manifest.js";
+import { convertToMarkdown } from "../src/convert.js";
 import type { RefdocsConfig } from "../src/types.js";
 
+function fixture(name: string): string {
+  return readFileSync(join(import.meta.dirname, "fixtures", name), "utf-8");
+}
+
 describe("findMarkdownFiles", () => {
   let tmpDir: string;
 
@@ -67,25 +74,57 @@ describe("findMarkdownFiles", () => {
     expect(files).toEqual(["docs/guide.md"]);
   });
 
+  it("accepts a single file as a path", () => {
+    mkdirSync(join(tmpDir, "docs", "example.com"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "example.com", "llms-full.txt"), "# Bundle");
+
+    const files = findMarkdownFiles(["docs/example.com/llms-full.txt"], tmpDir);
+    expect(files).toEqual(["docs/example.com/llms-full.txt"]);
+  });
+
   it("returns empty array for nonexistent paths", () => {
     const files = findMarkdownFiles(["nonexistent"], tmpDir);
     expect(files).toEqual([]);
   });
-});
 
-describe("extractHeadings", () => {
-  it("extracts h1-h3 headings", () => {
-    const content = "# Title\n\nSome text\n\n## Section\n\n### Subsection\n\n#### Too deep\n";
-    expect(extractHeadings(content)).toEqual(["Title", "Section", "Subsection"]);
-  });
+  it("follows symlinks inside the path but not cycles or links leading out of it", () => {
+    mkdirSync(join(tmpDir, "docs", "guides"), { recursive: true });
+    mkdirSync(join(tmpDir, "outside"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "guides", "intro.md"), "# Intro");
+    writeFileSync(join(tmpDir, "outside", "secret.md"), "# Secret");
+    symlinkSync(join(tmpDir, "docs"), join(tmpDir, "docs", "guides", "loop"));
+    symlinkSync(join(tmpDir, "outside"), join(tmpDir, "docs", "escape"));
+    symlinkSync(join(tmpDir, "outside", "secret.md"), join(tmpDir, "docs", "secret.md"));
+    symlinkSync(join(tmpDir, "docs", "guides", "intro.md"), join(tmpDir, "docs", "alias.md"));
+    symlinkSync(join(tmpDir, "missing.md"), join(tmpDir, "docs", "broken.md"));
 
-  it("returns empty array for no headings", () => {
-    expect(extractHeadings("Just some text\n\nMore text")).toEqual([]);
+    const files = findMarkdownFiles(["docs"], tmpDir);
+    expect(files).toEqual(["docs/alias.md", "docs/guides/intro.md"]);
   });
 
-  it("handles headings with inline formatting", () => {
-    const content = "# **Bold Title**\n\n## `Code Heading`\n";
-    expect(extractHeadings(content)).toEqual(["**Bold Title**", "`Code Heading`"]);
+  it("applies config and source filters when cataloging", () => {
+    mkdirSync(join(tmpDir, "docs", "vendor", "ja"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "CHANGELOG.md"), "# Changes");
+    writeFileSync(join(tmpDir, "docs", "guide.md"), "# Guide");
+    writeFileSync(join(tmpDir, "docs", "vendor", "intro.md"), "# Intro");
+    writeFileSync(join(tmpDir, "docs", "vendor", "ja", "intro.md"), "# Intro");
+
+    const config: RefdocsConfig = {
+      paths: ["docs"],
+      manifest: "manifest.json",
+      exclude: ["CHANGELOG.md"],
+      sources: [{
+        type: "git",
+        url: "file:///tmp/vendor.git",
+        branch: "HEAD",
+        subpath: "",
+        localPath: "docs/vendor",
+        addedAt: "2025-01-01T00:00:00.000Z",
+        exclude: ["ja/**"],
+      }],
+    };
+
+    expect(findCatalogedFiles(config, tmpDir)).toEqual(["docs/guide.md", "docs/vendor/intro.md"]);
   });
 });
 
@@ -121,9 +160,44 @@ describe("extractSummary", () => {
   it("returns empty string for empty content", () => {
     expect(extractSummary("")).toBe("");
   });
+
+  it("does not mistake horizontal rules for frontmatter", () => {
+    expect(extractSummary("# Title\n\n---\n\nAfter the rule.\n\n---\n")).toBe("After the rule.");
+    expect(extractSummary("---\n\nIntro text.\n\n---\n")).toBe("Intro text.");
+  });
+
+  it("skips frontmatter without a description", () => {
+    expect(extractSummary("---\ntitle: Test\n---\n\nBody text.")).toBe("Body text.");
+  });
 });
 
 describe("buildManifestEntry", () => {
+  it("carries frontmatter metadata and keeps it out of the sections", () => {
+    const content = [
+      "---",
+      "# a YAML comment, not a heading",
+      "title: Queues",
+      "tags: [jobs, redis]",
+      "sidebar_position: 2",
+      "deprecated: true",
+      "slug: /queues",
+      "---",
+      "# Queues",
+      "",
+      "Jobs run in the background.",
+    ].join("\n");
+    const entry = buildManifestEntry("queues.md", content);
+    expect(entry).toMatchObject({ title: "Queues", tags: ["jobs", "redis"], sidebarPosition: 2, deprecated: true });
+    expect(entry.frontmatter).toBeUndefined();
+    expect(entry.headings).toEqual(["Queues"]);
+    expect(entry.sections?.[0].startLine).toBe(9);
+
+    const allowed = buildManifestEntry("queues.md", content, { frontmatter: ["tags", "slug"] });
+    expect(allowed.title).toBeUndefined();
+    expect(allowed.tags).toEqual(["jobs", "redis"]);
+    expect(allowed.frontmatter).toEqual({ slug: "/queues" });
+  });
+
   it("produces correct entry structure", () => {
     const content = "# API Reference\n\n## Authentication\n\nUse Bearer tokens.\n";
     const entry = buildManifestEntry("docs/api.md", content);
@@ -131,6 +205,9 @@ describe("buildManifestEntry", () => {
     expect(entry.headings).toEqual(["API Reference", "Authentication"]);
     expect(entry.lines).toBe(6);
     expect(entry.summary).toBe("Use Bearer tokens.");
+    expect(entry.sections).toEqual([
+      { heading: "API Reference", level: 1, slug: "api-reference", startLine: 1, endLine: 6 },
+    ]);
   });
 });
 
@@ -205,6 +282,122 @@ describe("buildAndPersistManifest", () => {
     expect(written.files).toBe(1);
     expect(written.entries[0].file).toBe("docs/test.md");
   });
+
+  it("catalogs cleaned copies of .mdx files when mdxCopies is on", () => {
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "tabs.mdx"), "import Tabs from '@theme/Tabs';\n\n# Tabs\n\n<Tabs>\nPick one.\n</Tabs>\n");
+
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+    const plain = buildAndPersistManifest(config, tmpDir).manifest;
+    expect(plain.entries.map((e) => e.file)).toEqual(["docs/tabs.mdx"]);
+    expect(plain.entries[0].summary).toBe("Pick one.");
+    expect(plain.entries[0].sections?.[0].startLine).toBe(3);
+
+    const copied = buildAndPersistManifest({ ...config, mdxCopies: true }, tmpDir);
+    expect(copied.manifest.entries.map((e) => e.file)).toEqual(["docs/tabs.md"]);
+    expect(readFileSync(join(tmpDir, "docs", "tabs.md"), "utf-8")).not.toContain("<Tabs>");
+
+    rmSync(join(tmpDir, "docs", "tabs.mdx"));
+    expect(buildAndPersistManifest({ ...config, mdxCopies: true }, tmpDir).manifest.entries).toEqual([]);
+    expect(existsSync(join(tmpDir, "docs", "tabs.md"))).toBe(false);
+    writeFileSync(join(tmpDir, "docs", "tabs.mdx"), "import Tabs from '@theme/Tabs';\n\n# Tabs\n\n<Tabs>\nPick one.\n</Tabs>\n");
+
+    buildAndPersistManifest(config, tmpDir);
+    expect(existsSync(join(tmpDir, "docs", "tabs.md"))).toBe(false);
+  });
+
+  it("leaves markdown next to files of disabled formats alone", () => {
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "page.html"), "<h1>Page</h1>");
+    writeFileSync(join(tmpDir, "docs", "page.md"), convertToMarkdown("<h1>Page</h1>", "page.html", "html"));
+
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+    expect(buildAndPersistManifest(config, tmpDir).manifest.entries.map((e) => e.file)).toEqual(["docs/page.md"]);
+    expect(existsSync(join(tmpDir, "docs", "page.md"))).toBe(true);
+  });
+
+  it("catalogs converted copies of files in a convert format", () => {
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "guide.rst"), "Guide\n=====\n\nRead this first.\n\nSetup\n-----\n");
+    writeFileSync(join(tmpDir, "docs", "intro.md"), "# Intro\n");
+
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+    expect(buildAndPersistManifest(config, tmpDir).manifest.entries.map((e) => e.file)).toEqual(["docs/intro.md"]);
+
+    const converted = buildAndPersistManifest({ ...config, convert: ["rst"] }, tmpDir).manifest;
+    expect(converted.entries.map((e) => e.file)).toEqual(["docs/guide.md", "docs/intro.md"]);
+    expect(converted.entries[0]).toMatchObject({ format: "rst", headings: ["Guide", "Setup"], summary: "Read this first." });
+    expect(converted.entries[1].format).toBeUndefined();
+
+    // Include and exclude globs match the converted path
+    const excluded = buildAndPersistManifest({ ...config, convert: ["rst"], exclude: ["docs/guide.md"] }, tmpDir);
+    expect(excluded.manifest.entries.map((e) => e.file)).toEqual(["docs/intro.md"]);
+
+    buildAndPersistManifest(config, tmpDir);
+    expect(existsSync(join(tmpDir, "docs", "guide.md"))).toBe(false);
+  });
+
+  it("reports added, changed and removed files against the previous build", () => {
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "a.md"), "# A\n");
+    writeFileSync(join(tmpDir, "docs", "b.md"), "# B\n");
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+
+    const first = buildAndPersistManifest(config, tmpDir);
+    expect(first.changes).toEqual({ added: ["docs/a.md", "docs/b.md"], changed: [], removed: [] });
+
+    writeFileSync(join(tmpDir, "docs", "a.md"), "# A changed\n");
+    rmSync(join(tmpDir, "docs", "b.md"));
+    writeFileSync(join(tmpDir, "docs", "c.md"), "# C\n");
+
+    const second = buildAndPersistManifest(config, tmpDir);
+    expect(second.changes).toEqual({ added: ["docs/c.md"], changed: ["docs/a.md"], removed: ["docs/b.md"] });
+    expect(second.manifest.entries.map((e) => e.headings[0])).toEqual(["A changed", "C"]);
+
+    const third = buildAndPersistManifest(config, tmpDir);
+    expect(third.changes).toEqual({ added: [], changed: [], removed: [] });
+  });
+
+  it("skips files whose mtime and size are unchanged unless full is set", () => {
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    const file = join(tmpDir, "docs", "a.md");
+    const mtime = new Date("2025-01-01T00:00:00.000Z");
+    writeFileSync(file, "# One\n");
+    utimesSync(file, mtime, mtime);
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+    buildAndPersistManifest(config, tmpDir);
+
+    // Same size and mtime: the cached parse is trusted without reading the file
+    writeFileSync(file, "# Two\n");
+    utimesSync(file, mtime, mtime);
+
+    expect(buildAndPersistManifest(config, tmpDir).manifest.entries[0].headings).toEqual(["One"]);
+
+    const full = buildAndPersistManifest(config, tmpDir, { full: true });
+    expect(full.manifest.entries[0].headings).toEqual(["Two"]);
+    expect(full.changes.changed).toEqual(["docs/a.md"]);
+  });
+
+  it("re-parses cached files when chunk settings change", () => {
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "tiny.md"), fixture("tiny-sections.md"));
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+
+    expect(buildAndPersistManifest(config, tmpDir).manifest.entries[0].sections![0].children).toBeUndefined();
+
+    const rebuilt = buildAndPersistManifest({ ...config, chunkMinTokens: 0 }, tmpDir);
+    expect(rebuilt.manifest.entries[0].sections![0].children).toHaveLength(6);
+    expect(rebuilt.changes.changed).toEqual([]);
+  });
+
+  it("rebuilds from scratch when the cache is corrupt", () => {
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "a.md"), "# A\n");
+    writeFileSync(join(tmpDir, CACHE_FILENAME), "{not json");
+
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+    expect(buildAndPersistManifest(config, tmpDir).changes.added).toEqual(["docs/a.md"]);
+  });
 });
 
 describe("loadManifest", () => {
@@ -228,10 +421,23 @@ describe("loadManifest", () => {
     }));
 
     const manifest = loadManifest(manifestPath);
+    expect(manifest.version).toBe(MANIFEST_VERSION);
     expect(manifest.files).toBe(1);
     expect(manifest.entries[0].file).toBe("test.md");
   });
 
+  it("rejects a manifest from a newer version", () => {
+    const manifestPath = join(tmpDir, "manifest.json");
+    writeFileSync(manifestPath, JSON.stringify({ version: MANIFEST_VERSION + 1, entries: [] }));
+    expect(() => loadManifest(manifestPath)).toThrow(`is version ${MANIFEST_VERSION + 1}`);
+  });
+
+  it("rejects a file that is not a manifest", () => {
+    const manifestPath = join(tmpDir, "manifest.json");
+    writeFileSync(manifestPath, JSON.stringify({ files: [] }));
+    expect(() => loadManifest(manifestPath)).toThrow("Invalid manifest");
+  });
+
   it("throws when manifest does not exist", () => {
     expect(() => loadManifest(join(tmpDir, "nonexistent.json"))).toThrow("Manifest not found");
   });
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { stripMdx, cleanMdx } from "../src/mdx.js";
+
+const DOC = [
+  "---",
+  "title: Installation",
+  "---",
+  "import Tabs from '@theme/Tabs';",
+  "import TabItem from '@theme/TabItem';",
+  "",
+  "# Installation <Badge text=\"new\" />",
+  "",
+  "<Callout type=\"info\">Requires Node 20.</Callout>",
+  "",
+  "<Tabs>",
+  "  <TabItem value=\"npm\" label=\"npm\">",
+  "",
+  "```bash",
+  "npm install <Package>",
+  "```",
+  "",
+  "  </TabItem>",
+  "</Tabs>",
+  "",
+  ":::tip[Faster installs]",
+  "Use a lockfile.",
+  ":::",
+  "",
+  "{/* TODO: yarn */}",
+  "<details><summary>Why?</summary>Plain HTML stays.</details>",
+].join("\n");
+
+describe("stripMdx", () => {
+  it("removes ESM and JSX line for line", () => {
+    const stripped = stripMdx(DOC).split("\n");
+    expect(stripped).toHaveLength(DOC.split("\n").length);
+    expect(stripped.slice(0, 3)).toEqual(["---", "title: Installation", "---"]);
+    expect(stripped[3]).toBe("");
+    expect(stripped[4]).toBe("");
+    expect(stripped[6].trim()).toBe("# Installation");
+    expect(stripped[8]).toBe("Requires Node 20.");
+    expect(stripped[10]).toBe("");
+    expect(stripped[11]).toBe("npm");
+    expect(stripped[14]).toBe("npm install <Package>");
+    expect(stripped[17]).toBe("");
+    expect(stripped[20]).toBe("Faster installs");
+    expect(stripped[22]).toBe("");
+    expect(stripped[24]).toBe("");
+    expect(stripped[25]).toBe("<details><summary>Why?</summary>Plain HTML stays.</details>");
+  });
+
+  it("drops multi-line ESM blocks and component tags", () => {
+    const content = [
+      "import {",
+      "  Card,",
+      "  CardGrid,",
+      "} from '@astrojs/starlight/components';",
+      "",
+      "<Card",
+      "  title=\"Get started\"",
+      "  icon=\"rocket\"",
+      ">",
+      "Read the guide.",
+      "</Card>",
+    ].join("\n");
+    expect(stripMdx(content)).toBe(["", "", "", "", "", "", "", "", "Get started", "Read the guide.", ""].join("\n"));
+  });
+
+  it("keeps fences nested in a longer fence", () => {
+    const content = ["````md", "```jsx", "<Tabs>", "```", "````", "<Tabs>"].join("\n");
+    expect(stripMdx(content)).toBe(["````md", "```jsx", "<Tabs>", "```", "````", ""].join("\n"));
+  });
+});
+
+describe("cleanMdx", () => {
+  it("keeps the frontmatter and collapses blank lines after it", () => {
+    const cleaned = cleanMdx(DOC);
+    expect(cleaned.startsWith("---\ntitle: Installation\n---\n")).toBe(true);
+    expect(cleaned).not.toMatch(/\n{3,}/);
+    expect(cleaned).toContain("# Installation");
+  });
+});
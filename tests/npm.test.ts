@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, mkdirSync, rmSync, symlinkSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  collectPackageDocs,
+  findInstalledPackage,
+  isPackageDoc,
+  lockedPackageVersion,
+  packageDependencies,
+  parseNpmSpec,
+  parseRepository,
+} from "../src/npm.js";
+
+describe("parseNpmSpec", () => {
+  it("reads plain and scoped package names", () => {
+    expect(parseNpmSpec("npm:react")).toBe("react");
+    expect(parseNpmSpec("npm:@tanstack/query-core")).toBe("@tanstack/query-core");
+  });
+
+  it("rejects versions and invalid names", () => {
+    expect(() => parseNpmSpec("npm:react@18")).toThrow("leave it out");
+    expect(() => parseNpmSpec("npm:../evil")).toThrow("Invalid npm package name");
+    expect(() => parseNpmSpec("npm:")).toThrow("Invalid npm package name");
+  });
+});
+
+describe("parseRepository", () => {
+  it("reads GitHub URLs, shorthands and monorepo directories", () => {
+    expect(parseRepository("git+https://github.com/facebook/react.git")).toEqual({ owner: "facebook", repo: "react", directory: "" });
+    expect(parseRepository("git+ssh://git@github.com/o/r.git#main")).toEqual({ owner: "o", repo: "r", directory: "" });
+    expect(parseRepository("github:o/r")).toEqual({ owner: "o", repo: "r", directory: "" });
+    expect(parseRepository("o/r")).toEqual({ owner: "o", repo: "r", directory: "" });
+    expect(parseRepository({ type: "git", url: "https://github.com/TanStack/query.git", directory: "packages/query-core/" }))
+      .toEqual({ owner: "TanStack", repo: "query", directory: "packages/query-core" });
+  });
+
+  it("ignores other hosts", () => {
+    expect(parseRepository("https://gitlab.com/o/r.git")).toBeUndefined();
+    expect(parseRepository(undefined)).toBeUndefined();
+  });
+});
+
+describe("isPackageDoc", () => {
+  it("keeps the README and markdown under the docs directories", () => {
+    expect(isPackageDoc("README.md")).toBe(true);
+    expect(isPackageDoc("readme.mdx")).toBe(true);
+    expect(isPackageDoc("docs/guide/intro.md")).toBe(true);
+    expect(isPackageDoc("documentation/api.md")).toBe(true);
+    expect(isPackageDoc("CHANGELOG.md")).toBe(false);
+    expect(isPackageDoc("src/docs/notes.md")).toBe(false);
+    expect(isPackageDoc("docs/logo.png")).toBe(false);
+  });
+});
+
+describe("project files", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-npm-"));
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("finds packages hoisted to a parent node_modules", () => {
+    const packageDir = join(tmpDir, "node_modules", "@scope", "kit");
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(join(packageDir, "package.json"), JSON.stringify({ name: "@scope/kit", version: "2.1.0" }));
+    const workspace = join(tmpDir, "packages", "app");
+    mkdirSync(workspace, { recursive: true });
+
+    expect(findInstalledPackage("@scope/kit", workspace)).toEqual({ dir: packageDir, version: "2.1.0" });
+    expect(findInstalledPackage("missing", workspace)).toBeUndefined();
+  });
+
+  it("reads versions from every lockfile version", () => {
+    writeFileSync(join(tmpDir, "package-lock.json"), JSON.stringify({
+      lockfileVersion: 3,
+      packages: { "": { name: "app" }, "node_modules/a": { version: "1.0.0" } },
+    }));
+    expect(lockedPackageVersion("a", tmpDir)).toBe("1.0.0");
+
+    writeFileSync(join(tmpDir, "package-lock.json"), JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: { a: { version: "0.9.0" } },
+    }));
+    expect(lockedPackageVersion("a", tmpDir)).toBe("0.9.0");
+    expect(lockedPackageVersion("b", tmpDir)).toBeUndefined();
+  });
+
+  it("lists dependencies, with devDependencies on request", () => {
+    writeFileSync(join(tmpDir, "package.json"), JSON.stringify({
+      dependencies: { zod: "^3.0.0", react: "^18.0.0" },
+      optionalDependencies: { fsevents: "^2.0.0" },
+      devDependencies: { vitest: "^3.0.0", react: "^18.0.0" },
+    }));
+    expect(packageDependencies(tmpDir)).toEqual(["fsevents", "react", "zod"]);
+    expect(packageDependencies(tmpDir, { dev: true })).toEqual(["fsevents", "react", "vitest", "zod"]);
+    expect(() => packageDependencies(join(tmpDir, "missing"))).toThrow("No package.json found");
+  });
+
+  it("collects the README and docs, skipping symlinks and large files", () => {
+    mkdirSync(join(tmpDir, "docs", "api"), { recursive: true });
+    mkdirSync(join(tmpDir, "lib"));
+    writeFileSync(join(tmpDir, "README.md"), "# Kit\n");
+    writeFileSync(join(tmpDir, "docs", "api", "index.md"), "# API\n");
+    writeFileSync(join(tmpDir, "docs", "huge.md"), "x".repeat(100));
+    writeFileSync(join(tmpDir, "lib", "notes.md"), "# Notes\n");
+    symlinkSync(join(tmpDir, "README.md"), join(tmpDir, "docs", "link.md"));
+
+    expect(collectPackageDocs(tmpDir, 50)).toEqual([
+      { path: "docs/api/index.md", content: "# API\n" },
+      { path: "README.md", content: "# Kit\n" },
+    ]);
+  });
+});
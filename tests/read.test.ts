@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { parseReadTarget, parseLineRange, resolveDocFile, readDoc } from "../src/read.js";
+
+describe("parseReadTarget", () => {
+  it("splits file and heading slug", () => {
+    expect(parseReadTarget("docs/api.md#authentication")).toEqual({ file: "docs/api.md", slug: "authentication" });
+    expect(parseReadTarget("docs/api.md")).toEqual({ file: "docs/api.md" });
+    expect(parseReadTarget("docs/api.md#")).toEqual({ file: "docs/api.md", slug: undefined });
+  });
+});
+
+describe("parseLineRange", () => {
+  it("parses closed, open and single-line ranges", () => {
+    expect(parseLineRange("10-40")).toEqual({ start: 10, end: 40 });
+    expect(parseLineRange("10-")).toEqual({ start: 10, end: undefined });
+    expect(parseLineRange("7")).toEqual({ start: 7, end: 7 });
+  });
+
+  it("rejects malformed ranges", () => {
+    expect(() => parseLineRange("a-b")).toThrow("Invalid --lines");
+    expect(() => parseLineRange("40-10")).toThrow("must not precede");
+    expect(() => parseLineRange("0-3")).toThrow("1-based");
+  });
+});
+
+describe("resolveDocFile", () => {
+  const files = ["docs/laravel/docs/database.md", "docs/laravel/docs/queues.md", "docs/other/queues.md"];
+
+  it("matches exact paths and unique suffixes", () => {
+    expect(resolveDocFile(files, "docs/laravel/docs/database.md")).toBe("docs/laravel/docs/database.md");
+    expect(resolveDocFile(files, "database.md")).toBe("docs/laravel/docs/database.md");
+    expect(resolveDocFile(files, "other/queues.md")).toBe("docs/other/queues.md");
+  });
+
+  it("rejects ambiguous and unknown files", () => {
+    expect(() => resolveDocFile(files, "queues.md")).toThrow("matches multiple files");
+    expect(() => resolveDocFile(files, "missing.md")).toThrow('File "missing.md" not found in manifest');
+  });
+});
+
+describe("readDoc", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-read-"));
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(
+      join(tmpDir, "docs", "simple.md"),
+      readFileSync(join(import.meta.dirname, "fixtures", "simple.md"), "utf-8"),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("prints a single section with its breadcrumb", () => {
+    const result = readDoc("docs/simple.md", "basic-setup", tmpDir);
+    expect(result.breadcrumb).toEqual(["Getting Started", "Configuration", "Basic Setup"]);
+    expect(result.startLine).toBe(17);
+    expect(result.content.startsWith("### Basic Setup\n")).toBe(true);
+    expect(result.content).not.toContain("### Advanced Options");
+  });
+
+  it("includes subsections when reading a parent section", () => {
+    const result = readDoc("docs/simple.md", "configuration", tmpDir);
+    expect(result.content).toContain("### Basic Setup");
+    expect(result.content).toContain("### Advanced Options");
+    expect(result.content).not.toContain("## Usage");
+  });
+
+  it("prints a line range with the enclosing breadcrumb", () => {
+    const result = readDoc("docs/simple.md", undefined, tmpDir, { lines: "7-9" });
+    expect(result).toMatchObject({ startLine: 7, endLine: 9, breadcrumb: ["Getting Started", "Installation"] });
+    expect(result.content.split("\n")).toHaveLength(3);
+  });
+
+  it("truncates to the token budget on a line boundary", () => {
+    const result = readDoc("docs/simple.md", undefined, tmpDir, { maxTokens: 20 });
+    expect(result.truncated).toBe(true);
+    expect(result.content.length).toBeLessThanOrEqual(80);
+    expect(result.endLine).toBe(result.startLine + result.content.split("\n").length - 1);
+  });
+
+  it("reads a repeated heading by its numbered slug", () => {
+    writeFileSync(join(tmpDir, "docs", "guide.md"), "# Guide\n\n## Example\n\nFirst.\n\n## Example\n\nSecond.\n\n## Example 1\n\nThird.\n");
+    expect(readDoc("docs/guide.md", "example-1", tmpDir).content).toBe("## Example\n\nSecond.\n");
+  });
+
+  it("lists available sections when the slug is unknown", () => {
+    expect(() => readDoc("docs/simple.md", "nope", tmpDir)).toThrow(
+      'Section "#nope" not found in docs/simple.md. Available: getting-started, installation',
+    );
+  });
+
+  it("rejects combining a slug with --lines", () => {
+    expect(() => readDoc("docs/simple.md", "usage", tmpDir, { lines: "1-2" })).toThrow("not both");
+  });
+});
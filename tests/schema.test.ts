@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { configJsonSchema } from "../src/schema.js";
+import { SOURCE_TYPES } from "../src/add.js";
+
+const SCHEMA_PATH = join(import.meta.dirname, "..", "config.schema.json");
+
+describe("configJsonSchema", () => {
+  it("matches the published config.schema.json", () => {
+    // Regenerate with: refdocs config schema > config.schema.json
+    expect(JSON.parse(readFileSync(SCHEMA_PATH, "utf-8"))).toEqual(configJsonSchema());
+  });
+
+  it("has a variant for every source type", () => {
+    const schema = configJsonSchema() as { properties: { sources: { items: { oneOf: { properties: { type: { const: string } } }[] } } } };
+    const types = schema.properties.sources.items.oneOf.map((variant) => variant.properties.type.const);
+    expect(types.sort()).toEqual([...SOURCE_TYPES].sort());
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, mkdirSync, rmSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  tokenize,
+  chunkDocument,
+  buildSearchIndex,
+  searchIndex,
+  loadSearchIndex,
+  DEFAULT_INDEX,
+} from "../src/search.js";
+import { buildAndPersistManifest } from "../src/manifest.js";
+import type { RefdocsConfig } from "../src/types.js";
+
+const DATABASE_DOC = [
+  "# Database",
+  "",
+  "Laravel makes interacting with databases extremely simple.",
+  "",
+  "## Configuration",
+  "",
+  "The configuration file lives in config/database.php.",
+  "",
+  "### Read & Write Connections",
+  "",
+  "Sometimes you may wish to use one database connection for SELECT statements.",
+  "",
+].join("\n");
+
+const QUEUE_DOC = [
+  "# Queues",
+  "",
+  "Queues let you defer time consuming tasks.",
+  "",
+  "## Connections Vs. Queues",
+  "",
+  "Each queue connection may have multiple queues.",
+  "",
+].join("\n");
+
+describe("tokenize", () => {
+  it("lowercases, splits on punctuation and drops stopwords", () => {
+    expect(tokenize("Read & Write the Connections!")).toEqual(["read", "write", "connections"]);
+  });
+});
+
+describe("chunkDocument", () => {
+  it("creates one chunk per section with line ranges", () => {
+    const chunks = chunkDocument("docs/database.md", DATABASE_DOC);
+    expect(chunks.map((c) => [c.heading, c.startLine, c.endLine])).toEqual([
+      ["Database", 1, 4],
+      ["Configuration", 5, 8],
+      ["Read & Write Connections", 9, 12],
+    ]);
+    expect(chunks[2].anchor).toBe("read-write-connections");
+  });
+
+  it("leaves MDX imports and component tags out of the index", () => {
+    const chunks = chunkDocument("docs/tabs.mdx", "import Tabs from '@theme/Tabs';\n\n# Tabs\n\n<Tabs groupId=\"os\">\nPick one.\n</Tabs>\n");
+    expect(chunks.map((c) => [c.heading, c.startLine])).toEqual([["Tabs", 3]]);
+    expect(Object.keys(chunks[0].terms.body)).not.toContain("theme");
+    expect(Object.keys(chunks[0].terms.body)).not.toContain("groupid");
+  });
+
+  it("indexes the heading breadcrumb and document title", () => {
+    const chunks = chunkDocument("docs/database.md", DATABASE_DOC);
+    expect(chunks[2].terms.headings).toMatchObject({ configuration: 1, read: 1, write: 1 });
+    expect(chunks[2].terms.title).toEqual({ database: 1 });
+  });
+
+  it("numbers anchors of repeated headings", () => {
+    const chunks = chunkDocument("docs/guide.md", "# Guide\n\n## Example\n\nFirst.\n\n## Example\n\nSecond.\n\n## Example 1\n\nThird.\n");
+    expect(chunks.map((c) => c.anchor)).toEqual(["guide", "example", "example-1", "example-1-1"]);
+  });
+
+  it("keeps text before the first heading", () => {
+    const chunks = chunkDocument("notes.txt", "Plain intro.\n\n# Later\n");
+    expect(chunks[0]).toMatchObject({ heading: "", anchor: "", startLine: 1 });
+    expect(chunks[0].terms.title).toEqual({ later: 1 });
+  });
+});
+
+describe("searchIndex", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-search-"));
+    mkdirSync(join(tmpDir, "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "docs", "database.md"), DATABASE_DOC);
+    writeFileSync(join(tmpDir, "docs", "queues.md"), QUEUE_DOC);
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function index() {
+    return buildSearchIndex([
+      { file: "docs/database.md", content: DATABASE_DOC },
+      { file: "docs/queues.md", content: QUEUE_DOC },
+    ]);
+  }
+
+  it("ranks the best matching section first", () => {
+    const results = searchIndex(index(), "read write connections", tmpDir);
+    expect(results[0]).toMatchObject({
+      file: "docs/database.md",
+      anchor: "read-write-connections",
+      startLine: 9,
+      endLine: 12,
+    });
+    expect(results[0].snippet).toBe("Sometimes you may wish to use one database connection for SELECT statements.");
+  });
+
+  it("boosts heading matches over body matches", () => {
+    const results = searchIndex(index(), "queues", tmpDir);
+    expect(results[0].file).toBe("docs/queues.md");
+  });
+
+  it("respects the limit", () => {
+    expect(searchIndex(index(), "connections", tmpDir, { limit: 1 })).toHaveLength(1);
+  });
+
+  it("returns nothing for unknown terms or empty queries", () => {
+    expect(searchIndex(index(), "kubernetes", tmpDir)).toEqual([]);
+    expect(searchIndex(index(), "the", tmpDir)).toEqual([]);
+  });
+
+  it("applies configured boosts", () => {
+    const built = buildSearchIndex([], { title: 5 });
+    expect(built.boostFields).toEqual({ title: 5, headings: 1.5, body: 1 });
+  });
+
+  it("is persisted next to the manifest", () => {
+    const config: RefdocsConfig = { paths: ["docs"], manifest: "manifest.json" };
+    buildAndPersistManifest(config, tmpDir);
+
+    const indexPath = join(tmpDir, DEFAULT_INDEX);
+    expect(existsSync(indexPath)).toBe(true);
+    expect(loadSearchIndex(indexPath).chunks).toHaveLength(5);
+  });
+
+  it("throws when the index does not exist", () => {
+    expect(() => loadSearchIndex(join(tmpDir, "missing.json"))).toThrow("Search index not found");
+  });
+
+  it("rejects an index written by another version", () => {
+    const indexPath = join(tmpDir, "old.json");
+    writeFileSync(indexPath, JSON.stringify({ ...buildSearchIndex([]), version: 1 }));
+    expect(() => loadSearchIndex(indexPath)).toThrow("Run `refdocs manifest` to rebuild it");
+  });
+
+  it("indexes terms that are Object.prototype members", () => {
+    const built = buildSearchIndex([
+      { file: "docs/classes.md", content: "# Classes\n\nThe constructor builds an object.\n" },
+      { file: "docs/other.md", content: "# Other\n\nNothing here.\n" },
+    ]);
+    expect(built.chunks[0].length.body).toBe(3);
+    // Round-trip through JSON, as the CLI reads it
+    const loaded = JSON.parse(JSON.stringify(built));
+    expect(searchIndex(loaded, "constructor", tmpDir)[0]?.file).toBe("docs/classes.md");
+    expect(searchIndex(loaded, "object", tmpDir)[0]?.file).toBe("docs/classes.md");
+    expect(searchIndex(loaded, "valueof tostring", tmpDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { extractHeadings, extractSectionTree, slugify, splitSections } from "../src/sections.js";
+
+function fixture(name: string): string {
+  return readFileSync(join(import.meta.dirname, "fixtures", name), "utf-8");
+}
+
+describe("extractHeadings", () => {
+  it("extracts h1-h3 headings", () => {
+    const content = "# Title\n\nSome text\n\n## Section\n\n### Subsection\n\n#### Too deep\n";
+    expect(extractHeadings(content)).toEqual(["Title", "Section", "Subsection"]);
+  });
+
+  it("returns empty array for no headings", () => {
+    expect(extractHeadings("Just some text\n\nMore text")).toEqual([]);
+  });
+
+  it("handles headings with inline formatting", () => {
+    const content = "# **Bold Title**\n\n## `Code Heading`\n";
+    expect(extractHeadings(content)).toEqual(["**Bold Title**", "`Code Heading`"]);
+  });
+
+  it("ignores # lines inside fenced code blocks", () => {
+    expect(extractHeadings(fixture("code-blocks.md"))).toEqual([
+      "Code Examples",
+      "Python Example",
+      "Bash Example",
+      "Markdown in Code Blocks",
+    ]);
+  });
+});
+
+describe("extractSectionTree", () => {
+  it("nests sections with slugs and line ranges", () => {
+    const tree = extractSectionTree(fixture("simple.md"), { chunkMinTokens: 0 });
+    expect(tree).toHaveLength(1);
+    expect(tree[0]).toMatchObject({ heading: "Getting Started", level: 1, slug: "getting-started", startLine: 1 });
+
+    const configuration = tree[0].children!.find((c) => c.slug === "configuration")!;
+    expect(configuration).toMatchObject({ level: 2, startLine: 15, endLine: 34 });
+    expect(configuration.children!.map((c) => c.heading)).toEqual(["Basic Setup", "Advanced Options"]);
+  });
+
+  it("extends a section's range over its subsections", () => {
+    const tree = extractSectionTree(fixture("heading-jumps.md"), { chunkMinTokens: 0 });
+    expect(tree.map((s) => [s.heading, s.startLine, s.endLine])).toEqual([
+      ["Top Level", 1, 18],
+      ["Another Top Level", 19, 26],
+    ]);
+    expect(tree[0].children!.map((c) => c.heading)).toEqual(["Jumped to H3", "Back to H2"]);
+  });
+
+  it("omits h4+ headings unless the parent exceeds chunkMaxTokens", () => {
+    const content = fixture("heading-jumps.md");
+    expect(extractSectionTree(content, { chunkMinTokens: 0 })[1].children).toBeUndefined();
+
+    const expanded = extractSectionTree(content, { chunkMinTokens: 0, chunkMaxTokens: 10 });
+    expect(expanded[1].children!.map((c) => c.heading)).toEqual(["Deep Jump to H4"]);
+  });
+
+  it("collapses sections smaller than chunkMinTokens", () => {
+    const tree = extractSectionTree(fixture("tiny-sections.md"));
+    expect(tree).toHaveLength(1);
+    expect(tree[0].children).toBeUndefined();
+
+    const full = extractSectionTree(fixture("tiny-sections.md"), { chunkMinTokens: 0 });
+    expect(full[0].children).toHaveLength(6);
+  });
+
+  it("gives repeated headings unique slugs", () => {
+    const tree = extractSectionTree("# Guide\n\n## Example\n\nFirst.\n\n## Example\n\nSecond.\n\n## Example 1\n\nThird.\n", { chunkMinTokens: 0 });
+    expect(tree[0].children!.map((c) => c.slug)).toEqual(["example", "example-1", "example-1-1"]);
+  });
+
+  it("returns no sections for documents without headings", () => {
+    expect(extractSectionTree(fixture("no-headings.md"))).toEqual([]);
+  });
+});
+
+describe("slugify", () => {
+  it("lowercases and hyphenates", () => {
+    expect(slugify("Read & Write Connections")).toBe("read-write-connections");
+  });
+
+  it("strips inline formatting", () => {
+    expect(slugify("The `config()` helper")).toBe("the-config-helper");
+  });
+});
+
+describe("splitSections", () => {
+  it("returns line ranges for each heading", () => {
+    const content = "# Title\n\nIntro\n\n## Setup\n\nSteps\n";
+    expect(splitSections(content)).toEqual([
+      { level: 1, heading: "Title", startLine: 1, endLine: 4 },
+      { level: 2, heading: "Setup", startLine: 5, endLine: 8 },
+    ]);
+  });
+
+  it("ignores headings inside fenced code", () => {
+    const content = "# Title\n\n```bash\n# comment\n```\n";
+    expect(splitSections(content).map((s) => s.heading)).toEqual(["Title"]);
+  });
+
+  it("closes a fence only with the same character and at least its length", () => {
+    const content = "# Title\n\n````md\n```\n# Not a heading\n~~~\n````\n\n## After\n";
+    expect(splitSections(content).map((s) => s.heading)).toEqual(["Title", "After"]);
+  });
+
+  it("strips closing hashes only after whitespace", () => {
+    const content = "## Using C#\n\n## Setup ##\n";
+    expect(splitSections(content).map((s) => s.heading)).toEqual(["Using C#", "Setup"]);
+  });
+
+  it("keeps a preamble before the first heading", () => {
+    expect(splitSections("Intro\n# Title\n")[0]).toEqual({ level: 0, heading: "", startLine: 1, endLine: 1 });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync, readFileSync, readdirSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { diffDirectories, listFiles, OWNED_FILES, readOwnedFiles, stageDirectory, stageFile } from "../src/staging.js";
+
+function writeTree(dir: string, files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    mkdirSync(join(dir, file, ".."), { recursive: true });
+    writeFileSync(join(dir, file), content);
+  }
+}
+
+describe("staging", () => {
+  let tmpDir: string;
+  let target: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), "refdocs-staging-"));
+    target = join(tmpDir, "docs", "repo");
+    writeTree(target, {
+      "keep.md": "same",
+      "edit.md": "old",
+      "old/gone.md": "x",
+      "vendor/lib/page.md": "nested",
+      [OWNED_FILES]: JSON.stringify(["edit.md", "keep.md", "old/gone.md"]),
+    });
+  });
+
+  afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function stageNew(dir: string): number {
+    writeTree(dir, { "keep.md": "same", "edit.md": "new", "new.md": "y" });
+    return 3;
+  }
+
+  it("lists files recursively, skipping kept directories", () => {
+    expect(listFiles(target, ["vendor/lib"])).toEqual([OWNED_FILES, "edit.md", "keep.md", "old/gone.md"]);
+    expect(listFiles(join(tmpDir, "missing"))).toEqual([]);
+  });
+
+  it("diffs staged files against the target", () => {
+    const staged = join(tmpDir, "staged");
+    stageNew(staged);
+    expect(diffDirectories(staged, target, { prune: true, keep: ["vendor/lib"] })).toEqual({
+      added: ["new.md"],
+      modified: ["edit.md"],
+      deleted: ["old/gone.md"],
+    });
+    expect(diffDirectories(staged, target).deleted).toEqual([]);
+  });
+
+  it("does not report cleaned .mdx copies as deleted", () => {
+    writeTree(target, {
+      "guide.mdx": "# Guide",
+      "guide.md": "<!-- Generated by refdocs from guide.mdx; edit that file instead. -->\n\n# Guide\n",
+    });
+    const staged = join(tmpDir, "staged");
+    writeTree(staged, { "keep.md": "same", "edit.md": "old", "old/gone.md": "x", "guide.mdx": "# Guide" });
+    expect(diffDirectories(staged, target, { prune: true, keep: ["vendor/lib"] }).deleted).toEqual([]);
+  });
+
+  it("swaps the staged tree in when pruning", async () => {
+    const result = await stageDirectory(tmpDir, target, stageNew, { prune: true, keep: ["vendor/lib"] });
+    expect(result.filesWritten).toBe(3);
+    expect(listFiles(target)).toEqual([OWNED_FILES, "edit.md", "keep.md", "new.md", "vendor/lib/page.md"]);
+    expect(readFileSync(join(target, "edit.md"), "utf-8")).toBe("new");
+    expect(readOwnedFiles(target)).toEqual(["edit.md", "keep.md", "new.md"]);
+    expect(readdirSync(tmpDir)).toEqual(["docs"]);
+  });
+
+  it("only prunes files it wrote before", async () => {
+    writeTree(target, { "notes/mine.md": "user notes" });
+    const result = await stageDirectory(tmpDir, target, stageNew, { prune: true, keep: ["vendor/lib"] });
+    expect(result.changes.deleted).toEqual(["old/gone.md"]);
+    expect(readFileSync(join(target, "notes/mine.md"), "utf-8")).toBe("user notes");
+    expect(readOwnedFiles(target)).toEqual(["edit.md", "keep.md", "new.md"]);
+  });
+
+  it("moves kept paths and user files back when the swap fails", async () => {
+    writeTree(target, { "notes/mine.md": "user notes" });
+    const failingSwap = (dir: string) => {
+      // A non-empty directory where the backup goes makes the first rename fail
+      writeTree(`${dir}-old`, { "busy.md": "x" });
+      return stageNew(dir);
+    };
+    await expect(stageDirectory(tmpDir, target, failingSwap, { prune: true, keep: ["vendor/lib"] })).rejects.toThrow();
+    expect(readFileSync(join(target, "notes/mine.md"), "utf-8")).toBe("user notes");
+    expect(readFileSync(join(target, "vendor/lib/page.md"), "utf-8")).toBe("nested");
+    expect(readFileSync(join(target, "edit.md"), "utf-8")).toBe("old");
+  });
+
+  it("counts markdown as owned in a directory without a file list", async () => {
+    rmSync(join(target, OWNED_FILES));
+    writeTree(target, { "notes.txt": "user notes" });
+    const result = await stageDirectory(tmpDir, target, stageNew, { prune: true, keep: ["vendor/lib"] });
+    expect(result.changes.deleted).toEqual(["old/gone.md"]);
+    expect(existsSync(join(target, "old/gone.md"))).toBe(false);
+    expect(readFileSync(join(target, "notes.txt"), "utf-8")).toBe("user notes");
+    expect(readOwnedFiles(target)).toEqual(["edit.md", "keep.md", "new.md"]);
+  });
+
+  it("merges over the target without pruning", async () => {
+    await stageDirectory(tmpDir, target, stageNew);
+    expect(existsSync(join(target, "old/gone.md"))).toBe(true);
+    expect(existsSync(join(target, "new.md"))).toBe(true);
+    expect(readOwnedFiles(target)).toEqual(["edit.md", "keep.md", "new.md", "old/gone.md"]);
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const result = await stageDirectory(tmpDir, target, stageNew, { prune: true, dryRun: true });
+    expect(result.changes.deleted).toEqual(["old/gone.md"]);
+    expect(readFileSync(join(target, "edit.md"), "utf-8")).toBe("old");
+    expect(readdirSync(tmpDir)).toEqual(["docs"]);
+  });
+
+  it("cleans up the staging directory when writing fails", async () => {
+    await expect(stageDirectory(tmpDir, target, () => {
+      throw new Error("bad archive");
+    })).rejects.toThrow("bad archive");
+    expect(readdirSync(tmpDir)).toEqual(["docs"]);
+  });
+
+  it("stages a single file", () => {
+    const file = join(target, "edit.md");
+    expect(stageFile(tmpDir, file, "old")).toEqual({ added: [], modified: [], deleted: [] });
+    expect(stageFile(tmpDir, file, "newer")).toEqual({ added: [], modified: ["edit.md"], deleted: [] });
+    expect(readFileSync(file, "utf-8")).toBe("newer");
+    expect(stageFile(tmpDir, join(target, "fresh.md"), "z", { dryRun: true }).added).toEqual(["fresh.md"]);
+    expect(existsSync(join(target, "fresh.md"))).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import {
+  crawlSite,
+  defaultPrefix,
+  extractLinks,
+  isAllowed,
+  pagePath,
+  parseRobots,
+  parseSitemap,
+} from "../src/web.js";
+import { configureHttp } from "../src/http.js";
+
+function page(title: string, body: string): string {
+  return `<html><head><title>${title}</title></head><body><nav><a href="/">Home</a></nav><main>${body}</main></body></html>`;
+}
+
+// A small documentation site: /docs/ links to two pages, one page is only in
+// the sitemap, one is disallowed by robots.txt and one lives outside /docs/.
+// /docs/flaky/ links to a page that redirects to a disallowed path and to a
+// page whose connection drops.
+const SITE: Record<string, { type: string; body: string; location?: string }> = {
+  "/robots.txt": { type: "text/plain", body: "User-agent: *\nDisallow: /docs/private\n\nSitemap: /sitemap.xml\n" },
+  "/sitemap.xml": {
+    type: "application/xml",
+    body: "<urlset><url><loc>/docs/orphan</loc></url><url><loc>/blog/post</loc></url></urlset>",
+  },
+  "/docs/": {
+    type: "text/html",
+    body: page("Docs", '<h1>Docs</h1><a href="guide">Guide</a> <a href="api/#auth">API</a> <a href="private/keys">Keys</a> <a href="/blog/">Blog</a> <a href="logo.png">Logo</a>'),
+  },
+  "/docs/guide": { type: "text/html", body: page("Guide", '<h1>Guide</h1><p>Read this.</p><a href="/docs/">Back</a>') },
+  "/docs/flaky/": { type: "text/html", body: page("Flaky", '<h1>Flaky</h1><a href="moved">Moved</a> <a href="broken">Broken</a>') },
+  "/docs/flaky/moved": { type: "text/html", body: "", location: "/docs/private/moved" },
+  "/docs/private/moved": { type: "text/html", body: page("Moved", "<h1>Moved</h1>") },
+  "/docs/api/": { type: "text/html", body: page("API", "<h1>API</h1>") },
+  "/docs/orphan": { type: "text/html", body: page("Orphan", "<h1>Orphan</h1>") },
+  "/docs/private/keys": { type: "text/html", body: page("Keys", "<h1>Keys</h1>") },
+  "/docs/logo.png": { type: "image/png", body: "PNG" },
+  "/blog/": { type: "text/html", body: page("Blog", "<h1>Blog</h1>") },
+};
+
+describe("crawlSite", () => {
+  let server: Server;
+  let origin: string;
+  const requested: string[] = [];
+  const userAgents = new Set<string>();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requested.push(req.url ?? "");
+      userAgents.add(req.headers["user-agent"] ?? "");
+      if (req.url === "/docs/flaky/broken") {
+        req.socket.destroy();
+        return;
+      }
+      const found = SITE[req.url ?? ""];
+      if (!found) {
+        res.writeHead(404).end("Not found");
+        return;
+      }
+      if (found.location) {
+        res.writeHead(302, { Location: found.location }).end();
+        return;
+      }
+      // Sitemap locations are written relative here and made absolute on the fly
+      res.writeHead(200, { "Content-Type": found.type }).end(found.body.replace(/<loc>\//g, `<loc>${origin}/`));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    configureHttp({});
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("crawls linked and sitemap pages under the prefix", async () => {
+    const pages = await crawlSite(`${origin}/docs/`, { prefix: "/docs/", maxPages: 10 });
+    expect(pages.map((p) => p.path).sort()).toEqual(["api/index.md", "guide.md", "index.md", "orphan.md"]);
+    expect(pages.find((p) => p.path === "guide.md")?.url).toBe(`${origin}/docs/guide`);
+    // Disallowed and out-of-prefix pages are never requested
+    expect(requested).not.toContain("/docs/private/keys");
+    expect(requested).not.toContain("/blog/");
+    expect(requested).not.toContain("/blog/post");
+  });
+
+  it("identifies itself as refdocs", async () => {
+    await crawlSite(`${origin}/docs/`, { prefix: "/docs/", maxPages: 10 });
+    expect([...userAgents]).toEqual(["refdocs"]);
+  });
+
+  it("skips pages that fail to load or redirect to a disallowed path", async () => {
+    configureHttp({ retries: 0 });
+    const pages = await crawlSite(`${origin}/docs/flaky/`, { prefix: "/docs/", maxPages: 10 });
+    expect(pages.map((p) => p.path).sort()).toEqual(["flaky/index.md", "orphan.md"]);
+    expect(requested).toContain("/docs/flaky/broken");
+    expect(requested).toContain("/docs/private/moved");
+  });
+
+  it("stops at maxPages", async () => {
+    const pages = await crawlSite(`${origin}/docs/`, { prefix: "/docs/", maxPages: 2 });
+    expect(pages).toHaveLength(2);
+    expect(pages[0].path).toBe("index.md");
+  });
+
+  it("fails when the start page can't be fetched", async () => {
+    await expect(crawlSite(`${origin}/docs/missing`, { prefix: "/docs/", maxPages: 10 }))
+      .rejects.toThrow(`HTTP 404 fetching ${origin}/docs/missing`);
+    await expect(crawlSite(`${origin}/docs/private/keys`, { prefix: "/docs/", maxPages: 10 }))
+      .rejects.toThrow("does not allow crawling /docs/private/keys");
+    await expect(crawlSite(`${origin}/blog/`, { prefix: "/docs/", maxPages: 10 }))
+      .rejects.toThrow('outside the crawl prefix "/docs/"');
+  });
+});
+
+describe("parseRobots", () => {
+  it("uses the refdocs group over the * group", () => {
+    const robots = parseRobots(
+      "User-agent: *\nDisallow: /\n\nUser-agent: Googlebot\nUser-agent: refdocs\nDisallow: /docs/drafts/\nAllow: /docs/drafts/public\n",
+    );
+    expect(isAllowed(robots, "/docs/guide")).toBe(true);
+    expect(isAllowed(robots, "/docs/drafts/wip")).toBe(false);
+    expect(isAllowed(robots, "/docs/drafts/public")).toBe(true);
+  });
+
+  it("supports wildcards and end anchors", () => {
+    const robots = parseRobots("User-agent: *\nDisallow: /*.pdf$\nDisallow: /search\nDisallow:\n");
+    expect(isAllowed(robots, "/docs/manual.pdf")).toBe(false);
+    expect(isAllowed(robots, "/docs/manual.pdf.html")).toBe(true);
+    expect(isAllowed(robots, "/search?q=x")).toBe(false);
+  });
+
+  it("allows everything without a matching group", () => {
+    const robots = parseRobots("User-agent: Googlebot\nDisallow: /\nSitemap: https://x.dev/sitemap.xml\n");
+    expect(isAllowed(robots, "/docs/")).toBe(true);
+    expect(robots.sitemaps).toEqual(["https://x.dev/sitemap.xml"]);
+  });
+});
+
+describe("parseSitemap", () => {
+  it("reads page locations and sitemap indexes", () => {
+    expect(parseSitemap("<urlset><url><loc> https://x.dev/a?x=1&amp;y=2 </loc></url></urlset>"))
+      .toEqual({ pages: ["https://x.dev/a?x=1&y=2"], sitemaps: [] });
+    expect(parseSitemap("<sitemapindex><sitemap><loc>https://x.dev/docs.xml</loc></sitemap></sitemapindex>"))
+      .toEqual({ pages: [], sitemaps: ["https://x.dev/docs.xml"] });
+  });
+});
+
+describe("pagePath", () => {
+  it("maps page URLs to markdown paths below the prefix", () => {
+    expect(pagePath("/docs/", "/docs/")).toBe("index.md");
+    expect(pagePath("/docs", "/docs/")).toBe("index.md");
+    expect(pagePath("/docs/guide.html", "/docs/")).toBe("guide.md");
+    expect(pagePath("/docs/api/", "/docs/")).toBe("api/index.md");
+    expect(pagePath("/docs/a%20b/c", "/docs/")).toBe("a b/c.md");
+    expect(pagePath("/docs/..%2F..%2Fetc", "/docs/")).toBe("..-..-etc.md");
+  });
+
+  it("defaults the prefix to the start page's directory", () => {
+    expect(defaultPrefix("https://x.dev/docs/intro")).toBe("/docs/");
+    expect(defaultPrefix("https://x.dev/docs/")).toBe("/docs/");
+    expect(defaultPrefix("https://x.dev")).toBe("/");
+  });
+});
+
+describe("extractLinks", () => {
+  it("resolves hrefs against the page and skips nofollow links", () => {
+    const html = '<a href="b">B</a><a href="/c#top">C</a><a rel="nofollow" href="d">D</a><a href="http://[bad">X</a>';
+    expect(extractLinks(html, "https://x.dev/docs/a")).toEqual(["https://x.dev/docs/b", "https://x.dev/c#top"]);
+  });
+});